@@ -0,0 +1,29 @@
+type CacheBackendName = "memory" | "none";
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Response cache for read-heavy API routes. CACHE_BACKEND=none disables it;
+ * CACHE_MAX_ENTRIES and CACHE_TTL_SECONDS size the in-memory backend.
+ */
+class CacheConfig {
+	get backend(): CacheBackendName {
+		return process.env.CACHE_BACKEND === "none" ? "none" : "memory";
+	}
+
+	get maxEntries(): number {
+		const value = Number(process.env.CACHE_MAX_ENTRIES);
+		return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ENTRIES;
+	}
+
+	get ttlMs(): number {
+		const value = Number(process.env.CACHE_TTL_SECONDS);
+		return (
+			(Number.isFinite(value) && value > 0 ? value : DEFAULT_TTL_SECONDS) * 1000
+		);
+	}
+}
+
+export default new CacheConfig();
+export { CacheBackendName };
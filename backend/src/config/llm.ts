@@ -0,0 +1,96 @@
+import { CHAT_FORMATS, ChatFormat } from "../services/llm/chat-format";
+
+type PromptStyle = "full" | "compact";
+
+interface LLMTarget {
+	provider: string;
+	model: string;
+	style: PromptStyle;
+	/** Prompt plus output, in tokens */
+	contextWindow: number;
+	/**
+	 * Instruction format for raw text-generation backends (default: detected
+	 * from the model name for full targets, none for compact ones)
+	 */
+	chatFormat?: ChatFormat;
+}
+
+const DEFAULT_CHAIN =
+	"huggingface:mistralai/Mixtral-8x7B-Instruct-v0.1,huggingface:google/flan-t5-xxl#compact";
+const DEFAULT_FAST_TARGET = "huggingface:mistralai/Mistral-7B-Instruct-v0.2";
+const DEFAULT_CONTEXT_WINDOW: Record<PromptStyle, number> = {
+	full: 8192,
+	compact: 2048,
+};
+
+/**
+ * LLM targets are written as `provider:model`, optionally suffixed with
+ * `#compact` to send the short prompt to models with small context windows
+ * and `#ctx=<tokens>` to set the context window (default: 8192, or 2048 for
+ * compact targets). `#format=<chat format>` sets the instruction format,
+ * which is otherwise detected from the model name for full targets only. The
+ * fallback chain is a comma-separated list tried in order, e.g.
+ *
+ *   LLM_PROVIDER_CHAIN=openai-compatible:llama3.1:8b#ctx=131072,huggingface:google/flan-t5-xxl#compact#ctx=512
+ *   LLM_PROVIDER_CHAIN=mock:offline
+ */
+class LLMConfig {
+	get chain(): LLMTarget[] {
+		const chain = (process.env.LLM_PROVIDER_CHAIN || DEFAULT_CHAIN)
+			.split(",")
+			.map((entry) => entry.trim())
+			.filter(Boolean)
+			.map((entry) => this.parseTarget(entry));
+
+		if (chain.length === 0) {
+			throw new Error("LLM_PROVIDER_CHAIN must contain at least one target");
+		}
+
+		return chain;
+	}
+
+	get fastTarget(): LLMTarget {
+		return this.parseTarget(
+			process.env.LLM_FAST_TARGET || DEFAULT_FAST_TARGET
+		);
+	}
+
+	parseTarget(entry: string): LLMTarget {
+		const [target, ...flags] = entry.split("#").map((part) => part.trim());
+		const separator = target.indexOf(":");
+
+		if (separator <= 0 || separator === target.length - 1) {
+			throw new Error(
+				`Invalid LLM target "${entry}", expected "provider:model"`
+			);
+		}
+
+		const style: PromptStyle = flags.includes("compact") ? "compact" : "full";
+		let contextWindow = DEFAULT_CONTEXT_WINDOW[style];
+		let chatFormat: ChatFormat | undefined;
+
+		for (const flag of flags) {
+			const match = flag.match(/^ctx=(\d+)$/);
+			const format = flag.match(/^format=(.+)$/)?.[1] as ChatFormat | undefined;
+
+			if (match) {
+				contextWindow = Number(match[1]);
+			} else if (format && CHAT_FORMATS.includes(format)) {
+				chatFormat = format;
+			} else if (flag !== "compact") {
+				throw new Error(`Invalid LLM target flag "#${flag}" in "${entry}"`);
+			}
+		}
+
+		return {
+			provider: target.substring(0, separator).trim(),
+			model: target.substring(separator + 1).trim(),
+			style,
+			contextWindow,
+			chatFormat,
+		};
+	}
+}
+
+export default new LLMConfig();
+export { LLMTarget, PromptStyle };
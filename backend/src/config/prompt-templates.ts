@@ -0,0 +1,150 @@
+import { PromptTemplateKey } from "../models/PromptTemplate";
+
+/**
+ * Built-in prompt templates, used as version 0 until a stored version of a
+ * key is activated.
+ *
+ * `{{name}}` inserts a variable, `{{#name}}…{{/name}}` keeps its content
+ * only when the variable is set and `{{^name}}…{{/name}}` only when it is
+ * not. Model-specific chat formatting is added when the prompt is sent, so
+ * templates are plain text.
+ */
+const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKey, string[]> = {
+	optimize: ["title", "content", "references", "tone", "audience", "length"],
+	section: [
+		"title",
+		"content",
+		"references",
+		"tone",
+		"audience",
+		"length",
+		"outline",
+		"keyTerms",
+		"part",
+		"totalParts",
+	],
+	stitch: ["title", "draft", "tone", "audience"],
+	compact: ["content", "tone", "audience"],
+	queries: ["title", "outline", "keyTerms", "count"],
+};
+
+/** Variables a template of each key must use */
+const REQUIRED_PROMPT_VARIABLES: Record<PromptTemplateKey, string[]> = {
+	optimize: ["content"],
+	section: ["content"],
+	stitch: ["draft"],
+	compact: ["content"],
+	queries: ["title"],
+};
+
+const TONE_INSTRUCTION =
+	"{{#tone}}Write in a {{tone}} tone{{/tone}}{{^tone}}Match the professional writing style of the reference articles{{/tone}}";
+
+const AUDIENCE_INSTRUCTION =
+	"{{#audience}}\n7. Write for this audience: {{audience}}{{/audience}}";
+
+const DEFAULT_PROMPT_TEMPLATES: Record<
+	PromptTemplateKey,
+	{ description: string; body: string }
+> = {
+	optimize: {
+		description: "Rewrite a whole article in one pass",
+		body: `You are an expert content writer and SEO specialist. Your task is to rewrite and optimize the following article to match the style and quality of top-ranking articles.
+
+## Original Article
+Title: {{title}}
+
+Content:
+{{content}}
+
+## Reference Articles (Top-Ranking Examples)
+
+{{references}}## Your Task
+
+Rewrite the original article with these improvements:
+1. ${TONE_INSTRUCTION}
+2. Improve structure with clear headings and sections
+3. Make it more engaging and SEO-friendly
+4. Keep the core message intact
+5. Use markdown formatting (headings, lists, emphasis)
+6. {{#length}}Aim for approximately {{length}} words{{/length}}{{^length}}Make it approximately the same length or longer{{/length}}${AUDIENCE_INSTRUCTION}
+
+Write ONLY the optimized article content. Do NOT include references section - that will be added separately.
+
+Start writing the optimized article now:`,
+	},
+	section: {
+		description: "Rewrite one part of a long article",
+		body: `You are an expert content writer and SEO specialist. You are rewriting a long article one part at a time to match the style and quality of top-ranking articles. This is part {{part}} of {{totalParts}}.
+
+## Article
+Title: {{title}}
+
+Outline:
+{{#outline}}{{outline}}{{/outline}}{{^outline}}(no headings){{/outline}}
+{{#keyTerms}}
+Key terms to use consistently: {{keyTerms}}
+{{/keyTerms}}
+## Reference Articles (Top-Ranking Examples)
+
+{{references}}## Part {{part}} of {{totalParts}}
+
+{{content}}
+
+## Your Task
+
+Rewrite only this part with these improvements:
+1. ${TONE_INSTRUCTION}
+2. Keep its headings and their order (you may improve their wording)
+3. Make it more engaging and SEO-friendly
+4. Keep the core message and all facts intact
+5. Use markdown formatting (headings, lists, emphasis)
+6. Aim for approximately {{length}} words${AUDIENCE_INSTRUCTION}
+
+Do not add an introduction or conclusion that this part does not have. Write ONLY the rewritten part:`,
+	},
+	stitch: {
+		description: "Edit the rewritten parts of a long article into one",
+		body: `You are an expert editor. The article below was rewritten in separate parts. Edit it into one consistent article:
+1. Smooth the transitions between parts
+2. Remove repeated introductions, conclusions and statements
+3. Keep terminology and {{#tone}}the {{tone}} tone{{/tone}}{{^tone}}tone{{/tone}} consistent
+4. Keep all headings, facts and markdown formatting{{#audience}}
+5. Keep it suited to this audience: {{audience}}{{/audience}}
+
+Do not shorten it apart from removing repetition. Do NOT include a references section.
+
+Title: {{title}}
+
+## Draft
+
+{{draft}}
+
+Write ONLY the final article:`,
+	},
+	compact: {
+		description: "Short prompt for models with small context windows",
+		body: `Rewrite this article in {{#tone}}a {{tone}}{{/tone}}{{^tone}}a professional, engaging{{/tone}} style similar to top blog posts{{#audience}} for {{audience}}{{/audience}}:
+
+{{content}}`,
+	},
+	queries: {
+		description: "Suggest web search queries for finding reference articles",
+		body: `Suggest {{count}} web search queries that would find high-quality articles on the same topic as this blog post. Describe the topic plainly; ignore clickbait wording in the title.
+
+Title: {{title}}
+{{#outline}}
+Headings:
+{{outline}}
+{{/outline}}{{#keyTerms}}
+Key terms: {{keyTerms}}
+{{/keyTerms}}
+Write one query per line, without numbering or quotes:`,
+	},
+};
+
+export {
+	DEFAULT_PROMPT_TEMPLATES,
+	PROMPT_TEMPLATE_VARIABLES,
+	REQUIRED_PROMPT_VARIABLES,
+};
@@ -0,0 +1,56 @@
+type QualityAction = "flag" | "reject";
+
+interface QualityThresholds {
+	minScore: number;
+	minLengthRatio: number;
+	maxLengthRatio: number;
+	minReadingEase: number;
+	maxReferenceOverlap: number;
+	minEntityRetention: number;
+	minHeadingCoverage: number;
+}
+
+const DEFAULT_THRESHOLDS: QualityThresholds = {
+	minScore: 50,
+	minLengthRatio: 0.5,
+	maxLengthRatio: 3,
+	minReadingEase: 20,
+	maxReferenceOverlap: 0.3,
+	minEntityRetention: 0.5,
+	minHeadingCoverage: 0.5,
+};
+
+const THRESHOLD_ENV: Record<keyof QualityThresholds, string> = {
+	minScore: "QUALITY_MIN_SCORE",
+	minLengthRatio: "QUALITY_MIN_LENGTH_RATIO",
+	maxLengthRatio: "QUALITY_MAX_LENGTH_RATIO",
+	minReadingEase: "QUALITY_MIN_READING_EASE",
+	maxReferenceOverlap: "QUALITY_MAX_REFERENCE_OVERLAP",
+	minEntityRetention: "QUALITY_MIN_ENTITY_RETENTION",
+	minHeadingCoverage: "QUALITY_MIN_HEADING_COVERAGE",
+};
+
+/**
+ * Quality gates for optimized versions. Each threshold can be set with its
+ * QUALITY_* variable; QUALITY_ACTION decides whether versions that miss one
+ * are saved and flagged (default) or rejected. Empty, truncated,
+ * prompt-echoing and wrong-language output is always rejected.
+ */
+class QualityConfig {
+	get action(): QualityAction {
+		return process.env.QUALITY_ACTION === "reject" ? "reject" : "flag";
+	}
+
+	get thresholds(): QualityThresholds {
+		return Object.fromEntries(
+			Object.entries(DEFAULT_THRESHOLDS).map(([name, fallback]) => {
+				const raw = process.env[THRESHOLD_ENV[name as keyof QualityThresholds]];
+				const value = raw ? Number(raw) : NaN;
+				return [name, Number.isFinite(value) && value >= 0 ? value : fallback];
+			})
+		) as unknown as QualityThresholds;
+	}
+}
+
+export default new QualityConfig();
+export { QualityAction, QualityThresholds };
@@ -0,0 +1,39 @@
+const DEFAULT_PROVIDERS = "google-html,serpapi";
+const DEFAULT_MAX_QUERIES = 4;
+
+/**
+ * Search providers are tried in the order of SEARCH_PROVIDERS, a
+ * comma-separated list of google-html, serpapi, bing, brave and fixture.
+ * Providers without their API key (or fixture file) are skipped, e.g.
+ *
+ *   SEARCH_PROVIDERS=brave,serpapi,google-html
+ *   SEARCH_PROVIDERS=fixture SEARCH_FIXTURES_PATH=./fixtures/search.json
+ *
+ * Each optimization runs up to SEARCH_MAX_QUERIES queries planned from the
+ * article; SEARCH_LLM_QUERIES=true adds queries suggested by LLM_FAST_TARGET.
+ */
+class SearchConfig {
+	get providers(): string[] {
+		const providers = (process.env.SEARCH_PROVIDERS || DEFAULT_PROVIDERS)
+			.split(",")
+			.map((name) => name.trim())
+			.filter(Boolean);
+
+		if (providers.length === 0) {
+			throw new Error("SEARCH_PROVIDERS must name at least one provider");
+		}
+
+		return providers;
+	}
+
+	get maxQueries(): number {
+		const value = Number(process.env.SEARCH_MAX_QUERIES);
+		return Number.isInteger(value) && value >= 1 ? value : DEFAULT_MAX_QUERIES;
+	}
+
+	get llmQueries(): boolean {
+		return process.env.SEARCH_LLM_QUERIES === "true";
+	}
+}
+
+export default new SearchConfig();
@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import auditService from "../services/audit.service";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+class AuditController {
+	/**
+	 * List audit entries, filterable by resource, user and action
+	 * GET /api/audit
+	 */
+	async getAuditLog(req: Request, res: Response): Promise<void> {
+		try {
+			const {
+				page = 1,
+				limit = 50,
+				resourceType,
+				resourceId,
+				userId,
+				action,
+			} = req.query;
+
+			const pageNum = parseInt(page as string);
+			const limitNum = parseInt(limit as string);
+
+			if (userId !== undefined && !mongoose.isValidObjectId(userId)) {
+				res.status(400).json({
+					success: false,
+					message: "Invalid user ID",
+				});
+				return;
+			}
+
+			const { entries, total } = await auditService.list({
+				page: pageNum,
+				limit: limitNum,
+				resourceType: resourceType as string | undefined,
+				resourceId: resourceId as string | undefined,
+				userId: userId as string | undefined,
+				action: action as string | undefined,
+			});
+
+			res.status(200).json({
+				success: true,
+				data: {
+					entries,
+					pagination: {
+						currentPage: pageNum,
+						totalPages: Math.ceil(total / limitNum),
+						totalItems: total,
+						itemsPerPage: limitNum,
+					},
+				},
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch audit log",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new AuditController();
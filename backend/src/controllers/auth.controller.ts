@@ -0,0 +1,209 @@
+import { Request, Response } from "express";
+import authService, { AuthError } from "../services/auth.service";
+import auditService from "../services/audit.service";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	return error instanceof AuthError ? error.statusCode : 500;
+};
+
+class AuthController {
+	/**
+	 * Create an account (the first one is open, later ones need an admin)
+	 * POST /api/auth/register
+	 */
+	async register(req: Request, res: Response): Promise<void> {
+		try {
+			const user = await authService.register(req.body, req.auth);
+
+			await auditService.record(req, "create", "user", user._id, {
+				email: user.email,
+				role: user.role,
+			});
+
+			res.status(201).json({
+				success: true,
+				message: "Account created successfully",
+				data: user,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to create account",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Log in with email and password
+	 * POST /api/auth/login
+	 */
+	async login(req: Request, res: Response): Promise<void> {
+		try {
+			const { email, password } = req.body;
+
+			const { token, user } = await authService.login(email, password);
+
+			res.status(200).json({
+				success: true,
+				data: { token, user },
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to log in",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get the authenticated user
+	 * GET /api/auth/me
+	 */
+	async getCurrentUser(req: Request, res: Response): Promise<void> {
+		const { user, role, via } = req.auth!;
+
+		res.status(200).json({
+			success: true,
+			data: { user, role, via },
+		});
+	}
+
+	/**
+	 * Create an API key for the authenticated user
+	 * POST /api/auth/api-keys
+	 */
+	async createApiKey(req: Request, res: Response): Promise<void> {
+		try {
+			const { apiKey, key } = await authService.createApiKey(
+				req.auth!.user,
+				req.body
+			);
+
+			await auditService.record(req, "create", "api-key", apiKey._id, {
+				name: apiKey.name,
+				role: apiKey.role,
+			});
+
+			res.status(201).json({
+				success: true,
+				message: "API key created. Store the key now, it is not shown again.",
+				data: { apiKey, key },
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to create API key",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * List the authenticated user's API keys
+	 * GET /api/auth/api-keys
+	 */
+	async getApiKeys(req: Request, res: Response): Promise<void> {
+		try {
+			const apiKeys = await authService.listApiKeys(req.auth!.user);
+
+			res.status(200).json({
+				success: true,
+				data: apiKeys,
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch API keys",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Revoke an API key
+	 * DELETE /api/auth/api-keys/:id
+	 */
+	async revokeApiKey(req: Request, res: Response): Promise<void> {
+		try {
+			const apiKey = await authService.revokeApiKey(req.auth!, req.params.id);
+
+			await auditService.record(req, "delete", "api-key", apiKey._id, {
+				name: apiKey.name,
+			});
+
+			res.status(200).json({
+				success: true,
+				message: "API key revoked successfully",
+				data: apiKey,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to revoke API key",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * List user accounts
+	 * GET /api/users
+	 */
+	async getAllUsers(req: Request, res: Response): Promise<void> {
+		try {
+			const users = await authService.listUsers();
+
+			res.status(200).json({
+				success: true,
+				data: users,
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch users",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Change a user's role or deactivate the account
+	 * PUT /api/users/:id
+	 */
+	async updateUser(req: Request, res: Response): Promise<void> {
+		try {
+			const { role, isActive } = req.body;
+
+			const user = await authService.updateUser(req.params.id, {
+				role,
+				isActive,
+			});
+
+			await auditService.record(req, "update", "user", user._id, {
+				role,
+				isActive,
+			});
+
+			res.status(200).json({
+				success: true,
+				message: "User updated successfully",
+				data: user,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to update user",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new AuthController();
@@ -0,0 +1,87 @@
+import { Request, Response } from "express";
+import articleExportService, {
+	ArticleExportError,
+} from "../services/article-export.service";
+import { ArticleQueryError } from "../services/article-search.service";
+import { ExportArticleQuery, ExportArticlesQuery } from "../types/article.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	return error instanceof ArticleExportError ||
+		error instanceof ArticleQueryError
+		? error.statusCode
+		: 500;
+};
+
+class ExportController {
+	/**
+	 * Download an article as Markdown with front matter, HTML or JSON
+	 * GET /api/articles/:id/export?format=md|html|json
+	 */
+	async exportArticle(req: Request, res: Response): Promise<void> {
+		try {
+			const { format } = req.query as unknown as ExportArticleQuery;
+
+			const article = await articleExportService.getArticle(req.params.id);
+			const file = articleExportService.export(article, format);
+
+			res
+				.status(200)
+				.type(file.contentType)
+				.attachment(file.filename)
+				.send(file.body);
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to export article",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Download the filtered articles as a zip laid out for Hugo or Jekyll
+	 * GET /api/articles/export
+	 */
+	async exportBundle(req: Request, res: Response): Promise<void> {
+		const query = req.query as unknown as ExportArticlesQuery;
+
+		try {
+			const filter = await articleExportService.buildBundleFilter(query);
+
+			res
+				.status(200)
+				.type("application/zip")
+				.attachment(`articles-${query.layout}.zip`);
+
+			const count = await articleExportService.bundle(
+				filter,
+				query.layout,
+				query.limit,
+				res
+			);
+
+			console.log(`📦 Exported ${count} articles for ${query.layout}`);
+		} catch (error) {
+			// Once the zip has started streaming, all that is left is to cut it off
+			if (res.headersSent) {
+				console.error("Error exporting articles:", getErrorMessage(error));
+				res.destroy();
+				return;
+			}
+
+			res.removeHeader("Content-Disposition");
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to export articles",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new ExportController();
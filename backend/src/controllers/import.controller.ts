@@ -0,0 +1,73 @@
+import { Request, Response } from "express";
+import auditService from "../services/audit.service";
+import articleImportService, {
+	ArticleImportError,
+	ImportFile,
+} from "../services/article-import.service";
+import { ImportArticlesQuery } from "../types/article.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	return error instanceof ArticleImportError ? error.statusCode : 500;
+};
+
+/**
+ * Uploaded files, or a zip sent as the request body
+ */
+const filesOf = (req: Request): ImportFile[] => {
+	if (Buffer.isBuffer(req.body) && req.body.length > 0) {
+		return [{ name: "upload.zip", buffer: req.body }];
+	}
+
+	const files = Array.isArray(req.files) ? req.files : [];
+
+	return files.map((file) => ({
+		name: file.originalname,
+		buffer: file.buffer,
+	}));
+};
+
+class ImportController {
+	/**
+	 * Create originals from Markdown, JSON or CSV files, or zips of them,
+	 * reporting each row's outcome. With dryRun=true nothing is stored.
+	 * POST /api/articles/import
+	 */
+	async importArticles(req: Request, res: Response): Promise<void> {
+		try {
+			const dryRun =
+				(req.query as unknown as ImportArticlesQuery).dryRun === "true";
+
+			const report = await articleImportService.import(filesOf(req), dryRun);
+
+			if (!dryRun && report.summary.created > 0) {
+				await auditService.record(req, "import", "article", undefined, {
+					files: [...new Set(report.rows.map((row) => row.file))],
+					...report.summary,
+				});
+			}
+
+			const { created, valid, conflict, error } = report.summary;
+
+			res.status(200).json({
+				success: true,
+				message: dryRun
+					? `${valid} articles can be imported, ${conflict} conflicts, ${error} errors`
+					: `Imported ${created} articles, ${conflict} conflicts, ${error} errors`,
+				data: report,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to import articles",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new ImportController();
@@ -0,0 +1,225 @@
+import { Request, Response } from "express";
+import jobQueueService, { JobQueueError } from "../services/job-queue.service";
+import articleService from "../services/article.service";
+import auditService from "../services/audit.service";
+import {
+	EnqueueJobRequest,
+	ListJobsQuery,
+	RetryJobRequest,
+} from "../types/job.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown, fallback: number): number => {
+	return error instanceof JobQueueError ? error.statusCode : fallback;
+};
+
+class JobController {
+	/**
+	 * Enqueue a job
+	 * POST /api/jobs
+	 */
+	async enqueueJob(req: Request, res: Response): Promise<void> {
+		try {
+			const { type, params = {} } = req.body as EnqueueJobRequest;
+
+			const job = await jobQueueService.enqueue(type, params);
+
+			await auditService.record(req, "create", "job", job._id, {
+				type: job.type,
+				params: job.params,
+			});
+
+			res.status(202).json({
+				success: true,
+				message: "Job queued successfully",
+				data: job,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error, 500)).json({
+				success: false,
+				message: "Failed to queue job",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get all jobs, newest first
+	 * GET /api/jobs
+	 */
+	async getAllJobs(req: Request, res: Response): Promise<void> {
+		try {
+			const {
+				page: pageNum,
+				limit: limitNum,
+				status,
+				type,
+			} = req.query as unknown as ListJobsQuery;
+
+			const { jobs, total } = await jobQueueService.list({
+				status,
+				type,
+				page: pageNum,
+				limit: limitNum,
+			});
+
+			res.status(200).json({
+				success: true,
+				data: {
+					jobs,
+					pagination: {
+						currentPage: pageNum,
+						totalPages: Math.ceil(total / limitNum),
+						totalItems: total,
+						itemsPerPage: limitNum,
+					},
+				},
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch jobs",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Article counts by optimization state, job counts by status and the
+	 * latest run of each job type
+	 * GET /api/jobs/summary
+	 */
+	async getSummary(req: Request, res: Response): Promise<void> {
+		try {
+			const [articles, jobs, latest] = await Promise.all([
+				articleService.countByOptimization(),
+				jobQueueService.countByStatus(),
+				jobQueueService.latestByType(),
+			]);
+
+			res.status(200).json({
+				success: true,
+				data: { articles, jobs, latest },
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch job summary",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get job by ID, including progress and per-item results
+	 * GET /api/jobs/:id
+	 */
+	async getJobById(req: Request, res: Response): Promise<void> {
+		try {
+			const { id } = req.params;
+
+			const job = await jobQueueService.getById(id);
+
+			if (!job) {
+				res.status(404).json({
+					success: false,
+					message: "Job not found",
+				});
+				return;
+			}
+
+			res.status(200).json({
+				success: true,
+				data: job,
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch job",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Cancel job
+	 * POST /api/jobs/:id/cancel
+	 */
+	async cancelJob(req: Request, res: Response): Promise<void> {
+		try {
+			const { id } = req.params;
+
+			const job = await jobQueueService.cancel(id);
+
+			if (!job) {
+				res.status(404).json({
+					success: false,
+					message: "Job not found",
+				});
+				return;
+			}
+
+			await auditService.record(req, "cancel", "job", job._id);
+
+			res.status(200).json({
+				success: true,
+				message:
+					job.status === "cancelled"
+						? "Job cancelled successfully"
+						: "Cancellation requested",
+				data: job,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error, 500)).json({
+				success: false,
+				message: "Failed to cancel job",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Queue a new job for the failed items of a finished one
+	 * POST /api/jobs/:id/retry
+	 */
+	async retryJob(req: Request, res: Response): Promise<void> {
+		try {
+			const { id } = req.params;
+			const { items } = req.body as RetryJobRequest;
+
+			const job = await jobQueueService.retry(id, items);
+
+			if (!job) {
+				res.status(404).json({
+					success: false,
+					message: "Job not found",
+				});
+				return;
+			}
+
+			await auditService.record(req, "create", "job", job._id, {
+				type: job.type,
+				retryOf: id,
+				items: items?.length,
+			});
+
+			res.status(202).json({
+				success: true,
+				message: "Retry queued successfully",
+				data: job,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error, 500)).json({
+				success: false,
+				message: "Failed to retry job",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new JobController();
@@ -0,0 +1,340 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Article, { IArticle } from "../models/Article";
+import { LLMTarget } from "../config/llm";
+import articleService from "../services/article.service";
+import auditService from "../services/audit.service";
+import llmService, { LLMError } from "../services/llm.service";
+import optimizationService, {
+	OptimizationProgress,
+} from "../services/optimization.service";
+import articleVersionService, {
+	ArticleVersionError,
+} from "../services/article-version.service";
+import idempotencyService, {
+	IdempotencyError,
+} from "../services/idempotency.service";
+import { QualityError } from "../services/article-quality.service";
+import { SearchServiceError } from "../services/search.service";
+import { RequestLocation } from "../types/api";
+import {
+	OptimizeArticleRequest,
+	OptimizeStreamQuery,
+} from "../types/article.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	if (error instanceof ArticleVersionError) return error.statusCode;
+	if (error instanceof IdempotencyError) return error.statusCode;
+	if (error instanceof QualityError) return error.statusCode;
+	if (error instanceof LLMError) return error.statusCode;
+	if (error instanceof SearchServiceError) return error.statusCode;
+	return 500;
+};
+
+const streamHeartbeatInterval = 15000;
+/** How often a reconnected stream checks on the run it is waiting for */
+const idempotencyPollInterval = 2000;
+
+interface IdempotencyOptions {
+	key?: string;
+	/**
+	 * Called while another request holds the key; returning true waits for
+	 * its version instead of failing with 409
+	 */
+	keepWaiting?(): boolean;
+}
+
+/**
+ * Resolve the provider/model override, answering 400 if it is invalid
+ * @returns Targets, or null if a response has been sent
+ */
+const resolveTargets = (
+	res: Response,
+	options: OptimizeArticleRequest,
+	location: RequestLocation
+): LLMTarget[] | null => {
+	try {
+		return llmService.resolveTargets(options.provider, options.model);
+	} catch (error) {
+		res.status(400).json({
+			success: false,
+			message: "Invalid request",
+			errors: [
+				{ location, field: "provider", message: getErrorMessage(error) },
+			],
+		});
+		return null;
+	}
+};
+
+/**
+ * Claim an idempotency key, or wait for the request holding it to finish
+ * @returns The resource ID an earlier request created, if any
+ */
+const claimKey = async (
+	key: string,
+	userId: mongoose.Types.ObjectId,
+	operation: Record<string, unknown>,
+	keepWaiting?: () => boolean
+): Promise<string | undefined> => {
+	for (;;) {
+		try {
+			return await idempotencyService.begin(key, userId, operation);
+		} catch (error) {
+			const inProgress =
+				error instanceof IdempotencyError && error.statusCode === 409;
+			if (!inProgress || !keepWaiting?.()) throw error;
+
+			await new Promise((resolve) =>
+				setTimeout(resolve, idempotencyPollInterval)
+			);
+		}
+	}
+};
+
+/**
+ * Create a new version of an original article, honouring an idempotency key
+ * @returns The created version, or the one an earlier request with the same
+ * key created
+ */
+const runOptimization = async (
+	req: Request,
+	original: IArticle,
+	options: OptimizeArticleRequest,
+	targets: LLMTarget[],
+	idempotency: IdempotencyOptions = {},
+	progress: OptimizationProgress = {}
+): Promise<{ article: IArticle; replayed: boolean }> => {
+	const idempotencyKey = idempotency.key;
+	const userId = req.auth!.user._id;
+	let claimed = false;
+
+	try {
+		if (idempotencyKey !== undefined) {
+			const previousId = await claimKey(
+				idempotencyKey,
+				userId,
+				{
+					operation: "optimize",
+					articleId: String(original._id),
+					options,
+				},
+				idempotency.keepWaiting
+			);
+
+			if (previousId) {
+				const previous = await Article.findById(previousId);
+
+				if (!previous) {
+					throw new ArticleVersionError(
+						"The version created for this Idempotency-Key has been deleted",
+						404
+					);
+				}
+
+				return { article: previous, replayed: true };
+			}
+
+			claimed = true;
+		}
+
+		const optimized = await optimizationService.buildOptimizedVersion(
+			original,
+			{
+				referenceCount: options.referenceCount,
+				targetLength: options.targetLength,
+				tone: options.tone,
+				audience: options.audience,
+				targets,
+				progress,
+			}
+		);
+
+		if (!optimized) {
+			throw new ArticleVersionError(
+				"No reference articles could be found",
+				422
+			);
+		}
+
+		progress.onStage?.("saving");
+		const article = await articleService.saveOptimizedVersion(optimized);
+
+		if (claimed) {
+			await idempotencyService.complete(
+				idempotencyKey!,
+				userId,
+				String(article._id)
+			);
+		}
+
+		await auditService.record(req, "create", "article", article._id, {
+			originalArticleId: original._id,
+			version: article.version,
+			via: "optimize",
+		});
+
+		return { article, replayed: false };
+	} catch (error) {
+		if (claimed) {
+			await idempotencyService.release(idempotencyKey!, userId);
+		}
+
+		throw error;
+	}
+};
+
+class OptimizationController {
+	/**
+	 * Run the search → scrape → LLM pipeline for one article and store the
+	 * result as a new version. Optimized version IDs resolve to their
+	 * original. Repeating a request with the same Idempotency-Key returns the
+	 * version the first request created.
+	 * POST /api/articles/:id/optimize
+	 */
+	async optimizeArticle(req: Request, res: Response): Promise<void> {
+		const options = req.body as OptimizeArticleRequest;
+		const targets = resolveTargets(res, options, "body");
+		if (!targets) return;
+
+		try {
+			const original = await articleVersionService.getOriginal(req.params.id);
+			const { article, replayed } = await runOptimization(
+				req,
+				original,
+				options,
+				targets,
+				{ key: req.header("idempotency-key") }
+			);
+
+			if (replayed) {
+				res.setHeader("Idempotent-Replayed", "true");
+				res.status(200).json({
+					success: true,
+					message: `Version ${article.version} was already created for this request`,
+					data: article,
+				});
+				return;
+			}
+
+			res.status(201).json({
+				success: true,
+				message: `Version ${article.version} created successfully`,
+				data: article,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to optimize article",
+				error: getErrorMessage(error),
+				quality: error instanceof QualityError ? error.report : undefined,
+			});
+		}
+	}
+
+	/**
+	 * Same as optimizeArticle, with options in the query string and progress
+	 * sent as Server-Sent Events:
+	 * - `stage`: {stage, ...details}, see OptimizationStage. Each "generating"
+	 *   event starts a new LLM attempt, so text received before it should be
+	 *   discarded.
+	 * - `token`: {text}, the generated article as it is written
+	 * - `done`: {article, replayed}
+	 * - `error`: {message, statusCode, quality?}
+	 * Errors found before the stream opens are answered with JSON. The version
+	 * is still stored if the client disconnects. Every event carries the
+	 * stream's idempotency key (the idempotencyKey parameter or
+	 * Idempotency-Key header, else one generated) as its id, so an EventSource reconnecting with it as
+	 * Last-Event-ID waits for that run and receives its version rather than
+	 * starting another.
+	 * GET /api/articles/:id/optimize/stream
+	 */
+	async streamOptimization(req: Request, res: Response): Promise<void> {
+		const { idempotencyKey, ...options } =
+			req.query as unknown as OptimizeStreamQuery;
+		const key =
+			idempotencyKey ||
+			req.header("idempotency-key") ||
+			req.header("last-event-id") ||
+			crypto.randomUUID();
+		const targets = resolveTargets(res, options, "query");
+		if (!targets) return;
+
+		let original: IArticle;
+		try {
+			original = await articleVersionService.getOriginal(req.params.id);
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to optimize article",
+				error: getErrorMessage(error),
+			});
+			return;
+		}
+
+		res.status(200).set({
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+			"X-Accel-Buffering": "no",
+		});
+		res.flushHeaders();
+
+		let open = true;
+		res.on("close", () => {
+			open = false;
+		});
+
+		const send = (event: string, data: unknown) => {
+			if (open) {
+				res.write(
+					`id: ${key}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+				);
+			}
+		};
+
+		// Keeps proxies from closing the connection during long generations
+		const heartbeat = setInterval(() => {
+			if (open) res.write(": ping\n\n");
+		}, streamHeartbeatInterval);
+
+		try {
+			const { article, replayed } = await runOptimization(
+				req,
+				original,
+				options,
+				targets,
+				{ key, keepWaiting: () => open },
+				{
+					onStage: (stage, detail) => send("stage", { stage, ...detail }),
+					onToken: (text) => send("token", { text }),
+				}
+			);
+
+			if (!open) {
+				console.log(
+					`⚠️  Client left before version ${article.version} of "${original.title}" was ready`
+				);
+			}
+
+			send("done", { article, replayed });
+		} catch (error) {
+			send("error", {
+				message: getErrorMessage(error),
+				statusCode: getStatusCode(error),
+				quality: error instanceof QualityError ? error.report : undefined,
+			});
+		} finally {
+			clearInterval(heartbeat);
+			res.end();
+		}
+	}
+}
+
+export default new OptimizationController();
@@ -0,0 +1,195 @@
+import { Request, Response } from "express";
+import auditService from "../services/audit.service";
+import promptTemplateService, {
+	PromptTemplateError,
+} from "../services/prompt-template.service";
+import { CreatePromptTemplateRequest } from "../types/prompt.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	if (error instanceof PromptTemplateError) return error.statusCode;
+	return 500;
+};
+
+class PromptTemplateController {
+	/**
+	 * List every prompt template with its active and latest version
+	 * GET /api/prompts
+	 */
+	async getTemplates(req: Request, res: Response): Promise<void> {
+		try {
+			const templates = await promptTemplateService.list();
+
+			res.status(200).json({
+				success: true,
+				data: templates,
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch prompt templates",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get the built-in template and all stored versions of a key
+	 * GET /api/prompts/:key
+	 */
+	async getVersions(req: Request, res: Response): Promise<void> {
+		try {
+			const versions = await promptTemplateService.getVersions(req.params.key);
+
+			res.status(200).json({
+				success: true,
+				data: versions,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch prompt template",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get one stored version
+	 * GET /api/prompts/:key/versions/:version
+	 */
+	async getVersion(req: Request, res: Response): Promise<void> {
+		try {
+			const template = await promptTemplateService.getVersion(
+				req.params.key,
+				Number(req.params.version)
+			);
+
+			res.status(200).json({
+				success: true,
+				data: template,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch prompt template",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Save a new version of a template, active unless activate is false
+	 * POST /api/prompts/:key/versions
+	 */
+	async createVersion(req: Request, res: Response): Promise<void> {
+		try {
+			const template = await promptTemplateService.createVersion(
+				req.params.key,
+				req.body as CreatePromptTemplateRequest,
+				req.auth!.user._id
+			);
+
+			await auditService.record(
+				req,
+				"create",
+				"prompt-template",
+				template._id,
+				{
+					key: template.key,
+					version: template.version,
+					isActive: template.isActive,
+				}
+			);
+
+			res.status(201).json({
+				success: true,
+				message: `Version ${template.version} of "${template.key}" created`,
+				data: template,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to create prompt template",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Use a version for new optimizations; version 0 restores the built-in
+	 * template
+	 * POST /api/prompts/:key/versions/:version/activate
+	 */
+	async activateVersion(req: Request, res: Response): Promise<void> {
+		const { key } = req.params;
+		const version = Number(req.params.version);
+
+		try {
+			const template = await promptTemplateService.activate(key, version);
+
+			await auditService.record(
+				req,
+				"update",
+				"prompt-template",
+				template?._id ?? key,
+				{ key, activeVersion: version }
+			);
+
+			res.status(200).json({
+				success: true,
+				message: template
+					? `Version ${version} of "${key}" is now active`
+					: `The built-in "${key}" template is now active`,
+				data: template,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to activate prompt template",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Delete a version that is not active and was never used
+	 * DELETE /api/prompts/:key/versions/:version
+	 */
+	async deleteVersion(req: Request, res: Response): Promise<void> {
+		try {
+			const template = await promptTemplateService.deleteVersion(
+				req.params.key,
+				Number(req.params.version)
+			);
+
+			await auditService.record(
+				req,
+				"delete",
+				"prompt-template",
+				template._id,
+				{
+					key: template.key,
+					version: template.version,
+				}
+			);
+
+			res.status(200).json({
+				success: true,
+				message: `Version ${template.version} of "${template.key}" deleted`,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to delete prompt template",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new PromptTemplateController();
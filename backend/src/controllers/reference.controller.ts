@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import referenceSourceService, {
+	ReferenceSourceError,
+} from "../services/reference-source.service";
+import { ListReferenceSourcesQuery } from "../types/reference.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	return error instanceof ReferenceSourceError ? error.statusCode : 500;
+};
+
+class ReferenceController {
+	/**
+	 * List fetched reference snapshots, newest first
+	 * GET /api/references
+	 */
+	async getReferences(req: Request, res: Response): Promise<void> {
+		try {
+			const query = req.query as unknown as ListReferenceSourcesQuery;
+			const { items, total } = await referenceSourceService.list(query);
+
+			res.status(200).json({
+				success: true,
+				data: {
+					references: items,
+					pagination: {
+						currentPage: query.page,
+						totalPages: Math.ceil(total / query.limit),
+						totalItems: total,
+						itemsPerPage: query.limit,
+					},
+				},
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch references",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get a snapshot with the text the model was given
+	 * GET /api/references/:id
+	 */
+	async getReferenceById(req: Request, res: Response): Promise<void> {
+		try {
+			const detail = await referenceSourceService.getById(req.params.id);
+
+			res.status(200).json({
+				success: true,
+				data: detail,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch reference",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new ReferenceController();
@@ -0,0 +1,123 @@
+import { Request, Response } from "express";
+import auditService from "../services/audit.service";
+import articleReviewService, {
+	ArticleReviewError,
+} from "../services/article-review.service";
+import {
+	AddCommentRequest,
+	UpdateReviewStatusRequest,
+} from "../types/article.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	return error instanceof ArticleReviewError ? error.statusCode : 500;
+};
+
+class ReviewController {
+	/**
+	 * Review state, history and comments of an optimized version
+	 * GET /api/articles/:id/review
+	 */
+	async getReview(req: Request, res: Response): Promise<void> {
+		try {
+			const article = await articleReviewService.getVersion(req.params.id);
+
+			res.status(200).json({
+				success: true,
+				data: {
+					articleId: article._id,
+					status: articleReviewService.statusOf(article),
+					rejectionReason: article.review?.rejectionReason,
+					history: article.review?.history || [],
+					comments: article.comments || [],
+					transitions: articleReviewService.nextStatuses(article),
+				},
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch review",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Move an optimized version through draft → in review → approved →
+	 * published, or reject it with a reason
+	 * POST /api/articles/:id/status
+	 */
+	async updateStatus(req: Request, res: Response): Promise<void> {
+		try {
+			const { status, reason } = req.body as UpdateReviewStatusRequest;
+
+			const article = await articleReviewService.getVersion(req.params.id);
+			const from = articleReviewService.statusOf(article);
+			const updated = await articleReviewService.transition(
+				article,
+				status,
+				req.auth,
+				reason
+			);
+
+			await auditService.record(
+				req,
+				status === "published" ? "publish" : "review",
+				"article",
+				updated._id,
+				{ from, to: status, reason }
+			);
+
+			res.status(200).json({
+				success: true,
+				message: `Version moved to ${status}`,
+				data: updated,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to update review status",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Comment on an optimized version
+	 * POST /api/articles/:id/comments
+	 */
+	async addComment(req: Request, res: Response): Promise<void> {
+		try {
+			const { body } = req.body as AddCommentRequest;
+
+			const article = await articleReviewService.getVersion(req.params.id);
+			const comment = await articleReviewService.addComment(
+				article,
+				body,
+				req.auth
+			);
+
+			await auditService.record(req, "comment", "article", article._id, {
+				commentId: comment._id,
+			});
+
+			res.status(201).json({
+				success: true,
+				message: "Comment added",
+				data: comment,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to add comment",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new ReviewController();
@@ -0,0 +1,185 @@
+import { Request, Response } from "express";
+import Source from "../models/Source";
+import Article from "../models/Article";
+import auditService from "../services/audit.service";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const writableFields = [
+	"name",
+	"listingUrl",
+	"pagination",
+	"selectors",
+	"crawlLimit",
+	"excludedDomains",
+	"isActive",
+];
+
+const pickWritable = (body: Record<string, any>): Record<string, any> => {
+	return Object.fromEntries(
+		Object.entries(body || {}).filter(([key]) => writableFields.includes(key))
+	);
+};
+
+class SourceController {
+	/**
+	 * Get all sources
+	 * GET /api/sources
+	 */
+	async getAllSources(req: Request, res: Response): Promise<void> {
+		try {
+			const sources = await Source.find().sort({ name: 1 });
+
+			res.status(200).json({
+				success: true,
+				data: sources,
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch sources",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Get source by ID
+	 * GET /api/sources/:id
+	 */
+	async getSourceById(req: Request, res: Response): Promise<void> {
+		try {
+			const source = await Source.findById(req.params.id);
+
+			if (!source) {
+				res.status(404).json({
+					success: false,
+					message: "Source not found",
+				});
+				return;
+			}
+
+			const articleCount = await Article.countDocuments({
+				sourceId: source._id,
+				isOriginal: true,
+			});
+
+			res.status(200).json({
+				success: true,
+				data: {
+					source,
+					articleCount,
+				},
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to fetch source",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Create new source
+	 * POST /api/sources
+	 */
+	async createSource(req: Request, res: Response): Promise<void> {
+		try {
+			const source = new Source(pickWritable(req.body));
+			await source.save();
+
+			await auditService.record(req, "create", "source", source._id, {
+				name: source.name,
+			});
+
+			res.status(201).json({
+				success: true,
+				message: "Source created successfully",
+				data: source,
+			});
+		} catch (error) {
+			res.status(400).json({
+				success: false,
+				message: "Failed to create source",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Update source
+	 * PUT /api/sources/:id
+	 */
+	async updateSource(req: Request, res: Response): Promise<void> {
+		try {
+			const source = await Source.findById(req.params.id);
+
+			if (!source) {
+				res.status(404).json({
+					success: false,
+					message: "Source not found",
+				});
+				return;
+			}
+
+			const updates = pickWritable(req.body);
+			source.set(updates);
+			await source.save();
+
+			await auditService.record(req, "update", "source", source._id, {
+				fields: Object.keys(updates),
+			});
+
+			res.status(200).json({
+				success: true,
+				message: "Source updated successfully",
+				data: source,
+			});
+		} catch (error) {
+			res.status(400).json({
+				success: false,
+				message: "Failed to update source",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Delete source. Articles scraped from it are kept.
+	 * DELETE /api/sources/:id
+	 */
+	async deleteSource(req: Request, res: Response): Promise<void> {
+		try {
+			const source = await Source.findByIdAndDelete(req.params.id);
+
+			if (!source) {
+				res.status(404).json({
+					success: false,
+					message: "Source not found",
+				});
+				return;
+			}
+
+			await auditService.record(req, "delete", "source", source._id, {
+				name: source.name,
+			});
+
+			res.status(200).json({
+				success: true,
+				message: "Source deleted successfully",
+			});
+		} catch (error) {
+			res.status(500).json({
+				success: false,
+				message: "Failed to delete source",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new SourceController();
@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import auditService from "../services/audit.service";
+import articleVersionService, {
+	ArticleVersionError,
+} from "../services/article-version.service";
+import { ArticleReviewError } from "../services/article-review.service";
+import { ListStaleQuery } from "../types/article.api";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const getStatusCode = (error: unknown): number => {
+	return error instanceof ArticleVersionError ||
+		error instanceof ArticleReviewError
+		? error.statusCode
+		: 500;
+};
+
+class VersionController {
+	/**
+	 * List originals whose latest optimized version is stale and needs
+	 * regenerating
+	 * GET /api/articles/stale
+	 */
+	async getStale(req: Request, res: Response): Promise<void> {
+		try {
+			const { page: pageNum, limit: limitNum } =
+				req.query as unknown as ListStaleQuery;
+
+			const { items, total } = await articleVersionService.listStale(
+				pageNum,
+				limitNum
+			);
+
+			res.status(200).json({
+				success: true,
+				data: {
+					stale: items,
+					pagination: {
+						currentPage: pageNum,
+						totalPages: Math.ceil(total / limitNum),
+						totalItems: total,
+						itemsPerPage: limitNum,
+					},
+				},
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch stale optimizations",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * List optimized versions of an article
+	 * GET /api/articles/:id/versions
+	 */
+	async getVersions(req: Request, res: Response): Promise<void> {
+		try {
+			const original = await articleVersionService.getOriginal(req.params.id);
+			const versions = await articleVersionService.listVersions(original);
+
+			res.status(200).json({
+				success: true,
+				data: {
+					original: {
+						_id: original._id,
+						title: original.title,
+						url: original.url,
+						publishedVersionId: original.publishedVersionId,
+					},
+					versions,
+				},
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to fetch versions",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Diff two versions ("original" or 0 refers to the original content)
+	 * GET /api/articles/:id/versions/:a/diff/:b
+	 */
+	async diffVersions(req: Request, res: Response): Promise<void> {
+		try {
+			const { id, a, b } = req.params;
+
+			const original = await articleVersionService.getOriginal(id);
+			const diff = await articleVersionService.diff(original, a, b);
+
+			res.status(200).json({
+				success: true,
+				data: diff,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to diff versions",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Report passages of an optimized version copied from its references
+	 * GET /api/articles/:id/originality
+	 */
+	async getOriginality(req: Request, res: Response): Promise<void> {
+		try {
+			const report = await articleVersionService.originality(req.params.id);
+
+			res.status(200).json({
+				success: true,
+				data: report,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to check originality",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	/**
+	 * Mark an approved version as the published one
+	 * POST /api/articles/:id/versions/:version/publish
+	 */
+	async publishVersion(req: Request, res: Response): Promise<void> {
+		try {
+			const { id, version } = req.params;
+
+			const original = await articleVersionService.getOriginal(id);
+			const published = await articleVersionService.publish(
+				original,
+				version,
+				req.auth
+			);
+
+			await auditService.record(req, "publish", "article", published._id, {
+				originalArticleId: original._id,
+				version: published.version,
+			});
+
+			res.status(200).json({
+				success: true,
+				message: `Version ${published.version} published successfully`,
+				data: published,
+			});
+		} catch (error) {
+			res.status(getStatusCode(error)).json({
+				success: false,
+				message: "Failed to publish version",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+}
+
+export default new VersionController();
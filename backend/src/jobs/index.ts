@@ -0,0 +1,8 @@
+import jobQueueService from "../services/job-queue.service";
+import scrapeJob from "./scrape.job";
+import optimizeJob from "./optimize.job";
+
+export const registerJobHandlers = (): void => {
+	jobQueueService.register("scrape", scrapeJob);
+	jobQueueService.register("optimize", optimizeJob);
+};
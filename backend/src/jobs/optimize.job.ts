@@ -0,0 +1,135 @@
+import mongoose from "mongoose";
+import Article from "../models/Article";
+import { IJob } from "../models/Job";
+import optimizationService from "../services/optimization.service";
+import articleService from "../services/article.service";
+import { LLMError } from "../services/llm.service";
+import { SearchServiceError } from "../services/search.service";
+import {
+	JobContext,
+	JobHandler,
+	JobQueueError,
+} from "../services/job-queue.service";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+const isRateLimited = (error: unknown): boolean =>
+	(error instanceof LLMError || error instanceof SearchServiceError) &&
+	error.statusCode === 429;
+
+class OptimizeJob implements JobHandler {
+	private readonly maxLimit = 50;
+	private readonly delayBetweenArticles = 3000;
+	private readonly rateLimitDelay = 60000;
+
+	normalizeParams(params: Record<string, any>): Record<string, any> {
+		if (params.articleIds !== undefined) {
+			const { articleIds } = params;
+
+			if (
+				!Array.isArray(articleIds) ||
+				articleIds.length === 0 ||
+				articleIds.length > this.maxLimit ||
+				!articleIds.every((id) => mongoose.isValidObjectId(id))
+			) {
+				throw new JobQueueError(
+					`articleIds must be a list of 1 to ${this.maxLimit} article IDs`,
+					400
+				);
+			}
+
+			return { articleIds: articleIds.map(String) };
+		}
+
+		const limit = params.limit === undefined ? 5 : Number(params.limit);
+
+		if (!Number.isInteger(limit) || limit < 1 || limit > this.maxLimit) {
+			throw new JobQueueError(
+				`limit must be an integer between 1 and ${this.maxLimit}`,
+				400
+			);
+		}
+
+		if (
+			params.onlyUnoptimized !== undefined &&
+			typeof params.onlyUnoptimized !== "boolean"
+		) {
+			throw new JobQueueError("onlyUnoptimized must be a boolean", 400);
+		}
+
+		return { limit, onlyUnoptimized: params.onlyUnoptimized === true };
+	}
+
+	retryParams(_job: IJob, items: string[]): Record<string, any> {
+		return { articleIds: items };
+	}
+
+	/**
+	 * Optimize original articles, either the given IDs or the first `limit`
+	 * originals (only those without optimized versions with
+	 * `onlyUnoptimized`). Every article ID is a job item.
+	 */
+	async run(context: JobContext): Promise<void> {
+		const { articleIds, limit, onlyUnoptimized } = context.params;
+
+		const articles = articleIds
+			? await Article.find({ _id: { $in: articleIds }, isOriginal: true })
+			: await Article.find({
+					isOriginal: true,
+					...(onlyUnoptimized && {
+						_id: {
+							$nin: await Article.distinct("originalArticleId", {
+								isOriginal: false,
+							}),
+						},
+					}),
+			  }).limit(limit);
+
+		await context.setTotal(articles.length);
+
+		for (const article of articles) {
+			const item = String(article._id);
+
+			if (context.isProcessed(item)) continue;
+			if (await context.shouldStop()) return;
+
+			const label = article.title;
+			await context.startItem(item, label);
+
+			try {
+				const optimized = await optimizationService.buildOptimizedVersion(
+					article
+				);
+
+				if (!optimized) {
+					throw new Error("No reference articles could be found");
+				}
+
+				const saved = await articleService.saveOptimizedVersion(optimized);
+				await context.recordSuccess(item, { label, articleId: saved._id });
+			} catch (error) {
+				await context.recordFailure(item, getErrorMessage(error), {
+					label,
+					articleId: article._id,
+				});
+
+				if (isRateLimited(error)) {
+					console.log("⏳ Rate limit hit. Waiting 60 seconds...");
+					await this.sleep(this.rateLimitDelay);
+					continue;
+				}
+			}
+
+			await this.sleep(this.delayBetweenArticles);
+		}
+	}
+
+	private sleep(ms: number): Promise<void> {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+}
+
+export default new OptimizeJob();
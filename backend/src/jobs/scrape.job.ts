@@ -0,0 +1,133 @@
+import mongoose from "mongoose";
+import { IJob } from "../models/Job";
+import { DiscoveredArticle } from "../services/feed-discovery.service";
+import scraperService from "../services/scraper.service";
+import sourceService from "../services/source.service";
+import articleService from "../services/article.service";
+import {
+	JobContext,
+	JobHandler,
+	JobQueueError,
+} from "../services/job-queue.service";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+class ScrapeJob implements JobHandler {
+	private readonly maxLimit = 500;
+
+	normalizeParams(params: Record<string, any>): Record<string, any> {
+		const { sourceId } = params;
+
+		if (sourceId !== undefined && !mongoose.isValidObjectId(sourceId)) {
+			throw new JobQueueError("sourceId must be a valid source ID", 400);
+		}
+
+		if (params.urls !== undefined) {
+			const { urls } = params;
+
+			if (
+				!Array.isArray(urls) ||
+				urls.length === 0 ||
+				urls.length > this.maxLimit ||
+				!urls.every((url) => this.isHttpUrl(url))
+			) {
+				throw new JobQueueError(
+					`urls must be a list of 1 to ${this.maxLimit} http(s) URLs`,
+					400
+				);
+			}
+
+			return { sourceId, urls };
+		}
+
+		if (params.limit === undefined) {
+			return { sourceId };
+		}
+
+		const limit = Number(params.limit);
+
+		if (!Number.isInteger(limit) || limit < 1 || limit > this.maxLimit) {
+			throw new JobQueueError(
+				`limit must be an integer between 1 and ${this.maxLimit}`,
+				400
+			);
+		}
+
+		return { sourceId, limit };
+	}
+
+	retryParams(job: IJob, items: string[]): Record<string, any> {
+		return { sourceId: job.params.sourceId, urls: items };
+	}
+
+	/**
+	 * Crawl a source's listing (default: BeyondChats blog), or scrape the
+	 * given `urls`, and store each article as an original, updating stored
+	 * originals whose content changed. Every article URL is a job item.
+	 */
+	async run(context: JobContext): Promise<void> {
+		const { sourceId, limit, urls } = context.params;
+
+		const source = await sourceService.resolve(sourceId);
+		const entries: DiscoveredArticle[] = urls
+			? urls.map((url: string) => ({ url }))
+			: await scraperService.discoverArticles(source, limit);
+		await context.setTotal(entries.length);
+
+		for (const entry of entries) {
+			const { url } = entry;
+
+			if (context.isProcessed(url)) continue;
+			if (await context.shouldStop()) return;
+
+			await context.startItem(url, entry.title);
+
+			try {
+				const result = await scraperService.scrapeArticleIfChanged(
+					url,
+					source,
+					entry
+				);
+
+				if (result.status === "failed") {
+					throw new Error("Could not extract article content");
+				}
+
+				if (result.status === "scraped") {
+					const { article } = await articleService.storeScrapedArticle({
+						...result.article,
+						sourceId: source.id,
+					});
+					await context.recordSuccess(url, {
+						label: article.title,
+						articleId: article._id,
+					});
+				} else {
+					await context.recordSuccess(url, { label: entry.title });
+				}
+			} catch (error) {
+				await context.recordFailure(url, getErrorMessage(error), {
+					label: entry.title,
+				});
+			}
+		}
+
+		// Retrying a few URLs is not a crawl of the listing
+		if (!urls) {
+			await sourceService.markCrawled(source.id);
+		}
+	}
+
+	private isHttpUrl(value: unknown): boolean {
+		try {
+			return ["http:", "https:"].includes(new URL(String(value)).protocol);
+		} catch {
+			return false;
+		}
+	}
+}
+
+export default new ScrapeJob();
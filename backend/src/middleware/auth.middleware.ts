@@ -0,0 +1,82 @@
+import { NextFunction, Request, Response } from "express";
+import { UserRole } from "../models/User";
+import authService, { AuthContext, AuthError } from "../services/auth.service";
+
+declare global {
+	namespace Express {
+		interface Request {
+			auth?: AuthContext;
+		}
+	}
+}
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+/**
+ * Resolve credentials into req.auth. Accepts a session token
+ * ("Authorization: Bearer <jwt>") or an API key ("X-API-Key: <key>" or
+ * "Authorization: ApiKey <key>"). Event-stream requests may pass the session
+ * token as ?access_token=, as EventSource cannot set headers. Requests
+ * without credentials continue anonymously; invalid credentials are rejected.
+ */
+export const authenticate = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+): Promise<void> => {
+	const [scheme, credentials] = (req.headers.authorization || "").split(" ");
+	const apiKey =
+		req.header("x-api-key") || (scheme === "ApiKey" ? credentials : undefined);
+	const queryToken =
+		req.method === "GET" &&
+		(req.headers.accept || "").includes("text/event-stream") &&
+		typeof req.query.access_token === "string"
+			? req.query.access_token
+			: undefined;
+
+	try {
+		if (apiKey) {
+			req.auth = await authService.authenticateApiKey(apiKey);
+		} else if (scheme === "Bearer" && credentials) {
+			req.auth = await authService.authenticateToken(credentials);
+		} else if (queryToken) {
+			req.auth = await authService.authenticateToken(queryToken);
+		}
+
+		next();
+	} catch (error) {
+		res.status(error instanceof AuthError ? error.statusCode : 500).json({
+			success: false,
+			message: "Authentication failed",
+			error: getErrorMessage(error),
+		});
+	}
+};
+
+/**
+ * Only let requests through whose role includes the given one
+ */
+export const requireRole =
+	(role: UserRole) =>
+	(req: Request, res: Response, next: NextFunction): void => {
+		if (!req.auth) {
+			res.status(401).json({
+				success: false,
+				message: "Authentication required",
+			});
+			return;
+		}
+
+		if (!authService.hasRole(req.auth.role, role)) {
+			res.status(403).json({
+				success: false,
+				message: `This action requires the ${role} role`,
+			});
+			return;
+		}
+
+		next();
+	};
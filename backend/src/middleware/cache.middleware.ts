@@ -0,0 +1,116 @@
+import { NextFunction, Request, Response } from "express";
+import cacheService, { CacheNamespace } from "../services/cache.service";
+import { CacheEntry } from "../services/cache/cache-backend";
+
+// Credentials in the query string do not change the response
+const IGNORED_PARAMS = new Set(["access_token"]);
+
+/**
+ * Path plus query parameters in a stable order
+ */
+const cacheKey = (req: Request): string => {
+	const url = new URL(req.originalUrl, "http://localhost");
+	const params = Array.from(url.searchParams.entries())
+		.filter(([name]) => !IGNORED_PARAMS.has(name))
+		.sort(([a, aValue], [b, bValue]) =>
+			a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)
+		);
+
+	return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+};
+
+/**
+ * True if the client's copy (If-None-Match, or else If-Modified-Since) is
+ * still current
+ */
+const isFresh = (req: Request, entry: CacheEntry): boolean => {
+	const ifNoneMatch = req.get("If-None-Match");
+
+	if (ifNoneMatch) {
+		const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+		return (
+			ifNoneMatch.trim() === "*" ||
+			ifNoneMatch.split(",").some((tag) => strip(tag) === strip(entry.etag))
+		);
+	}
+
+	const ifModifiedSince = Date.parse(req.get("If-Modified-Since") || "");
+
+	return (
+		!Number.isNaN(ifModifiedSince) &&
+		// HTTP dates have one-second precision
+		Math.floor(entry.lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+	);
+};
+
+const setValidators = (res: Response, entry: CacheEntry): void => {
+	res.set({
+		ETag: entry.etag,
+		"Last-Modified": entry.lastModified.toUTCString(),
+		// Clients may keep responses but must revalidate them
+		"Cache-Control": "private, no-cache",
+	});
+};
+
+const send = (req: Request, res: Response, entry: CacheEntry): void => {
+	setValidators(res, entry);
+
+	if (isFresh(req, entry)) {
+		res.status(304).end();
+		return;
+	}
+
+	res.type("json").send(entry.body);
+};
+
+/**
+ * Serve successful GET responses from the cache and answer conditional
+ * requests with 304 Not Modified. Entries are dropped when the
+ * namespace's data changes, so the time an entry was computed serves as
+ * its Last-Modified (updatedAt fields miss deletions).
+ */
+export const cacheResponse = (namespace: CacheNamespace) => {
+	return async (
+		req: Request,
+		res: Response,
+		next: NextFunction
+	): Promise<void> => {
+		if (req.method !== "GET") {
+			next();
+			return;
+		}
+
+		const key = cacheKey(req);
+		const cached = await cacheService.get(namespace, key);
+
+		if (cached) {
+			res.set("X-Cache", "HIT");
+			send(req, res, cached);
+			return;
+		}
+
+		const generation = cacheService.generation(namespace);
+		const json = res.json.bind(res);
+
+		res.json = (body: unknown) => {
+			if (res.statusCode !== 200) return json(body);
+
+			const serialized = JSON.stringify(body);
+			const entry: CacheEntry = {
+				body: serialized,
+				etag: cacheService.etagOf(serialized),
+				lastModified: new Date(),
+			};
+
+			void cacheService.set(namespace, key, entry, generation);
+
+			// Sent through the previous res.json, e.g. validate()'s response
+			// check; res.send answers 304 itself once the validators are set
+			res.set("X-Cache", "MISS");
+			setValidators(res, entry);
+			return json(body);
+		};
+
+		next();
+	};
+};
@@ -0,0 +1,66 @@
+import express, { NextFunction, Request, Response } from "express";
+import multer from "multer";
+
+// Files are held in memory, so the whole request is capped rather than each
+// file
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+const MAX_FILES = 50;
+
+const ARCHIVE_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+const multipart = multer({
+	storage: multer.memoryStorage(),
+	limits: { fileSize: MAX_UPLOAD_SIZE, files: MAX_FILES },
+}).array("files", MAX_FILES);
+
+const archive = express.raw({ type: ARCHIVE_TYPES, limit: MAX_UPLOAD_SIZE });
+
+/**
+ * Read uploads into memory: multipart "files" fields into req.files, or a
+ * zip sent as the request body into req.body as a Buffer. Requests must
+ * declare their length, up to 50 MB in total; malformed uploads are
+ * rejected with 400.
+ */
+export const acceptUploads = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+): void => {
+	const length = Number(req.header("content-length"));
+
+	if (!req.header("content-length") || !Number.isInteger(length)) {
+		res.status(411).json({
+			success: false,
+			message: "Uploads must declare a Content-Length",
+		});
+		return;
+	}
+
+	if (length > MAX_UPLOAD_SIZE) {
+		res.status(413).json({
+			success: false,
+			message: `Uploads are limited to ${MAX_UPLOAD_SIZE / 1024 / 1024} MB`,
+		});
+		return;
+	}
+
+	const reader = req.is("multipart/form-data") ? multipart : archive;
+
+	reader(req, res, (error?: unknown) => {
+		if (!error) {
+			next();
+			return;
+		}
+
+		const tooLarge =
+			(error instanceof multer.MulterError &&
+				["LIMIT_FILE_SIZE", "LIMIT_FILE_COUNT"].includes(error.code)) ||
+			(error as { type?: string }).type === "entity.too.large";
+
+		res.status(tooLarge ? 413 : 400).json({
+			success: false,
+			message: "Failed to read upload",
+			error: error instanceof Error ? error.message : String(error),
+		});
+	});
+};
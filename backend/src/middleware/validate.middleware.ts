@@ -0,0 +1,103 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { FieldError, RequestLocation } from "../types/api";
+
+export interface RouteSchema {
+	params?: z.ZodType;
+	query?: z.ZodType;
+	body?: z.ZodType;
+	response?: z.ZodType;
+}
+
+const locations: RequestLocation[] = ["params", "query", "body"];
+
+const toFieldErrors = (
+	location: RequestLocation,
+	error: z.ZodError
+): FieldError[] => {
+	return error.issues.flatMap((issue) => {
+		const prefix = issue.path.map(String).join(".");
+
+		if (issue.code === "unrecognized_keys") {
+			return issue.keys.map((key) => ({
+				location,
+				field: prefix ? `${prefix}.${key}` : key,
+				message: "is not a writable field",
+			}));
+		}
+
+		return [{ location, field: prefix || location, message: issue.message }];
+	});
+};
+
+/**
+ * Check a successful response against the route's response schema and log
+ * mismatches. Only runs when VALIDATE_RESPONSES=true, as it serializes every
+ * response twice.
+ */
+const checkResponses = (schema: z.ZodType, req: Request, res: Response) => {
+	const json = res.json.bind(res);
+
+	res.json = (body: unknown) => {
+		if (res.statusCode < 300) {
+			const result = schema.safeParse(JSON.parse(JSON.stringify(body)));
+
+			if (!result.success) {
+				console.warn(
+					`⚠️  Response for ${req.method} ${
+						req.originalUrl
+					} does not match its schema:\n${z.prettifyError(result.error)}`
+				);
+			}
+		}
+
+		return json(body);
+	};
+};
+
+/**
+ * Validate and normalize a request's params, query and body. Handlers
+ * receive the parsed values (defaults applied, unknown body fields
+ * rejected); invalid requests get a 400 listing every failing field.
+ */
+export const validate =
+	(schema: RouteSchema) =>
+	(req: Request, res: Response, next: NextFunction): void => {
+		const errors: FieldError[] = [];
+
+		for (const location of locations) {
+			const part = schema[location];
+			if (!part) continue;
+
+			const result = part.safeParse(req[location] ?? {});
+
+			if (!result.success) {
+				errors.push(...toFieldErrors(location, result.error));
+				continue;
+			}
+
+			// req.query is a getter in Express 5, so it is redefined rather
+			// than assigned
+			Object.defineProperty(req, location, {
+				value: result.data,
+				writable: true,
+				configurable: true,
+				enumerable: true,
+			});
+		}
+
+		if (errors.length > 0) {
+			res.status(400).json({
+				success: false,
+				message: "Invalid request",
+				errors,
+			});
+			return;
+		}
+
+		if (schema.response && process.env.VALIDATE_RESPONSES === "true") {
+			checkResponses(schema.response, req, res);
+		}
+
+		next();
+	};
@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { USER_ROLES, UserRole } from "./User";
+
+export interface IApiKey extends Document {
+	name: string;
+	prefix: string;
+	keyHash: string;
+	userId: mongoose.Types.ObjectId;
+	role: UserRole;
+	lastUsedAt?: Date;
+	expiresAt?: Date;
+	revokedAt?: Date;
+}
+
+const ApiKeySchema: Schema = new Schema(
+	{
+		name: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+		// First characters of the key, shown in listings to tell keys apart
+		prefix: {
+			type: String,
+			required: true,
+		},
+		keyHash: {
+			type: String,
+			required: true,
+			unique: true,
+			select: false,
+		},
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+			index: true,
+		},
+		role: {
+			type: String,
+			enum: USER_ROLES,
+			required: true,
+		},
+		lastUsedAt: {
+			type: Date,
+		},
+		expiresAt: {
+			type: Date,
+		},
+		revokedAt: {
+			type: Date,
+		},
+	},
+	{
+		timestamps: true,
+		toJSON: {
+			transform: (_doc, ret: Record<string, any>) => {
+				delete ret.keyHash;
+				return ret;
+			},
+		},
+	}
+);
+
+export default mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
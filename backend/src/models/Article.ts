@@ -1,87 +1,451 @@
-import mongoose, { Document, Schema } from "mongoose";
-
-export interface IArticle extends Document {
-	title: string;
-	content: string;
-	excerpt?: string;
-	author?: string;
-	publishedDate?: Date;
-	url: string;
-	scrapedAt: Date;
-	isOriginal: boolean;
-	originalArticleId?: mongoose.Types.ObjectId;
-	updatedContent?: string;
-	references?: Array<{
-		title: string;
-		url: string;
-	}>;
-	metadata?: {
-		wordCount?: number;
-		readingTime?: number;
-	};
-}
-
-const ArticleSchema: Schema = new Schema(
-	{
-		title: {
-			type: String,
-			required: true,
-			trim: true,
-			index: true,
-		},
-		content: {
-			type: String,
-			required: true,
-		},
-		excerpt: {
-			type: String,
-			trim: true,
-		},
-		author: {
-			type: String,
-			trim: true,
-		},
-		publishedDate: {
-			type: Date,
-		},
-		url: {
-			type: String,
-			required: true,
-			unique: true,
-			trim: true,
-		},
-		scrapedAt: {
-			type: Date,
-			default: Date.now,
-		},
-		isOriginal: {
-			type: Boolean,
-			default: true,
-		},
-		originalArticleId: {
-			type: Schema.Types.ObjectId,
-			ref: "Article",
-		},
-		updatedContent: {
-			type: String,
-		},
-		references: [
-			{
-				title: String,
-				url: String,
-			},
-		],
-		metadata: {
-			wordCount: Number,
-			readingTime: Number,
-		},
-	},
-	{
-		timestamps: true,
-	}
-);
-
-ArticleSchema.index({ isOriginal: 1, createdAt: -1 });
-ArticleSchema.index({ originalArticleId: 1 });
-
-export default mongoose.model<IArticle>("Article", ArticleSchema);
\ No newline at end of file
+import { EventEmitter } from "events";
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Editorial state of an optimized version: draft → in_review → approved →
+ * published, with rejection (and a reason) from review or approval
+ */
+export type ReviewStatus =
+	| "draft"
+	| "in_review"
+	| "approved"
+	| "published"
+	| "rejected";
+
+export const REVIEW_STATUSES: ReviewStatus[] = [
+	"draft",
+	"in_review",
+	"approved",
+	"published",
+	"rejected",
+];
+
+export interface ReviewActor {
+	userId?: mongoose.Types.ObjectId;
+	email?: string;
+	name?: string;
+}
+
+export interface IArticle extends Document {
+	title: string;
+	content: string;
+	excerpt?: string;
+	author?: string;
+	publishedDate?: Date;
+	url: string;
+	scrapedAt: Date;
+	isOriginal: boolean;
+	originalArticleId?: mongoose.Types.ObjectId;
+	updatedContent?: string;
+	references?: Array<{
+		title: string;
+		url: string;
+		/** Snapshot of the page the version was generated from */
+		sourceId?: mongoose.Types.ObjectId;
+		/** Search query that found the page, its merged rank and score */
+		query?: string;
+		rank?: number;
+		score?: number;
+	}>;
+	media?: Array<{
+		url: string;
+		alt?: string;
+		title?: string;
+		caption?: string;
+	}>;
+	metadata?: {
+		wordCount?: number;
+		readingTime?: number;
+	};
+	version?: number;
+	/** On originals: highest version number handed out so far */
+	lastVersion?: number;
+	generation?: {
+		provider?: string;
+		model?: string;
+		prompt?: string;
+		generatedAt?: Date;
+		options?: {
+			referenceCount?: number;
+			targetLength?: number;
+			tone?: string;
+			audience?: string;
+		};
+		templates?: Array<{
+			key: string;
+			version: number;
+			templateId?: mongoose.Types.ObjectId;
+		}>;
+		search?: {
+			queries: Array<{
+				query: string;
+				source: string;
+				resultCount: number;
+				error?: string;
+			}>;
+		};
+	};
+	quality?: {
+		score: number;
+		status: "passed" | "flagged" | "rejected";
+		issues: string[];
+		metrics?: Record<string, unknown>;
+		evaluatedAt: Date;
+	};
+	isPublished?: boolean;
+	publishedVersionId?: mongoose.Types.ObjectId;
+	sourceId?: mongoose.Types.ObjectId;
+	contentHash?: string;
+	etag?: string;
+	lastModified?: string;
+	lastCheckedAt?: Date;
+	snapshots?: Array<{
+		title: string;
+		content: string;
+		excerpt?: string;
+		contentHash?: string;
+		scrapedAt?: Date;
+		replacedAt: Date;
+	}>;
+	sourceContentHash?: string;
+	isStale?: boolean;
+	staleSince?: Date;
+	review?: {
+		status: ReviewStatus;
+		rejectionReason?: string;
+		updatedAt?: Date;
+		updatedBy?: ReviewActor;
+		history: Array<{
+			from: ReviewStatus;
+			to: ReviewStatus;
+			reason?: string;
+			by?: ReviewActor;
+			at: Date;
+		}>;
+	};
+	comments?: Array<{
+		_id: mongoose.Types.ObjectId;
+		body: string;
+		author?: ReviewActor;
+		createdAt: Date;
+	}>;
+}
+
+const reviewActorSchema = {
+	_id: false,
+	userId: { type: Schema.Types.ObjectId, ref: "User" },
+	email: String,
+	name: String,
+};
+
+const ArticleSchema: Schema = new Schema(
+	{
+		title: {
+			type: String,
+			required: true,
+			trim: true,
+			index: true,
+		},
+		content: {
+			type: String,
+			required: true,
+		},
+		excerpt: {
+			type: String,
+			trim: true,
+		},
+		author: {
+			type: String,
+			trim: true,
+		},
+		publishedDate: {
+			type: Date,
+		},
+		url: {
+			type: String,
+			required: true,
+			unique: true,
+			trim: true,
+		},
+		scrapedAt: {
+			type: Date,
+			default: Date.now,
+		},
+		isOriginal: {
+			type: Boolean,
+			default: true,
+		},
+		originalArticleId: {
+			type: Schema.Types.ObjectId,
+			ref: "Article",
+		},
+		updatedContent: {
+			type: String,
+		},
+		references: [
+			{
+				title: String,
+				url: String,
+				sourceId: {
+					type: Schema.Types.ObjectId,
+					ref: "ReferenceSource",
+				},
+				query: String,
+				rank: Number,
+				score: Number,
+			},
+		],
+		media: [
+			{
+				_id: false,
+				url: { type: String, required: true },
+				alt: String,
+				title: String,
+				caption: String,
+			},
+		],
+		metadata: {
+			wordCount: Number,
+			readingTime: Number,
+		},
+		version: {
+			type: Number,
+			min: 1,
+		},
+		lastVersion: {
+			type: Number,
+		},
+		generation: {
+			provider: String,
+			model: String,
+			prompt: String,
+			generatedAt: Date,
+			options: {
+				referenceCount: Number,
+				targetLength: Number,
+				tone: String,
+				audience: String,
+			},
+			// Prompt template versions the output was generated with
+			templates: {
+				type: [
+					{
+						_id: false,
+						key: String,
+						version: Number,
+						templateId: {
+							type: Schema.Types.ObjectId,
+							ref: "PromptTemplate",
+						},
+					},
+				],
+				default: undefined,
+			},
+			// Queries planned to find the references
+			search: {
+				queries: {
+					type: [
+						{
+							_id: false,
+							query: String,
+							source: String,
+							resultCount: Number,
+							error: String,
+						},
+					],
+					default: undefined,
+				},
+			},
+		},
+		// Automated evaluation of an optimized version's output
+		quality: {
+			score: Number,
+			status: {
+				type: String,
+				enum: ["passed", "flagged", "rejected"],
+			},
+			issues: {
+				type: [String],
+				default: undefined,
+			},
+			metrics: {
+				type: Schema.Types.Mixed,
+			},
+			evaluatedAt: Date,
+		},
+		isPublished: {
+			type: Boolean,
+			default: false,
+		},
+		publishedVersionId: {
+			type: Schema.Types.ObjectId,
+			ref: "Article",
+		},
+		sourceId: {
+			type: Schema.Types.ObjectId,
+			ref: "Source",
+			index: true,
+		},
+		contentHash: {
+			type: String,
+		},
+		etag: {
+			type: String,
+		},
+		lastModified: {
+			type: String,
+		},
+		lastCheckedAt: {
+			type: Date,
+		},
+		// Earlier content of an original, kept when a re-scrape finds changes
+		snapshots: {
+			type: [
+				{
+					_id: false,
+					title: String,
+					content: String,
+					excerpt: String,
+					contentHash: String,
+					scrapedAt: Date,
+					replacedAt: Date,
+				},
+			],
+			select: false,
+		},
+		// Hash of the original's content this version was generated from
+		sourceContentHash: {
+			type: String,
+		},
+		isStale: {
+			type: Boolean,
+			default: false,
+		},
+		staleSince: {
+			type: Date,
+		},
+		// Editorial workflow of an optimized version
+		review: {
+			status: {
+				type: String,
+				enum: REVIEW_STATUSES,
+			},
+			rejectionReason: String,
+			updatedAt: Date,
+			updatedBy: reviewActorSchema,
+			history: {
+				type: [
+					{
+						_id: false,
+						from: { type: String, enum: REVIEW_STATUSES },
+						to: { type: String, enum: REVIEW_STATUSES },
+						reason: String,
+						by: reviewActorSchema,
+						at: Date,
+					},
+				],
+				default: undefined,
+			},
+		},
+		comments: {
+			type: [
+				{
+					body: { type: String, required: true, trim: true },
+					author: reviewActorSchema,
+					createdAt: { type: Date, default: Date.now },
+				},
+			],
+			default: undefined,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+ArticleSchema.index({ isOriginal: 1, createdAt: -1 });
+ArticleSchema.index({ originalArticleId: 1 });
+ArticleSchema.index(
+	{ originalArticleId: 1, version: 1 },
+	{ unique: true, partialFilterExpression: { version: { $exists: true } } }
+);
+ArticleSchema.index({ author: 1 });
+ArticleSchema.index({ publishedDate: -1 });
+ArticleSchema.index({ "quality.status": 1 }, { sparse: true });
+ArticleSchema.index({ "review.status": 1, updatedAt: -1 }, { sparse: true });
+ArticleSchema.index(
+	{ "generation.templates.key": 1, "generation.templates.version": 1 },
+	{ sparse: true }
+);
+ArticleSchema.index({ "references.sourceId": 1 }, { sparse: true });
+ArticleSchema.index(
+	{ title: "text", content: "text", updatedContent: "text" },
+	{
+		name: "article_text_search",
+		weights: { title: 10, updatedContent: 2, content: 1 },
+	}
+);
+
+// Optimized versions are numbered 1, 2, 3... per original; version 0 is the
+// original content itself. Numbers come from a counter on the original so
+// that concurrent optimizations get distinct versions; it is first raised to
+// the highest stored version, for originals from before the counter.
+ArticleSchema.pre("save", async function () {
+	if (!this.isNew || this.isOriginal || !this.originalArticleId) return;
+	if (this.version) return;
+
+	const Article = mongoose.model<IArticle>("Article");
+	const latest = await Article.findOne({
+		originalArticleId: this.originalArticleId,
+	})
+		.sort({ version: -1 })
+		.select("version");
+
+	await Article.updateOne(
+		{ _id: this.originalArticleId },
+		{ $max: { lastVersion: latest?.version || 0 } }
+	);
+	const original = await Article.findOneAndUpdate(
+		{ _id: this.originalArticleId },
+		{ $inc: { lastVersion: 1 } },
+		{ new: true }
+	).select("lastVersion");
+
+	this.version = original?.lastVersion || (latest?.version || 0) + 1;
+});
+
+// New optimized versions start as drafts
+ArticleSchema.pre("save", function () {
+	if (!this.isNew || this.isOriginal || this.get("review.status")) return;
+
+	this.set("review.status", "draft");
+});
+
+/**
+ * Emits "change" after every write to articles, e.g. to drop cached
+ * responses
+ */
+export const articleChanges = new EventEmitter();
+
+const emitChange = () => {
+	articleChanges.emit("change");
+};
+
+ArticleSchema.post("save", emitChange);
+ArticleSchema.post("insertMany", emitChange);
+ArticleSchema.post(
+	[
+		"updateOne",
+		"updateMany",
+		"replaceOne",
+		"findOneAndUpdate",
+		"findOneAndReplace",
+		"findOneAndDelete",
+		"deleteOne",
+		"deleteMany",
+	],
+	emitChange
+);
+ArticleSchema.post("bulkWrite", emitChange);
+
+export default mongoose.model<IArticle>("Article", ArticleSchema);
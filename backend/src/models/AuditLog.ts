@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type AuditAction =
+	| "create"
+	| "update"
+	| "delete"
+	| "publish"
+	| "cancel"
+	| "review"
+	| "comment"
+	| "import";
+
+export type AuditResource =
+	| "article"
+	| "source"
+	| "job"
+	| "user"
+	| "api-key"
+	| "prompt-template";
+
+export interface IAuditLog extends Document {
+	action: AuditAction;
+	resourceType: AuditResource;
+	resourceId?: string;
+	actor?: {
+		userId: mongoose.Types.ObjectId;
+		email: string;
+		via: "session" | "api-key";
+		apiKeyId?: mongoose.Types.ObjectId;
+	};
+	details?: Record<string, any>;
+	ip?: string;
+	createdAt: Date;
+}
+
+const AuditLogSchema: Schema = new Schema(
+	{
+		action: {
+			type: String,
+			enum: [
+				"create",
+				"update",
+				"delete",
+				"publish",
+				"cancel",
+				"review",
+				"comment",
+				"import",
+			],
+			required: true,
+		},
+		resourceType: {
+			type: String,
+			enum: ["article", "source", "job", "user", "api-key", "prompt-template"],
+			required: true,
+		},
+		resourceId: {
+			type: String,
+		},
+		actor: {
+			userId: {
+				type: Schema.Types.ObjectId,
+				ref: "User",
+			},
+			email: String,
+			via: {
+				type: String,
+				enum: ["session", "api-key"],
+			},
+			apiKeyId: {
+				type: Schema.Types.ObjectId,
+				ref: "ApiKey",
+			},
+		},
+		details: {
+			type: Schema.Types.Mixed,
+		},
+		ip: {
+			type: String,
+		},
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+	}
+);
+
+AuditLogSchema.index({ resourceType: 1, resourceId: 1, createdAt: -1 });
+AuditLogSchema.index({ "actor.userId": 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
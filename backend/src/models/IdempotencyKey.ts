@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type IdempotencyStatus = "processing" | "completed";
+
+export interface IIdempotencyKey extends Document {
+	key: string;
+	userId: mongoose.Types.ObjectId;
+	fingerprint: string;
+	status: IdempotencyStatus;
+	resourceId?: string;
+	/** When the request now processing claimed the key */
+	startedAt: Date;
+	expiresAt: Date;
+}
+
+const IdempotencyKeySchema: Schema = new Schema(
+	{
+		key: {
+			type: String,
+			required: true,
+		},
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		// Hash of the operation and its parameters the key was first used for
+		fingerprint: {
+			type: String,
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: ["processing", "completed"],
+			default: "processing",
+		},
+		resourceId: {
+			type: String,
+		},
+		startedAt: {
+			type: Date,
+			default: Date.now,
+		},
+		expiresAt: {
+			type: Date,
+			required: true,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+IdempotencyKeySchema.index({ key: 1, userId: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IIdempotencyKey>(
+	"IdempotencyKey",
+	IdempotencyKeySchema
+);
@@ -0,0 +1,150 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type JobType = "scrape" | "optimize";
+
+export type JobStatus =
+	| "queued"
+	| "running"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+export type JobItemStatus = "succeeded" | "failed";
+
+export interface IJob extends Document {
+	type: JobType;
+	status: JobStatus;
+	params: Record<string, any>;
+	progress: {
+		total: number;
+		processed: number;
+		succeeded: number;
+		failed: number;
+		/** Item being worked on while the job runs */
+		current?: {
+			item: string;
+			label?: string;
+			startedAt: Date;
+		};
+	};
+	processedItems: string[];
+	/** Outcome of every processed item, in processing order */
+	results: Array<{
+		item: string;
+		label?: string;
+		status: JobItemStatus;
+		message?: string;
+		/** Article stored or updated for the item */
+		articleId?: mongoose.Types.ObjectId;
+		finishedAt: Date;
+	}>;
+	itemErrors: Array<{
+		item: string;
+		message: string;
+		occurredAt: Date;
+	}>;
+	error?: string;
+	attempts: number;
+	/** Job whose failed items this one retries */
+	retryOf?: mongoose.Types.ObjectId;
+	cancelRequested: boolean;
+	workerId?: string;
+	heartbeatAt?: Date;
+	startedAt?: Date;
+	finishedAt?: Date;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const JobSchema: Schema = new Schema(
+	{
+		type: {
+			type: String,
+			enum: ["scrape", "optimize"],
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: ["queued", "running", "completed", "failed", "cancelled"],
+			default: "queued",
+		},
+		params: {
+			type: Schema.Types.Mixed,
+			default: {},
+		},
+		progress: {
+			total: { type: Number, default: 0 },
+			processed: { type: Number, default: 0 },
+			succeeded: { type: Number, default: 0 },
+			failed: { type: Number, default: 0 },
+			current: {
+				item: String,
+				label: String,
+				startedAt: Date,
+			},
+		},
+		processedItems: {
+			type: [String],
+			default: [],
+		},
+		results: [
+			{
+				_id: false,
+				item: String,
+				label: String,
+				status: {
+					type: String,
+					enum: ["succeeded", "failed"],
+				},
+				message: String,
+				articleId: {
+					type: Schema.Types.ObjectId,
+					ref: "Article",
+				},
+				finishedAt: { type: Date, default: Date.now },
+			},
+		],
+		itemErrors: [
+			{
+				item: String,
+				message: String,
+				occurredAt: { type: Date, default: Date.now },
+			},
+		],
+		error: {
+			type: String,
+		},
+		attempts: {
+			type: Number,
+			default: 0,
+		},
+		retryOf: {
+			type: Schema.Types.ObjectId,
+			ref: "Job",
+		},
+		cancelRequested: {
+			type: Boolean,
+			default: false,
+		},
+		workerId: {
+			type: String,
+		},
+		heartbeatAt: {
+			type: Date,
+		},
+		startedAt: {
+			type: Date,
+		},
+		finishedAt: {
+			type: Date,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+JobSchema.index({ status: 1, createdAt: 1 });
+JobSchema.index({ type: 1, createdAt: -1 });
+
+export default mongoose.model<IJob>("Job", JobSchema);
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * One template per step of the optimization pipeline: the single-pass
+ * rewrite, the per-section rewrite and stitch pass of long articles, the
+ * short prompt of compact targets, and search query suggestions
+ */
+export type PromptTemplateKey =
+	| "optimize"
+	| "section"
+	| "stitch"
+	| "compact"
+	| "queries";
+
+export const PROMPT_TEMPLATE_KEYS: PromptTemplateKey[] = [
+	"optimize",
+	"section",
+	"stitch",
+	"compact",
+	"queries",
+];
+
+/**
+ * A saved revision of a prompt template. Revisions are never edited; a
+ * change creates a new version, and one version per key is active.
+ */
+export interface IPromptTemplate extends Document {
+	key: PromptTemplateKey;
+	version: number;
+	description?: string;
+	body: string;
+	variables: string[];
+	isActive: boolean;
+	createdBy?: mongoose.Types.ObjectId;
+	createdAt: Date;
+}
+
+const PromptTemplateSchema: Schema = new Schema(
+	{
+		key: {
+			type: String,
+			enum: PROMPT_TEMPLATE_KEYS,
+			required: true,
+		},
+		version: {
+			type: Number,
+			required: true,
+			min: 1,
+		},
+		description: {
+			type: String,
+			trim: true,
+		},
+		body: {
+			type: String,
+			required: true,
+		},
+		// Variables the body uses, for listings
+		variables: {
+			type: [String],
+			default: [],
+		},
+		isActive: {
+			type: Boolean,
+			default: false,
+		},
+		createdBy: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+PromptTemplateSchema.index({ key: 1, version: 1 }, { unique: true });
+PromptTemplateSchema.index({ key: 1, isActive: 1 });
+
+export default mongoose.model<IPromptTemplate>(
+	"PromptTemplate",
+	PromptTemplateSchema
+);
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type ReferenceFetchStatus = "fetched" | "failed";
+
+/**
+ * A snapshot of an external article fetched as optimization reference.
+ * Every fetch is kept as its own document, so each optimized version links
+ * to exactly the text its prompt was built from.
+ */
+export interface IReferenceSource extends Document {
+	url: string;
+	domain: string;
+	title: string;
+	/** Extracted markdown (not selected by default) */
+	content?: string;
+	wordCount: number;
+	status: ReferenceFetchStatus;
+	httpStatus?: number;
+	error?: string;
+	fetchedAt: Date;
+	/** Search query that found the page, and its position in the results */
+	query: string;
+	rank: number;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const ReferenceSourceSchema: Schema = new Schema(
+	{
+		url: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+		domain: {
+			type: String,
+			required: true,
+			lowercase: true,
+		},
+		title: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+		content: {
+			type: String,
+			select: false,
+		},
+		wordCount: {
+			type: Number,
+			default: 0,
+		},
+		status: {
+			type: String,
+			enum: ["fetched", "failed"],
+			required: true,
+		},
+		httpStatus: {
+			type: Number,
+		},
+		error: {
+			type: String,
+		},
+		fetchedAt: {
+			type: Date,
+			required: true,
+			default: Date.now,
+		},
+		query: {
+			type: String,
+			required: true,
+		},
+		rank: {
+			type: Number,
+			required: true,
+			min: 1,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+// Latest snapshot of a URL, for reuse
+ReferenceSourceSchema.index({ url: 1, status: 1, fetchedAt: -1 });
+ReferenceSourceSchema.index({ domain: 1, fetchedAt: -1 });
+ReferenceSourceSchema.index({ fetchedAt: -1 });
+
+export default mongoose.model<IReferenceSource>(
+	"ReferenceSource",
+	ReferenceSourceSchema
+);
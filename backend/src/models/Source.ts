@@ -0,0 +1,194 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type PaginationStrategy =
+	| "none"
+	| "next-link"
+	| "page-param"
+	| "sitemap"
+	| "feed";
+
+export interface SourceProfile {
+	name: string;
+	listingUrl: string;
+	pagination: {
+		strategy: PaginationStrategy;
+		nextSelector?: string;
+		pageParam?: string;
+		sitemapUrl?: string;
+		feedUrl?: string;
+		maxPages: number;
+	};
+	selectors: {
+		list: string;
+		link?: string;
+		title: string;
+		content: string[];
+		author?: string;
+		date?: string;
+	};
+	crawlLimit: number;
+	/** Domains never used as optimization references for this source's articles */
+	excludedDomains: string[];
+}
+
+export interface ISource extends Document, SourceProfile {
+	isActive: boolean;
+	lastCrawledAt?: Date;
+}
+
+export const DEFAULT_PAGINATION = {
+	nextSelector: 'a[rel="next"], a.next, .pagination .next a',
+	pageParam: "page",
+	maxPages: 10,
+};
+
+export const DEFAULT_SELECTORS = {
+	list: "article, .blog-post, .post-item",
+	link: "a",
+	title: "h1",
+	content: [
+		"article .content",
+		"article .post-content",
+		".article-content",
+		"article p",
+		".entry-content",
+	],
+	author: '.author-name, [rel="author"]',
+	date: "time[datetime], .publish-date",
+};
+
+// Social and video sites; sources add their own domain
+export const DEFAULT_EXCLUDED_DOMAINS = [
+	"youtube.com",
+	"facebook.com",
+	"twitter.com",
+	"x.com",
+	"instagram.com",
+	"tiktok.com",
+	"pinterest.com",
+];
+
+const isHttpUrl = (value?: string): boolean => {
+	if (!value) return true;
+
+	try {
+		const url = new URL(value);
+		return url.protocol === "http:" || url.protocol === "https:";
+	} catch {
+		return false;
+	}
+};
+
+const SourceSchema: Schema = new Schema(
+	{
+		name: {
+			type: String,
+			required: true,
+			trim: true,
+			unique: true,
+		},
+		listingUrl: {
+			type: String,
+			required: true,
+			trim: true,
+			validate: [isHttpUrl, "listingUrl must be an http(s) URL"],
+		},
+		pagination: {
+			strategy: {
+				type: String,
+				enum: ["none", "next-link", "page-param", "sitemap", "feed"],
+				default: "none",
+			},
+			nextSelector: {
+				type: String,
+				default: DEFAULT_PAGINATION.nextSelector,
+			},
+			pageParam: {
+				type: String,
+				default: DEFAULT_PAGINATION.pageParam,
+			},
+			sitemapUrl: {
+				type: String,
+				trim: true,
+				validate: [isHttpUrl, "sitemapUrl must be an http(s) URL"],
+			},
+			feedUrl: {
+				type: String,
+				trim: true,
+				validate: [isHttpUrl, "feedUrl must be an http(s) URL"],
+			},
+			maxPages: {
+				type: Number,
+				default: DEFAULT_PAGINATION.maxPages,
+				min: 1,
+				max: 100,
+			},
+		},
+		selectors: {
+			list: {
+				type: String,
+				default: DEFAULT_SELECTORS.list,
+			},
+			link: {
+				type: String,
+				default: DEFAULT_SELECTORS.link,
+			},
+			title: {
+				type: String,
+				default: DEFAULT_SELECTORS.title,
+			},
+			content: {
+				type: [String],
+				default: DEFAULT_SELECTORS.content,
+			},
+			author: {
+				type: String,
+				default: DEFAULT_SELECTORS.author,
+			},
+			date: {
+				type: String,
+				default: DEFAULT_SELECTORS.date,
+			},
+		},
+		crawlLimit: {
+			type: Number,
+			default: 20,
+			min: 1,
+			max: 500,
+		},
+		excludedDomains: {
+			type: [{ type: String, trim: true, lowercase: true }],
+			default: DEFAULT_EXCLUDED_DOMAINS,
+		},
+		isActive: {
+			type: Boolean,
+			default: true,
+		},
+		lastCrawledAt: {
+			type: Date,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+SourceSchema.pre("validate", function () {
+	const { pagination } = this as unknown as ISource;
+
+	if (pagination?.strategy === "sitemap" && !pagination.sitemapUrl) {
+		this.invalidate(
+			"pagination.sitemapUrl",
+			"pagination.sitemapUrl is required for the sitemap strategy"
+		);
+	}
+
+	if (pagination?.strategy === "feed" && !pagination.feedUrl) {
+		this.invalidate(
+			"pagination.feedUrl",
+			"pagination.feedUrl is required for the feed strategy"
+		);
+	}
+});
+
+export default mongoose.model<ISource>("Source", SourceSchema);
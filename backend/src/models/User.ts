@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type UserRole = "viewer" | "editor" | "admin";
+
+export const USER_ROLES: UserRole[] = ["viewer", "editor", "admin"];
+
+export interface IUser extends Document {
+	email: string;
+	name: string;
+	passwordHash: string;
+	role: UserRole;
+	isActive: boolean;
+	lastLoginAt?: Date;
+}
+
+const UserSchema: Schema = new Schema(
+	{
+		email: {
+			type: String,
+			required: true,
+			unique: true,
+			trim: true,
+			lowercase: true,
+		},
+		name: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+		passwordHash: {
+			type: String,
+			required: true,
+			select: false,
+		},
+		role: {
+			type: String,
+			enum: USER_ROLES,
+			default: "viewer",
+		},
+		isActive: {
+			type: Boolean,
+			default: true,
+		},
+		lastLoginAt: {
+			type: Date,
+		},
+	},
+	{
+		timestamps: true,
+		toJSON: {
+			transform: (_doc, ret: Record<string, any>) => {
+				delete ret.passwordHash;
+				return ret;
+			},
+		},
+	}
+);
+
+export default mongoose.model<IUser>("User", UserSchema);
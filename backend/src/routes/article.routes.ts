@@ -1,14 +1,124 @@
-import { Router } from "express";
-import articleController from "../controllers/article.controller";
-
-const router = Router();
-
-router.post("/scrape", articleController.scrapeAndStore);
-
-router.get("/", articleController.getAllArticles);
-router.get("/:id", articleController.getArticleById);
-router.post("/", articleController.createArticle);
-router.put("/:id", articleController.updateArticle);
-router.delete("/:id", articleController.deleteArticle);
-
-export default router;
\ No newline at end of file
+import { Router } from "express";
+import articleController from "../controllers/article.controller";
+import versionController from "../controllers/version.controller";
+import exportController from "../controllers/export.controller";
+import importController from "../controllers/import.controller";
+import optimizationController from "../controllers/optimization.controller";
+import reviewController from "../controllers/review.controller";
+import { requireRole } from "../middleware/auth.middleware";
+import { cacheResponse } from "../middleware/cache.middleware";
+import { acceptUploads } from "../middleware/upload.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { articleRouteSchemas as schemas } from "../validation/article.schemas";
+
+const router = Router();
+
+router.post(
+	"/scrape",
+	requireRole("editor"),
+	validate(schemas.scrape),
+	articleController.scrapeAndStore
+);
+
+router.get(
+	"/",
+	validate(schemas.list),
+	cacheResponse("articles"),
+	articleController.getAllArticles
+);
+router.get("/stale", validate(schemas.listStale), versionController.getStale);
+router.get(
+	"/export",
+	validate(schemas.exportBundle),
+	exportController.exportBundle
+);
+router.post(
+	"/import",
+	requireRole("editor"),
+	validate(schemas.import),
+	acceptUploads,
+	importController.importArticles
+);
+router.get(
+	"/:id",
+	validate(schemas.getById),
+	cacheResponse("articles"),
+	articleController.getArticleById
+);
+router.post(
+	"/",
+	requireRole("editor"),
+	validate(schemas.create),
+	articleController.createArticle
+);
+router.put(
+	"/:id",
+	requireRole("editor"),
+	validate(schemas.update),
+	articleController.updateArticle
+);
+router.delete(
+	"/:id",
+	requireRole("admin"),
+	validate(schemas.remove),
+	articleController.deleteArticle
+);
+
+router.get(
+	"/:id/versions",
+	validate(schemas.versions),
+	versionController.getVersions
+);
+router.get(
+	"/:id/versions/:a/diff/:b",
+	validate(schemas.diff),
+	versionController.diffVersions
+);
+router.get(
+	"/:id/originality",
+	validate(schemas.originality),
+	versionController.getOriginality
+);
+router.post(
+	"/:id/optimize",
+	requireRole("editor"),
+	validate(schemas.optimize),
+	optimizationController.optimizeArticle
+);
+router.get(
+	"/:id/optimize/stream",
+	requireRole("editor"),
+	validate(schemas.optimizeStream),
+	optimizationController.streamOptimization
+);
+router.post(
+	"/:id/versions/:version/publish",
+	requireRole("editor"),
+	validate(schemas.publish),
+	versionController.publishVersion
+);
+router.get(
+	"/:id/export",
+	validate(schemas.export),
+	exportController.exportArticle
+);
+router.get(
+	"/:id/review",
+	requireRole("viewer"),
+	validate(schemas.review),
+	reviewController.getReview
+);
+router.post(
+	"/:id/status",
+	requireRole("editor"),
+	validate(schemas.updateStatus),
+	reviewController.updateStatus
+);
+router.post(
+	"/:id/comments",
+	requireRole("editor"),
+	validate(schemas.addComment),
+	reviewController.addComment
+);
+
+export default router;
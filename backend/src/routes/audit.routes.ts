@@ -0,0 +1,9 @@
+import { Router } from "express";
+import auditController from "../controllers/audit.controller";
+import { requireRole } from "../middleware/auth.middleware";
+
+const router = Router();
+
+router.get("/", requireRole("admin"), auditController.getAuditLog);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import authController from "../controllers/auth.controller";
+import { requireRole } from "../middleware/auth.middleware";
+
+const router = Router();
+
+router.post("/register", authController.register);
+router.post("/login", authController.login);
+router.get("/me", requireRole("viewer"), authController.getCurrentUser);
+
+router.get("/api-keys", requireRole("viewer"), authController.getApiKeys);
+router.post("/api-keys", requireRole("viewer"), authController.createApiKey);
+router.delete(
+	"/api-keys/:id",
+	requireRole("viewer"),
+	authController.revokeApiKey
+);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import jobController from "../controllers/job.controller";
+import { requireRole } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { jobRouteSchemas as schemas } from "../validation/job.schemas";
+
+const router = Router();
+
+router.get(
+	"/",
+	requireRole("viewer"),
+	validate(schemas.list),
+	jobController.getAllJobs
+);
+router.get(
+	"/summary",
+	requireRole("viewer"),
+	validate(schemas.summary),
+	jobController.getSummary
+);
+router.get(
+	"/:id",
+	requireRole("viewer"),
+	validate(schemas.getById),
+	jobController.getJobById
+);
+router.post(
+	"/",
+	requireRole("editor"),
+	validate(schemas.enqueue),
+	jobController.enqueueJob
+);
+router.post(
+	"/:id/cancel",
+	requireRole("editor"),
+	validate(schemas.cancel),
+	jobController.cancelJob
+);
+router.post(
+	"/:id/retry",
+	requireRole("editor"),
+	validate(schemas.retry),
+	jobController.retryJob
+);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import promptTemplateController from "../controllers/prompt-template.controller";
+import { requireRole } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { promptRouteSchemas as schemas } from "../validation/prompt.schemas";
+
+const router = Router();
+
+router.get(
+	"/",
+	requireRole("viewer"),
+	validate(schemas.list),
+	promptTemplateController.getTemplates
+);
+router.get(
+	"/:key",
+	requireRole("viewer"),
+	validate(schemas.versions),
+	promptTemplateController.getVersions
+);
+router.get(
+	"/:key/versions/:version",
+	requireRole("viewer"),
+	validate(schemas.getVersion),
+	promptTemplateController.getVersion
+);
+router.post(
+	"/:key/versions",
+	requireRole("admin"),
+	validate(schemas.create),
+	promptTemplateController.createVersion
+);
+router.post(
+	"/:key/versions/:version/activate",
+	requireRole("admin"),
+	validate(schemas.activate),
+	promptTemplateController.activateVersion
+);
+router.delete(
+	"/:key/versions/:version",
+	requireRole("admin"),
+	validate(schemas.remove),
+	promptTemplateController.deleteVersion
+);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import referenceController from "../controllers/reference.controller";
+import { requireRole } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { referenceRouteSchemas as schemas } from "../validation/reference.schemas";
+
+const router = Router();
+
+router.get(
+	"/",
+	requireRole("viewer"),
+	validate(schemas.list),
+	referenceController.getReferences
+);
+router.get(
+	"/:id",
+	requireRole("viewer"),
+	validate(schemas.getById),
+	referenceController.getReferenceById
+);
+
+export default router;
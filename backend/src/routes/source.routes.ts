@@ -0,0 +1,13 @@
+import { Router } from "express";
+import sourceController from "../controllers/source.controller";
+import { requireRole } from "../middleware/auth.middleware";
+
+const router = Router();
+
+router.get("/", requireRole("viewer"), sourceController.getAllSources);
+router.get("/:id", requireRole("viewer"), sourceController.getSourceById);
+router.post("/", requireRole("admin"), sourceController.createSource);
+router.put("/:id", requireRole("admin"), sourceController.updateSource);
+router.delete("/:id", requireRole("admin"), sourceController.deleteSource);
+
+export default router;
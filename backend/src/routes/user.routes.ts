@@ -0,0 +1,12 @@
+import { Router } from "express";
+import authController from "../controllers/auth.controller";
+import { requireRole } from "../middleware/auth.middleware";
+
+const router = Router();
+
+router.use(requireRole("admin"));
+
+router.get("/", authController.getAllUsers);
+router.put("/:id", authController.updateUser);
+
+export default router;
@@ -0,0 +1,207 @@
+import { diffWords } from "diff";
+
+type ChangeType = "added" | "removed" | "unchanged";
+
+interface WordChange {
+	type: ChangeType;
+	value: string;
+	count: number;
+}
+
+interface WordDiff {
+	changes: WordChange[];
+	stats: {
+		added: number;
+		removed: number;
+		unchanged: number;
+		similarity: number;
+	};
+	truncated: boolean;
+}
+
+interface MarkdownSection {
+	heading: string;
+	level: number;
+	body: string;
+}
+
+interface SectionDiff {
+	heading: string;
+	level: number;
+	status: "added" | "removed" | "modified" | "unchanged";
+	similarity: number;
+	stats?: WordDiff["stats"];
+}
+
+class ArticleDiffService {
+	private readonly diffTimeout = 2000;
+
+	/**
+	 * Word-level diff of two texts
+	 * @returns Change runs and word counts. If the texts are too different to
+	 * diff within the timeout, the whole text is reported as replaced.
+	 */
+	diffWords(from: string, to: string): WordDiff {
+		const changes = diffWords(from, to, { timeout: this.diffTimeout });
+
+		if (!changes) {
+			const removed = this.countWords(from);
+			const added = this.countWords(to);
+
+			return {
+				changes: [
+					{ type: "removed", value: from, count: removed },
+					{ type: "added", value: to, count: added },
+				],
+				stats: { added, removed, unchanged: 0, similarity: 0 },
+				truncated: true,
+			};
+		}
+
+		const wordChanges: WordChange[] = changes.map((change) => ({
+			type: change.added ? "added" : change.removed ? "removed" : "unchanged",
+			value: change.value,
+			count: this.countWords(change.value),
+		}));
+
+		const total = (type: ChangeType) =>
+			wordChanges
+				.filter((change) => change.type === type)
+				.reduce((sum, change) => sum + change.count, 0);
+
+		const added = total("added");
+		const removed = total("removed");
+		const unchanged = total("unchanged");
+
+		return {
+			changes: wordChanges,
+			stats: {
+				added,
+				removed,
+				unchanged,
+				similarity: this.similarity(unchanged, added, removed),
+			},
+			truncated: false,
+		};
+	}
+
+	/**
+	 * Match markdown sections by heading and report which were added,
+	 * removed or changed
+	 */
+	diffSections(from: string, to: string): SectionDiff[] {
+		const fromSections = this.parseSections(from);
+		const toSections = this.parseSections(to);
+
+		const fromByKey = new Map(
+			fromSections.map((section) => [this.sectionKey(section), section])
+		);
+		const matchedKeys = new Set<string>();
+		const result: SectionDiff[] = [];
+
+		for (const section of toSections) {
+			const key = this.sectionKey(section);
+			const previous = fromByKey.get(key);
+
+			if (!previous) {
+				result.push({
+					heading: section.heading,
+					level: section.level,
+					status: "added",
+					similarity: 0,
+				});
+				continue;
+			}
+
+			matchedKeys.add(key);
+
+			const { stats } = this.diffWords(previous.body, section.body);
+			result.push({
+				heading: section.heading,
+				level: section.level,
+				status:
+					stats.added === 0 && stats.removed === 0 ? "unchanged" : "modified",
+				similarity: stats.similarity,
+				stats,
+			});
+		}
+
+		for (const section of fromSections) {
+			if (matchedKeys.has(this.sectionKey(section))) continue;
+
+			result.push({
+				heading: section.heading,
+				level: section.level,
+				status: "removed",
+				similarity: 0,
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Split markdown into sections at ATX headings. Text before the first
+	 * heading becomes a level-0 section with an empty heading.
+	 */
+	parseSections(markdown: string): MarkdownSection[] {
+		const sections: MarkdownSection[] = [];
+		let current: MarkdownSection = { heading: "", level: 0, body: "" };
+		let inCodeBlock = false;
+
+		for (const line of markdown.split(/\r?\n/)) {
+			if (/^\s*(```|~~~)/.test(line)) {
+				inCodeBlock = !inCodeBlock;
+			}
+
+			const match = inCodeBlock
+				? null
+				: line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+
+			if (match) {
+				if (current.heading || current.body.trim()) {
+					sections.push(current);
+				}
+				current = { heading: match[2], level: match[1].length, body: "" };
+				continue;
+			}
+
+			current.body += `${line}\n`;
+		}
+
+		if (current.heading || current.body.trim()) {
+			sections.push(current);
+		}
+
+		return sections.map((section) => ({
+			...section,
+			body: section.body.trim(),
+		}));
+	}
+
+	private sectionKey(section: MarkdownSection): string {
+		return section.heading
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, " ")
+			.trim();
+	}
+
+	private countWords(text: string): number {
+		const trimmed = text.trim();
+		return trimmed ? trimmed.split(/\s+/).length : 0;
+	}
+
+	private similarity(
+		unchanged: number,
+		added: number,
+		removed: number
+	): number {
+		const total = unchanged * 2 + added + removed;
+		if (total === 0) return 1;
+
+		return Math.round(((unchanged * 2) / total) * 1000) / 1000;
+	}
+}
+
+export default new ArticleDiffService();
+export { MarkdownSection, SectionDiff, WordChange, WordDiff };
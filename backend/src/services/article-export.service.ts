@@ -0,0 +1,383 @@
+import archiver from "archiver";
+import { marked } from "marked";
+import mongoose, { QueryFilter } from "mongoose";
+import sanitizeHtml from "sanitize-html";
+import { Writable } from "stream";
+import { stringify as stringifyYaml } from "yaml";
+import Article, { IArticle } from "../models/Article";
+import { ExportArticlesQuery } from "../types/article.api";
+import articleSearchService from "./article-search.service";
+
+type ExportFormat = "md" | "html" | "json";
+
+type SiteLayout = "hugo" | "jekyll";
+
+interface ExportedFile {
+	filename: string;
+	contentType: string;
+	body: string;
+}
+
+interface ArticleJsonExport {
+	id: string;
+	slug: string;
+	title: string;
+	author?: string;
+	publishedDate?: Date;
+	url: string;
+	isOriginal: boolean;
+	originalUrl?: string;
+	version?: number;
+	readingTime?: number;
+	wordCount?: number;
+	references: Array<{ title: string; url: string }>;
+	markdown: string;
+	html: string;
+}
+
+type YamlValue =
+	| string
+	| number
+	| boolean
+	| Date
+	| undefined
+	| YamlValue[]
+	| { [key: string]: YamlValue };
+
+class ArticleExportError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "ArticleExportError";
+		Object.setPrototypeOf(this, ArticleExportError.prototype);
+	}
+}
+
+// sanitize-html's defaults plus images and top-level headings; only links
+// and images over http(s) survive
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+	allowedTags: [...sanitizeHtml.defaults.allowedTags, "img", "h1", "h2"],
+	allowedAttributes: {
+		a: ["href", "title", "rel"],
+		img: ["src", "alt", "title"],
+		code: ["class"],
+	},
+	allowedSchemes: ["http", "https", "mailto"],
+	transformTags: {
+		a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer" }),
+	},
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	md: "text/markdown; charset=utf-8",
+	html: "text/html; charset=utf-8",
+	json: "application/json; charset=utf-8",
+};
+
+// Jekyll reads front matter as YAML 1.1, so strings such as "yes" or "on"
+// must be quoted. Titles are never folded across lines, and dates shared by
+// two fields are written twice rather than as an alias.
+const YAML_OPTIONS = {
+	version: "1.1",
+	lineWidth: 0,
+	aliasDuplicateObjects: false,
+} as const;
+
+/**
+ * Renders articles as Markdown with YAML front matter, sanitized HTML or
+ * JSON, and bundles them into static-site content directories
+ */
+class ArticleExportService {
+	readonly maxBundleSize = 500;
+
+	/**
+	 * Find an article to export, with the original it was generated from
+	 * @throws ArticleExportError if the article does not exist
+	 */
+	async getArticle(id: string): Promise<IArticle> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new ArticleExportError("Invalid article ID", 400);
+		}
+
+		const article = await Article.findById(id).populate(
+			"originalArticleId",
+			"url"
+		);
+
+		if (!article) {
+			throw new ArticleExportError("Article not found", 404);
+		}
+
+		return article;
+	}
+
+	/**
+	 * Render one article in the given format
+	 */
+	export(article: IArticle, format: ExportFormat): ExportedFile {
+		const slug = this.slugOf(article);
+		const body =
+			format === "md"
+				? this.toMarkdown(article)
+				: format === "html"
+				? this.toHtml(article)
+				: JSON.stringify(this.toJson(article), null, 2);
+
+		return {
+			filename: `${slug}.${format}`,
+			contentType: CONTENT_TYPES[format],
+			body,
+		};
+	}
+
+	/**
+	 * Markdown body preceded by YAML front matter
+	 */
+	toMarkdown(article: IArticle, extra: Record<string, YamlValue> = {}): string {
+		const frontMatter = stringifyYaml(
+			{ ...extra, ...this.frontMatterOf(article) },
+			YAML_OPTIONS
+		);
+
+		return `---\n${frontMatter}---\n\n${this.bodyOf(article).trim()}\n`;
+	}
+
+	/**
+	 * Standalone HTML page with the sanitized rendered body
+	 */
+	toHtml(article: IArticle): string {
+		const title = this.escapeHtml(article.title);
+		const author = article.author
+			? `\n<meta name="author" content="${this.escapeHtml(article.author)}">`
+			: "";
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>${author}
+</head>
+<body>
+<article>
+<h1>${title}</h1>
+${this.renderHtml(this.bodyOf(article))}
+</article>
+</body>
+</html>
+`;
+	}
+
+	toJson(article: IArticle): ArticleJsonExport {
+		const markdown = this.bodyOf(article);
+
+		return {
+			id: String(article._id),
+			slug: this.slugOf(article),
+			title: article.title,
+			author: article.author,
+			publishedDate: article.publishedDate,
+			url: article.url,
+			isOriginal: article.isOriginal,
+			originalUrl: this.originalUrlOf(article),
+			version: article.version,
+			readingTime: article.metadata?.readingTime,
+			wordCount: article.metadata?.wordCount,
+			references: this.referencesOf(article),
+			markdown,
+			html: this.renderHtml(markdown),
+		};
+	}
+
+	/**
+	 * Filter for a bulk export: the article list filters, plus review status
+	 * (versions from before the review workflow count as published or draft)
+	 * @throws ArticleQueryError if a filter is malformed
+	 */
+	async buildBundleFilter(
+		query: ExportArticlesQuery
+	): Promise<QueryFilter<IArticle>> {
+		const filter = await articleSearchService.buildFilter(query);
+		const statuses = query.reviewStatus
+			? ([] as string[]).concat(query.reviewStatus)
+			: [];
+
+		if (statuses.length > 0) {
+			const legacy = statuses.flatMap((status) =>
+				status === "published" ? [true] : status === "draft" ? [false] : []
+			);
+
+			filter.$or = [
+				{ "review.status": { $in: statuses } },
+				...(legacy.length > 0
+					? [
+							{
+								isOriginal: false,
+								"review.status": { $exists: false },
+								isPublished: { $in: legacy },
+							},
+					  ]
+					: []),
+			];
+		}
+
+		return filter;
+	}
+
+	/**
+	 * Write a zip of the matching articles laid out as a Hugo or Jekyll site's
+	 * content to the output stream
+	 * @returns Number of articles in the bundle
+	 * @throws ArticleExportError if nothing matches
+	 */
+	async bundle(
+		filter: QueryFilter<IArticle>,
+		layout: SiteLayout,
+		limit: number,
+		output: Writable
+	): Promise<number> {
+		const articles = await Article.find(filter)
+			.sort({ publishedDate: -1, createdAt: -1 })
+			.limit(Math.min(limit, this.maxBundleSize))
+			.populate("originalArticleId", "url");
+
+		if (articles.length === 0) {
+			throw new ArticleExportError("No articles match the filters", 404);
+		}
+
+		const archive = archiver("zip", { zlib: { level: 9 } });
+		const finished = new Promise<void>((resolve, reject) => {
+			archive.on("error", reject);
+			output.on("close", resolve);
+			output.on("finish", resolve);
+		});
+		archive.pipe(output);
+
+		const usedPaths = new Set<string>();
+
+		for (const article of articles) {
+			const path = this.uniquePath(this.sitePathOf(article, layout), usedPaths);
+			const extra: Record<string, YamlValue> =
+				layout === "jekyll" ? { layout: "post" } : { draft: false };
+
+			archive.append(this.toMarkdown(article, extra), { name: path });
+		}
+
+		archive.append(this.siteConfigOf(layout), {
+			name: layout === "hugo" ? "hugo.yaml" : "_config.yml",
+		});
+
+		await archive.finalize();
+		await finished;
+
+		return articles.length;
+	}
+
+	/**
+	 * URL-safe file name from the title, e.g. "how-chatbots-help"
+	 */
+	slugOf(article: IArticle): string {
+		const slug = article.title
+			.normalize("NFKD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "")
+			.slice(0, 80)
+			.replace(/-+$/, "");
+		const suffix = article.isOriginal ? "" : `-v${article.version || 1}`;
+
+		return `${slug || String(article._id)}${suffix}`;
+	}
+
+	private frontMatterOf(article: IArticle): Record<string, YamlValue> {
+		const date = article.publishedDate || article.get("createdAt");
+
+		return {
+			title: article.title,
+			author: article.author,
+			date,
+			publishedDate: article.publishedDate,
+			readingTime: article.metadata?.readingTime,
+			wordCount: article.metadata?.wordCount,
+			slug: this.slugOf(article),
+			source: this.originalUrlOf(article) || article.url,
+			version: article.isOriginal ? undefined : article.version,
+			references: this.referencesOf(article),
+		};
+	}
+
+	/**
+	 * Jekyll only picks up posts named YYYY-MM-DD-slug
+	 */
+	private sitePathOf(article: IArticle, layout: SiteLayout): string {
+		if (layout === "hugo") {
+			return `content/posts/${this.slugOf(article)}.md`;
+		}
+
+		const date: Date = article.publishedDate || article.get("createdAt");
+		const day = date.toISOString().slice(0, 10);
+
+		return `_posts/${day}-${this.slugOf(article)}.md`;
+	}
+
+	private siteConfigOf(layout: SiteLayout): string {
+		const config =
+			layout === "hugo"
+				? { title: "Exported articles", languageCode: "en-us" }
+				: { title: "Exported articles", permalink: "/:year/:month/:title/" };
+
+		return stringifyYaml(config, YAML_OPTIONS);
+	}
+
+	private uniquePath(path: string, used: Set<string>): string {
+		let candidate = path;
+		let counter = 2;
+
+		while (used.has(candidate)) {
+			candidate = path.replace(/\.md$/, `-${counter++}.md`);
+		}
+
+		used.add(candidate);
+		return candidate;
+	}
+
+	private bodyOf(article: IArticle): string {
+		return article.updatedContent || article.content;
+	}
+
+	private renderHtml(markdown: string): string {
+		const html = marked.parse(markdown, { async: false, gfm: true });
+
+		return sanitizeHtml(html, SANITIZE_OPTIONS);
+	}
+
+	private referencesOf(
+		article: IArticle
+	): Array<{ title: string; url: string }> {
+		return (article.references || []).map(({ title, url }) => ({ title, url }));
+	}
+
+	private originalUrlOf(article: IArticle): string | undefined {
+		const original = article.originalArticleId as unknown;
+
+		return original && typeof original === "object" && "url" in original
+			? String((original as { url: string }).url)
+			: undefined;
+	}
+
+	private escapeHtml(text: string): string {
+		return text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;");
+	}
+}
+
+export default new ArticleExportService();
+export {
+	ArticleExportError,
+	ArticleJsonExport,
+	ExportedFile,
+	ExportFormat,
+	SiteLayout,
+};
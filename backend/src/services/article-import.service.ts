@@ -0,0 +1,433 @@
+import AdmZip from "adm-zip";
+import { parse as parseCsv } from "csv-parse/sync";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import Article from "../models/Article";
+import articleService from "./article.service";
+
+interface ImportFile {
+	name: string;
+	buffer: Buffer;
+}
+
+type ImportRowStatus = "created" | "valid" | "conflict" | "error";
+
+interface ImportRowResult {
+	file: string;
+	row: number;
+	status: ImportRowStatus;
+	url?: string;
+	title?: string;
+	articleId?: string;
+	message?: string;
+}
+
+interface ImportReport {
+	dryRun: boolean;
+	summary: Record<ImportRowStatus, number>;
+	rows: ImportRowResult[];
+}
+
+/** One record found in an upload, before validation */
+interface ParsedRow {
+	file: string;
+	row: number;
+	fields?: Record<string, unknown>;
+	/** Set when the file itself could not be read */
+	error?: string;
+}
+
+interface ImportedArticle {
+	title: string;
+	content: string;
+	url: string;
+	excerpt?: string;
+	author?: string;
+	publishedDate?: Date;
+}
+
+class ArticleImportError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "ArticleImportError";
+		Object.setPrototypeOf(this, ArticleImportError.prototype);
+	}
+}
+
+// Column and front matter names accepted for each article field, compared
+// lowercased without punctuation ("Published Date" → "publisheddate").
+// "source" is what the Markdown export writes the URL as.
+const FIELD_ALIASES: Record<keyof ImportedArticle, string[]> = {
+	title: ["title", "headline", "name"],
+	content: ["content", "body", "markdown", "text"],
+	url: ["url", "link", "permalink", "source", "canonicalurl"],
+	excerpt: ["excerpt", "description", "summary"],
+	author: ["author", "authorname", "by"],
+	publishedDate: ["publisheddate", "date", "publishedat", "published"],
+};
+
+const FORMATS = [".md", ".markdown", ".json", ".csv"];
+
+/**
+ * Reads articles from Markdown files with front matter, JSON and CMS CSV
+ * exports, and zips of those, and stores them as originals
+ */
+class ArticleImportService {
+	readonly maxRows = 1000;
+	/** Uncompressed bytes read from the archives in one upload */
+	readonly maxArchiveSize = 50 * 1024 * 1024;
+
+	/**
+	 * Store every valid article from the uploaded files, skipping URLs that
+	 * are already stored or repeated in the upload. A dry run only reports
+	 * what would happen.
+	 * @returns Outcome of each row, in upload order
+	 * @throws ArticleImportError if there is nothing to import or too much
+	 */
+	async import(files: ImportFile[], dryRun = false): Promise<ImportReport> {
+		if (files.length === 0) {
+			throw new ArticleImportError("No files uploaded", 400);
+		}
+
+		const extracted = { bytes: 0 };
+		const parsed = files.flatMap((file) => this.parseFile(file, extracted));
+
+		if (parsed.length > this.maxRows) {
+			throw new ArticleImportError(
+				`Uploads are limited to ${this.maxRows} articles, found ${parsed.length}`,
+				413
+			);
+		}
+
+		const rows: ImportRowResult[] = [];
+		const articles: Array<{ result: ImportRowResult; data: ImportedArticle }> =
+			[];
+
+		for (const { file, row, fields, error } of parsed) {
+			if (error || !fields) {
+				rows.push({ file, row, status: "error", message: error });
+				continue;
+			}
+
+			try {
+				const data = this.toArticle(fields);
+				const result: ImportRowResult = {
+					file,
+					row,
+					status: "valid",
+					url: data.url,
+					title: data.title,
+				};
+				rows.push(result);
+				articles.push({ result, data });
+			} catch (validationError) {
+				rows.push({
+					file,
+					row,
+					status: "error",
+					url: this.textOf(fields, "url"),
+					message: this.messageOf(validationError),
+				});
+			}
+		}
+
+		const stored = await Article.find({
+			url: { $in: articles.map(({ data }) => data.url) },
+		}).select("url");
+		const storedUrls = new Set(stored.map((article) => article.url));
+		const seen = new Map<string, ImportRowResult>();
+
+		for (const { result, data } of articles) {
+			const earlier = seen.get(data.url);
+
+			if (storedUrls.has(data.url)) {
+				result.status = "conflict";
+				result.message = "An article with this URL already exists";
+			} else if (earlier) {
+				result.status = "conflict";
+				result.message = `Duplicate of ${earlier.file} row ${earlier.row}`;
+			} else {
+				seen.set(data.url, result);
+				if (!dryRun) await this.store(result, data);
+			}
+		}
+
+		return { dryRun, summary: this.summarize(rows), rows };
+	}
+
+	private async store(
+		result: ImportRowResult,
+		data: ImportedArticle
+	): Promise<void> {
+		try {
+			const article = await new Article({
+				...data,
+				isOriginal: true,
+				scrapedAt: new Date(),
+				contentHash: articleService.hashContent(data.content),
+				metadata: articleService.calculateMetadata(data.content),
+			}).save();
+
+			result.status = "created";
+			result.articleId = String(article._id);
+		} catch (error) {
+			// Stored by someone else since the conflict check
+			const duplicate = (error as { code?: number }).code === 11000;
+
+			result.status = duplicate ? "conflict" : "error";
+			result.message = duplicate
+				? "An article with this URL already exists"
+				: this.messageOf(error);
+		}
+	}
+
+	/**
+	 * Records in one uploaded file; unreadable files yield a single error row
+	 */
+	private parseFile(
+		file: ImportFile,
+		extracted: { bytes: number }
+	): ParsedRow[] {
+		const extension = path.extname(file.name).toLowerCase();
+
+		try {
+			switch (extension) {
+				case ".zip":
+					return this.parseArchive(file, extracted);
+				case ".md":
+				case ".markdown":
+					return [
+						{ file: file.name, row: 1, fields: this.parseMarkdown(file) },
+					];
+				case ".json":
+					return this.parseJson(file).map((item, index) => ({
+						file: file.name,
+						row: index + 1,
+						...(this.isRecord(item)
+							? { fields: item }
+							: { error: "Entry is not an object" }),
+					}));
+				case ".csv":
+					return this.parseCsv(file).map((fields, index) => ({
+						file: file.name,
+						row: index + 1,
+						fields,
+					}));
+				default:
+					throw new Error(
+						`Unsupported file type, expected one of: ${[
+							...FORMATS,
+							".zip",
+						].join(", ")}`
+					);
+			}
+		} catch (error) {
+			return [{ file: file.name, row: 1, error: this.messageOf(error) }];
+		}
+	}
+
+	/**
+	 * Supported files anywhere in the archive; others (and macOS metadata)
+	 * are ignored
+	 */
+	private parseArchive(
+		file: ImportFile,
+		extracted: { bytes: number }
+	): ParsedRow[] {
+		const entries = new AdmZip(file.buffer)
+			.getEntries()
+			.filter(
+				(entry) =>
+					!entry.isDirectory &&
+					!entry.entryName.startsWith("__MACOSX/") &&
+					!path.basename(entry.entryName).startsWith(".") &&
+					FORMATS.includes(path.extname(entry.entryName).toLowerCase())
+			);
+		// Sizes in the archive's headers are checked first to fail early, then
+		// what each entry actually inflates to
+		const declared = entries.reduce(
+			(total, entry) => total + entry.header.size,
+			0
+		);
+
+		if (extracted.bytes + declared > this.maxArchiveSize) {
+			throw new Error(this.archiveTooLarge());
+		}
+
+		if (entries.length === 0) {
+			throw new Error("Archive contains no .md, .json or .csv files");
+		}
+
+		return entries.flatMap((entry) => {
+			const buffer = entry.getData();
+			extracted.bytes += buffer.length;
+
+			if (extracted.bytes > this.maxArchiveSize) {
+				throw new Error(this.archiveTooLarge());
+			}
+
+			return this.parseFile(
+				{ name: `${file.name}/${entry.entryName}`, buffer },
+				extracted
+			);
+		});
+	}
+
+	private archiveTooLarge(): string {
+		return `Archives expand to more than ${
+			this.maxArchiveSize / 1024 / 1024
+		} MB`;
+	}
+
+	/**
+	 * Front matter fields plus the body as content. Without a title in the
+	 * front matter, a leading "# heading" is used.
+	 */
+	private parseMarkdown(file: ImportFile): Record<string, unknown> {
+		const text = this.decode(file.buffer);
+		const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+		const frontMatter: unknown = match ? parseYaml(match[1]) : {};
+
+		if (!this.isRecord(frontMatter)) {
+			throw new Error("Front matter must be a YAML mapping");
+		}
+
+		let body = match ? text.slice(match[0].length) : text;
+		const fields: Record<string, unknown> = { ...frontMatter };
+
+		if (!this.textOf(fields, "title")) {
+			const heading = body.match(/^\s*#[ \t]+(.+?)[ \t#]*(?:\r?\n|$)/);
+
+			if (heading) {
+				fields.title = heading[1];
+				body = body.slice(heading[0].length);
+			}
+		}
+
+		return { ...fields, content: body.trim() };
+	}
+
+	/**
+	 * An article object, an array of them, or { articles: [...] } as written
+	 * in the data of GET /api/articles
+	 */
+	private parseJson(file: ImportFile): unknown[] {
+		const data: unknown = JSON.parse(this.decode(file.buffer));
+
+		if (this.isRecord(data) && Array.isArray(data.articles)) {
+			return data.articles;
+		}
+
+		return Array.isArray(data) ? data : [data];
+	}
+
+	/**
+	 * Rows keyed by the header line
+	 */
+	private parseCsv(file: ImportFile): Record<string, unknown>[] {
+		return parseCsv(this.decode(file.buffer), {
+			columns: true,
+			bom: true,
+			skip_empty_lines: true,
+			trim: true,
+		}) as Record<string, unknown>[];
+	}
+
+	/**
+	 * Map a record's fields onto an article
+	 * @throws Error naming the first missing or malformed field
+	 */
+	private toArticle(fields: Record<string, unknown>): ImportedArticle {
+		const title = this.textOf(fields, "title");
+		const content = this.textOf(fields, "content");
+		const url = this.textOf(fields, "url");
+		const date = this.valueOf(fields, "publishedDate");
+
+		if (!title) throw new Error("title is required");
+		if (!content) throw new Error("content is required");
+		if (!url) throw new Error("url is required");
+
+		try {
+			if (!["http:", "https:"].includes(new URL(url).protocol)) {
+				throw new Error();
+			}
+		} catch {
+			throw new Error("url must be an http(s) URL");
+		}
+
+		let publishedDate: Date | undefined;
+		if (date !== undefined && date !== "") {
+			publishedDate =
+				date instanceof Date ? date : new Date(date as string | number);
+
+			if (Number.isNaN(publishedDate.getTime())) {
+				throw new Error("publishedDate must be a date");
+			}
+		}
+
+		return {
+			title,
+			content,
+			url,
+			excerpt: this.textOf(fields, "excerpt"),
+			author: this.textOf(fields, "author"),
+			publishedDate,
+		};
+	}
+
+	private valueOf(
+		fields: Record<string, unknown>,
+		field: keyof ImportedArticle
+	): unknown {
+		const aliases = FIELD_ALIASES[field];
+		const key = Object.keys(fields).find((name) =>
+			aliases.includes(name.toLowerCase().replace(/[^a-z0-9]/g, ""))
+		);
+
+		return key === undefined ? undefined : fields[key];
+	}
+
+	private textOf(
+		fields: Record<string, unknown>,
+		field: keyof ImportedArticle
+	): string | undefined {
+		const value = this.valueOf(fields, field);
+
+		if (typeof value !== "string" && typeof value !== "number") {
+			return undefined;
+		}
+
+		return String(value).trim() || undefined;
+	}
+
+	private summarize(rows: ImportRowResult[]): Record<ImportRowStatus, number> {
+		const summary = { created: 0, valid: 0, conflict: 0, error: 0 };
+
+		for (const row of rows) {
+			summary[row.status]++;
+		}
+
+		return summary;
+	}
+
+	private decode(buffer: Buffer): string {
+		return buffer.toString("utf8").replace(/^\uFEFF/, "");
+	}
+
+	private isRecord(value: unknown): value is Record<string, unknown> {
+		return typeof value === "object" && value !== null && !Array.isArray(value);
+	}
+
+	private messageOf(error: unknown): string {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
+
+export default new ArticleImportService();
+export {
+	ArticleImportError,
+	ImportFile,
+	ImportReport,
+	ImportRowResult,
+	ImportRowStatus,
+};
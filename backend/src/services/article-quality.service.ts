@@ -0,0 +1,430 @@
+import qualityConfig, { QualityThresholds } from "../config/quality";
+import contentExtractor from "./content-extractor.service";
+import contentChunker from "./content-chunker.service";
+import originalityService from "./originality.service";
+
+type QualityStatus = "passed" | "flagged" | "rejected";
+
+/**
+ * Problems that make output unusable whatever the thresholds, and the
+ * threshold checks that can fail
+ */
+type QualityIssue =
+	| "empty"
+	| "truncated"
+	| "prompt-echo"
+	| "language-mismatch"
+	| "low-score"
+	| "length-ratio"
+	| "readability"
+	| "reference-overlap"
+	| "entity-retention"
+	| "heading-coverage";
+
+interface QualityMetrics {
+	wordCount: number;
+	/** Output words per original word */
+	lengthRatio: number;
+	/** Flesch reading ease, 0 (hard) to 100 (easy) */
+	readingEase: number;
+	/** Flesch-Kincaid grade level */
+	gradeLevel: number;
+	headingCount: number;
+	/** Share of the original's headings whose topic appears in the output */
+	headingCoverage: number;
+	/** Highest share of output 5-word sequences found in one reference */
+	referenceOverlap: number;
+	closestReference?: string;
+	/** Share of the original's names, acronyms and figures kept */
+	entityRetention: number;
+	missingEntities: string[];
+	language: string;
+	originalLanguage: string;
+}
+
+interface QualityReport {
+	/** 0 to 100 */
+	score: number;
+	status: QualityStatus;
+	issues: QualityIssue[];
+	metrics: QualityMetrics;
+	evaluatedAt: Date;
+}
+
+interface QualityInput {
+	/** Generated markdown, without the appended references section */
+	output: string;
+	original: { title: string; content: string };
+	references: Array<{ url: string; content: string }>;
+}
+
+class QualityError extends Error {
+	constructor(
+		message: string,
+		public readonly report: QualityReport,
+		public readonly statusCode: number = 422
+	) {
+		super(message);
+		this.name = "QualityError";
+		Object.setPrototypeOf(this, QualityError.prototype);
+	}
+}
+
+const HARD_ISSUES: QualityIssue[] = [
+	"empty",
+	"truncated",
+	"prompt-echo",
+	"language-mismatch",
+];
+
+// Instruction fragments of our prompts and chat formats that should never
+// appear in an article
+const PROMPT_MARKERS = [
+	/^#+\s*your task\b/im,
+	/^#+\s*reference articles\b/im,
+	/\bwrite only the (optimized|rewritten|final)\b/i,
+	/\brewrite the original article\b/i,
+	/\[\/?INST\]|<\|im_(start|end)\|>|<\|(start_header_id|eot_id)\|>|<start_of_turn>/,
+	/^(title|content|content preview):\s*$/im,
+];
+
+const LANGUAGE_MARKERS: Record<string, string[]> = {
+	en: ["the", "and", "is", "of", "to", "in", "that", "it", "with", "for"],
+	es: ["el", "la", "de", "que", "y", "en", "los", "es", "por", "con"],
+	fr: ["le", "la", "de", "et", "les", "des", "est", "un", "une", "pour"],
+	de: ["der", "die", "und", "das", "ist", "nicht", "mit", "ein", "zu", "auf"],
+	pt: ["o", "de", "que", "e", "do", "da", "em", "um", "para", "com"],
+	it: ["il", "di", "che", "e", "la", "per", "un", "non", "sono", "con"],
+	nl: ["de", "het", "een", "en", "van", "is", "dat", "op", "te", "niet"],
+};
+
+class ArticleQualityService {
+	private readonly entityLimit = 20;
+
+	/**
+	 * Score generated output against the original and the references
+	 * @returns Metrics, issues and a status: rejected for unusable output or
+	 * (with QUALITY_ACTION=reject) missed thresholds, flagged for missed
+	 * thresholds, otherwise passed
+	 */
+	evaluate(input: QualityInput): QualityReport {
+		const thresholds = qualityConfig.thresholds;
+		const outputText = contentExtractor.toPlainText(input.output);
+		const originalText = contentExtractor.toPlainText(input.original.content);
+		const outputWords = this.words(outputText);
+		const originalWords = this.words(originalText);
+
+		const readability = this.readability(outputText, outputWords);
+		const [closest] = originalityService.compare(
+			input.output,
+			input.references
+		).references;
+		const entities = this.entityRetention(
+			contentExtractor.toPlainText(
+				input.original.content.replace(/^#{1,6}\s.*$/gm, "")
+			),
+			outputText
+		);
+
+		const metrics: QualityMetrics = {
+			wordCount: outputWords.length,
+			lengthRatio: this.round(
+				outputWords.length / Math.max(1, originalWords.length)
+			),
+			readingEase: readability.readingEase,
+			gradeLevel: readability.gradeLevel,
+			headingCount: (input.output.match(/^#{1,6}\s+\S/gm) || []).length,
+			headingCoverage: this.headingCoverage(input.original.content, outputText),
+			referenceOverlap: closest ? this.round(closest.similarity / 100) : 0,
+			closestReference: closest?.similarity ? closest.url : undefined,
+			entityRetention: entities.retention,
+			missingEntities: entities.missing,
+			language: this.detectLanguage(outputWords),
+			originalLanguage: this.detectLanguage(originalWords),
+		};
+
+		const issues = this.findIssues(input.output, metrics, thresholds);
+		const score = issues.includes("empty")
+			? 0
+			: this.score(metrics, thresholds);
+
+		if (score < thresholds.minScore && !issues.includes("empty")) {
+			issues.push("low-score");
+		}
+
+		return {
+			score,
+			status: this.status(issues),
+			issues,
+			metrics,
+			evaluatedAt: new Date(),
+		};
+	}
+
+	private findIssues(
+		output: string,
+		metrics: QualityMetrics,
+		thresholds: QualityThresholds
+	): QualityIssue[] {
+		if (metrics.wordCount === 0) return ["empty"];
+
+		const issues: QualityIssue[] = [];
+
+		if (this.isTruncated(output)) issues.push("truncated");
+
+		if (PROMPT_MARKERS.some((marker) => marker.test(output))) {
+			issues.push("prompt-echo");
+		}
+
+		if (
+			metrics.language !== "unknown" &&
+			metrics.originalLanguage !== "unknown" &&
+			metrics.language !== metrics.originalLanguage
+		) {
+			issues.push("language-mismatch");
+		}
+
+		if (
+			metrics.lengthRatio < thresholds.minLengthRatio ||
+			metrics.lengthRatio > thresholds.maxLengthRatio
+		) {
+			issues.push("length-ratio");
+		}
+
+		if (metrics.readingEase < thresholds.minReadingEase) {
+			issues.push("readability");
+		}
+
+		if (metrics.referenceOverlap > thresholds.maxReferenceOverlap) {
+			issues.push("reference-overlap");
+		}
+
+		if (metrics.entityRetention < thresholds.minEntityRetention) {
+			issues.push("entity-retention");
+		}
+
+		if (metrics.headingCoverage < thresholds.minHeadingCoverage) {
+			issues.push("heading-coverage");
+		}
+
+		return issues;
+	}
+
+	private status(issues: QualityIssue[]): QualityStatus {
+		if (issues.length === 0) return "passed";
+
+		if (
+			issues.some((issue) => HARD_ISSUES.includes(issue)) ||
+			qualityConfig.action === "reject"
+		) {
+			return "rejected";
+		}
+
+		return "flagged";
+	}
+
+	/**
+	 * Weighted average of the metrics, each mapped to 0..1
+	 */
+	private score(
+		metrics: QualityMetrics,
+		thresholds: QualityThresholds
+	): number {
+		const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+		const length =
+			metrics.lengthRatio < thresholds.minLengthRatio
+				? metrics.lengthRatio / thresholds.minLengthRatio
+				: metrics.lengthRatio > thresholds.maxLengthRatio
+				? thresholds.maxLengthRatio / metrics.lengthRatio
+				: 1;
+
+		const components: Array<[number, number]> = [
+			[clamp(metrics.readingEase / 60), 0.15],
+			[
+				clamp(
+					metrics.headingCoverage * 0.7 + (metrics.headingCount > 0 ? 0.3 : 0)
+				),
+				0.2,
+			],
+			[clamp(length), 0.2],
+			[
+				clamp(
+					1 -
+						metrics.referenceOverlap /
+							Math.max(0.01, thresholds.maxReferenceOverlap * 2)
+				),
+				0.25,
+			],
+			[clamp(metrics.entityRetention), 0.2],
+		];
+
+		return Math.round(
+			components.reduce((sum, [value, weight]) => sum + value * weight, 0) * 100
+		);
+	}
+
+	/**
+	 * Output that stops mid-sentence or inside a code block
+	 */
+	private isTruncated(markdown: string): boolean {
+		if ((markdown.match(/^\s*```/gm) || []).length % 2 === 1) return true;
+
+		const lastLine = markdown.trim().split("\n").pop()?.trim() || "";
+
+		// Headings, list items, tables, quotes and code end without punctuation
+		if (/^(#|[-*+]\s|\d+[.)]\s|\||>|```|<!--)/.test(lastLine)) return false;
+
+		return !/[.!?:;"'”’)\]*_`]$/.test(lastLine);
+	}
+
+	private readability(
+		text: string,
+		words: string[]
+	): { readingEase: number; gradeLevel: number } {
+		if (words.length === 0) return { readingEase: 0, gradeLevel: 0 };
+
+		const sentences = Math.max(
+			1,
+			text.split(/[.!?]+(?:\s|$)|\n{2,}/).filter((part) => /\w/.test(part))
+				.length
+		);
+		const syllables = words.reduce(
+			(sum, word) => sum + this.syllables(word),
+			0
+		);
+		const wordsPerSentence = words.length / sentences;
+		const syllablesPerWord = syllables / words.length;
+
+		return {
+			readingEase: this.round(
+				206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord,
+				1
+			),
+			gradeLevel: this.round(
+				0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59,
+				1
+			),
+		};
+	}
+
+	private syllables(word: string): number {
+		const normalized = word.toLowerCase().replace(/[^a-z]/g, "");
+		if (normalized.length <= 3) return 1;
+
+		const groups = normalized
+			.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "")
+			.replace(/^y/, "")
+			.match(/[aeiouy]{1,2}/g);
+
+		return Math.max(1, groups?.length || 0);
+	}
+
+	/**
+	 * Share of the original's headings with at least half of their
+	 * significant words in the output (1 if the original has none)
+	 */
+	private headingCoverage(
+		originalMarkdown: string,
+		outputText: string
+	): number {
+		const headings = contentChunker
+			.outline(originalMarkdown)
+			.map((entry) => entry.replace(/^\s*-\s*/, ""));
+
+		if (headings.length === 0) return 1;
+
+		const outputWords = new Set(this.words(outputText.toLowerCase()));
+		const covered = headings.filter((heading) => {
+			const terms = this.words(heading.toLowerCase()).filter(
+				(word) => word.length > 3
+			);
+			if (terms.length === 0) return true;
+
+			const found = terms.filter((term) => outputWords.has(term)).length;
+			return found / terms.length >= 0.5;
+		});
+
+		return this.round(covered.length / headings.length);
+	}
+
+	/**
+	 * Names (capitalized words not starting a sentence), acronyms and
+	 * figures of the original's body text, most frequent first, and which of
+	 * them the output keeps
+	 */
+	private entityRetention(
+		originalText: string,
+		outputText: string
+	): { retention: number; missing: string[] } {
+		const counts = new Map<string, number>();
+		const pattern =
+			/(?<![.!?]\s|^)\b(?:[A-Z][a-zA-Z0-9]+(?:[ \t]+[A-Z][a-zA-Z0-9]+)*|[A-Z]{2,}[a-z]?|\d[\d,.]*\d%?)\b/gm;
+
+		for (const match of originalText.match(pattern) || []) {
+			counts.set(match, (counts.get(match) || 0) + 1);
+		}
+
+		const entities = [...counts.entries()]
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, this.entityLimit)
+			.map(([entity]) => entity);
+
+		if (entities.length === 0) return { retention: 1, missing: [] };
+
+		const output = outputText.toLowerCase();
+		const missing = entities.filter(
+			(entity) => !output.includes(entity.toLowerCase())
+		);
+
+		return {
+			retention: this.round(1 - missing.length / entities.length),
+			missing,
+		};
+	}
+
+	/**
+	 * Language whose most common words make up the largest share of the
+	 * text, or "unknown" for short or unrecognized text
+	 */
+	private detectLanguage(words: string[]): string {
+		if (words.length < 30) return "unknown";
+
+		const counts = new Map<string, number>();
+		for (const word of words) {
+			const lower = word.toLowerCase();
+			counts.set(lower, (counts.get(lower) || 0) + 1);
+		}
+
+		const [best] = Object.entries(LANGUAGE_MARKERS)
+			.map(([language, markers]) => ({
+				language,
+				share:
+					markers.reduce((sum, marker) => sum + (counts.get(marker) || 0), 0) /
+					words.length,
+			}))
+			.sort((a, b) => b.share - a.share);
+
+		return best.share >= 0.05 ? best.language : "unknown";
+	}
+
+	private words(text: string): string[] {
+		return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+	}
+
+	private round(value: number, digits = 2): number {
+		const factor = 10 ** digits;
+		return Math.round(value * factor) / factor;
+	}
+}
+
+export default new ArticleQualityService();
+export {
+	HARD_ISSUES,
+	QualityError,
+	QualityInput,
+	QualityIssue,
+	QualityMetrics,
+	QualityReport,
+	QualityStatus,
+};
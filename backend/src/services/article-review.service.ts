@@ -0,0 +1,223 @@
+import mongoose from "mongoose";
+import Article, {
+	IArticle,
+	ReviewActor,
+	ReviewStatus,
+} from "../models/Article";
+import { UserRole } from "../models/User";
+import authService, { AuthContext } from "./auth.service";
+
+interface ReviewTransition {
+	to: ReviewStatus;
+	/** Minimum role allowed to make the move */
+	role: UserRole;
+}
+
+class ArticleReviewError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "ArticleReviewError";
+		Object.setPrototypeOf(this, ArticleReviewError.prototype);
+	}
+}
+
+// Editors write and submit; approving or rejecting someone's work takes an
+// admin. Approved and published versions go back to draft to be changed.
+const TRANSITIONS: Record<ReviewStatus, ReviewTransition[]> = {
+	draft: [{ to: "in_review", role: "editor" }],
+	in_review: [
+		{ to: "approved", role: "admin" },
+		{ to: "rejected", role: "admin" },
+		{ to: "draft", role: "editor" },
+	],
+	approved: [
+		{ to: "published", role: "editor" },
+		{ to: "rejected", role: "admin" },
+		{ to: "draft", role: "editor" },
+	],
+	published: [{ to: "draft", role: "editor" }],
+	rejected: [{ to: "draft", role: "editor" }],
+};
+
+// Who reviewed a version and what was said about it; left out of public
+// article responses and only served by GET /api/articles/:id/review
+const PRIVATE_REVIEW_FIELDS = {
+	comments: 0,
+	"review.history": 0,
+	"review.updatedBy": 0,
+	"review.rejectionReason": 0,
+} as const;
+
+// Content changes would bypass the review they passed
+const LOCKED_STATUSES: ReviewStatus[] = ["approved", "published"];
+
+class ArticleReviewService {
+	/**
+	 * Review state of a version; versions from before the workflow count as
+	 * published or draft
+	 */
+	statusOf(article: IArticle): ReviewStatus {
+		return (
+			article.review?.status || (article.isPublished ? "published" : "draft")
+		);
+	}
+
+	/**
+	 * Moves available from the version's current state
+	 */
+	nextStatuses(article: IArticle): ReviewTransition[] {
+		return TRANSITIONS[this.statusOf(article)];
+	}
+
+	/**
+	 * Find an optimized version
+	 * @throws ArticleReviewError if the article is missing or an original
+	 */
+	async getVersion(id: string): Promise<IArticle> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new ArticleReviewError("Invalid article ID", 400);
+		}
+
+		const article = await Article.findById(id);
+
+		if (!article) {
+			throw new ArticleReviewError("Article not found", 404);
+		}
+
+		if (article.isOriginal || !article.originalArticleId) {
+			throw new ArticleReviewError(
+				"Only optimized versions go through review",
+				400
+			);
+		}
+
+		return article;
+	}
+
+	/**
+	 * Refuse content edits to versions that were approved or published
+	 * @throws ArticleReviewError (409) if the version is locked
+	 */
+	async assertEditable(id: string): Promise<void> {
+		const article = await Article.findById(id).select(
+			"isOriginal isPublished review.status"
+		);
+
+		if (!article || article.isOriginal) return;
+
+		const status = this.statusOf(article);
+		if (LOCKED_STATUSES.includes(status)) {
+			throw new ArticleReviewError(
+				`Version is ${status}; move it back to draft before editing`,
+				409
+			);
+		}
+	}
+
+	/**
+	 * Move a version to another review state. Publishing makes it the
+	 * original's published version, returning any previously published one
+	 * to approved.
+	 * @throws ArticleReviewError if the move is not allowed
+	 */
+	async transition(
+		article: IArticle,
+		to: ReviewStatus,
+		auth?: AuthContext,
+		reason?: string
+	): Promise<IArticle> {
+		const from = this.statusOf(article);
+		const allowed = TRANSITIONS[from].find(
+			(transition) => transition.to === to
+		);
+
+		if (!allowed) {
+			throw new ArticleReviewError(
+				`Cannot move a version from ${from} to ${to}`,
+				409
+			);
+		}
+
+		if (!auth || !authService.hasRole(auth.role, allowed.role)) {
+			throw new ArticleReviewError(
+				`Moving a version to ${to} requires the ${allowed.role} role`,
+				403
+			);
+		}
+
+		if (to === "rejected" && !reason?.trim()) {
+			throw new ArticleReviewError("A reason is required to reject", 400);
+		}
+
+		const by = this.actorOf(auth);
+		const at = new Date();
+
+		article.set("review", {
+			status: to,
+			rejectionReason: to === "rejected" ? reason!.trim() : undefined,
+			updatedAt: at,
+			updatedBy: by,
+			history: [
+				...(article.review?.history || []),
+				{ from, to, reason: reason?.trim() || undefined, by, at },
+			],
+		});
+		article.isPublished = to === "published";
+		await article.save();
+
+		if (to === "published") {
+			await Article.updateMany(
+				{
+					originalArticleId: article.originalArticleId,
+					_id: { $ne: article._id },
+					isPublished: true,
+				},
+				{ $set: { isPublished: false, "review.status": "approved" } }
+			);
+			await Article.updateOne(
+				{ _id: article.originalArticleId },
+				{ $set: { publishedVersionId: article._id } }
+			);
+		} else if (from === "published") {
+			await Article.updateOne(
+				{ _id: article.originalArticleId, publishedVersionId: article._id },
+				{ $unset: { publishedVersionId: 1 } }
+			);
+		}
+
+		return article;
+	}
+
+	/**
+	 * Leave a comment on a version
+	 * @returns The comment as stored
+	 */
+	async addComment(
+		article: IArticle,
+		body: string,
+		auth?: AuthContext
+	): Promise<NonNullable<IArticle["comments"]>[number]> {
+		article.comments = article.comments || [];
+		article.comments.push({
+			body,
+			author: this.actorOf(auth),
+			createdAt: new Date(),
+		} as NonNullable<IArticle["comments"]>[number]);
+		await article.save();
+
+		return article.comments[article.comments.length - 1];
+	}
+
+	private actorOf(auth?: AuthContext): ReviewActor | undefined {
+		return (
+			auth && {
+				userId: auth.user._id as mongoose.Types.ObjectId,
+				email: auth.user.email,
+				name: auth.user.name,
+			}
+		);
+	}
+}
+
+export default new ArticleReviewService();
+export { ArticleReviewError, PRIVATE_REVIEW_FIELDS, ReviewTransition };
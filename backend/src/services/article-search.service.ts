@@ -0,0 +1,277 @@
+import { QueryFilter, PipelineStage, SortOrder } from "mongoose";
+import Article, { IArticle } from "../models/Article";
+
+type QueryValue = string | string[] | undefined;
+
+interface ArticleSearchQuery {
+	q?: QueryValue;
+	isOriginal?: QueryValue;
+	author?: QueryValue;
+	publishedFrom?: QueryValue;
+	publishedTo?: QueryValue;
+	minWordCount?: QueryValue;
+	maxWordCount?: QueryValue;
+	minReadingTime?: QueryValue;
+	maxReadingTime?: QueryValue;
+	hasOptimized?: QueryValue;
+	quality?: QueryValue;
+	sortBy?: QueryValue;
+	order?: QueryValue;
+}
+
+interface FacetBucket {
+	value: string;
+	count: number;
+}
+
+interface ArticleFacets {
+	authors: FacetBucket[];
+	months: FacetBucket[];
+	type: {
+		original: number;
+		optimized: number;
+	};
+}
+
+class ArticleQueryError extends Error {
+	constructor(message: string, public readonly statusCode: number = 400) {
+		super(message);
+		this.name = "ArticleQueryError";
+		Object.setPrototypeOf(this, ArticleQueryError.prototype);
+	}
+}
+
+class ArticleSearchService {
+	private readonly sortableFields: Record<string, string> = {
+		createdAt: "createdAt",
+		updatedAt: "updatedAt",
+		publishedDate: "publishedDate",
+		scrapedAt: "scrapedAt",
+		title: "title",
+		author: "author",
+		wordCount: "metadata.wordCount",
+		readingTime: "metadata.readingTime",
+		qualityScore: "quality.score",
+	};
+	private readonly authorFacetLimit = 20;
+
+	/**
+	 * Build a Mongo filter from GET /api/articles query params
+	 * @throws ArticleQueryError if a param is malformed
+	 */
+	async buildFilter(query: ArticleSearchQuery): Promise<QueryFilter<IArticle>> {
+		const filter: QueryFilter<IArticle> = {};
+
+		const q = this.single(query.q)?.trim();
+		if (q) {
+			filter.$text = { $search: q };
+		}
+
+		const isOriginal = this.parseBoolean(query.isOriginal, "isOriginal");
+		if (isOriginal !== undefined) {
+			filter.isOriginal = isOriginal;
+		}
+
+		const authors = this.list(query.author);
+		if (authors.length > 0) {
+			filter.author = { $in: authors };
+		}
+
+		const publishedDate = this.range(
+			this.parseDate(query.publishedFrom, "publishedFrom"),
+			this.parseDate(query.publishedTo, "publishedTo")
+		);
+		if (publishedDate) {
+			filter.publishedDate = publishedDate;
+		}
+
+		const wordCount = this.range(
+			this.parseNumber(query.minWordCount, "minWordCount"),
+			this.parseNumber(query.maxWordCount, "maxWordCount")
+		);
+		if (wordCount) {
+			filter["metadata.wordCount"] = wordCount;
+		}
+
+		const readingTime = this.range(
+			this.parseNumber(query.minReadingTime, "minReadingTime"),
+			this.parseNumber(query.maxReadingTime, "maxReadingTime")
+		);
+		if (readingTime) {
+			filter["metadata.readingTime"] = readingTime;
+		}
+
+		const hasOptimized = this.parseBoolean(query.hasOptimized, "hasOptimized");
+		if (hasOptimized !== undefined) {
+			// Only originals have optimized versions
+			if (isOriginal === false) {
+				throw new ArticleQueryError(
+					"hasOptimized cannot be combined with isOriginal=false"
+				);
+			}
+
+			const optimizedIds = await Article.distinct("originalArticleId", {
+				isOriginal: false,
+			});
+
+			filter.isOriginal = true;
+			filter._id = hasOptimized
+				? { $in: optimizedIds }
+				: { $nin: optimizedIds };
+		}
+
+		const quality = this.list(query.quality);
+		if (quality.length > 0) {
+			filter["quality.status"] = { $in: quality };
+		}
+
+		return filter;
+	}
+
+	/**
+	 * Resolve sortBy/order against the whitelist of sortable fields. Text
+	 * searches sort by relevance unless another field is requested.
+	 * @throws ArticleQueryError if sortBy is not sortable
+	 */
+	buildSort(
+		query: ArticleSearchQuery
+	): Record<string, SortOrder | { $meta: "textScore" }> {
+		const hasText = Boolean(this.single(query.q)?.trim());
+		const sortBy =
+			this.single(query.sortBy) || (hasText ? "relevance" : "createdAt");
+		const sortOrder: SortOrder = this.single(query.order) === "asc" ? 1 : -1;
+
+		if (sortBy === "relevance") {
+			if (!hasText) {
+				throw new ArticleQueryError("sortBy=relevance requires a q parameter");
+			}
+			return { score: { $meta: "textScore" }, createdAt: -1 };
+		}
+
+		const field = this.sortableFields[sortBy];
+		if (!field) {
+			throw new ArticleQueryError(
+				`sortBy must be one of: ${[
+					...Object.keys(this.sortableFields),
+					"relevance",
+				].join(", ")}`
+			);
+		}
+
+		return { [field]: sortOrder };
+	}
+
+	/**
+	 * Count matching articles per author, per publication month and per
+	 * original/optimized type
+	 */
+	async getFacets(filter: QueryFilter<IArticle>): Promise<ArticleFacets> {
+		const pipeline: PipelineStage[] = [
+			{ $match: filter },
+			{
+				$facet: {
+					authors: [
+						{ $match: { author: { $nin: [null, ""] } } },
+						{ $group: { _id: "$author", count: { $sum: 1 } } },
+						{ $sort: { count: -1, _id: 1 } },
+						{ $limit: this.authorFacetLimit },
+					],
+					months: [
+						{ $match: { publishedDate: { $type: "date" } } },
+						{
+							$group: {
+								_id: {
+									$dateToString: { format: "%Y-%m", date: "$publishedDate" },
+								},
+								count: { $sum: 1 },
+							},
+						},
+						{ $sort: { _id: -1 } },
+					],
+					type: [{ $group: { _id: "$isOriginal", count: { $sum: 1 } } }],
+				},
+			},
+		];
+
+		const [result] = await Article.aggregate(pipeline);
+
+		const toBuckets = (buckets: Array<{ _id: string; count: number }>) =>
+			buckets.map((bucket) => ({ value: bucket._id, count: bucket.count }));
+
+		const typeCount = (isOriginal: boolean) =>
+			result.type.find(
+				(bucket: { _id: boolean; count: number }) => bucket._id === isOriginal
+			)?.count || 0;
+
+		return {
+			authors: toBuckets(result.authors),
+			months: toBuckets(result.months),
+			type: {
+				original: typeCount(true),
+				optimized: typeCount(false),
+			},
+		};
+	}
+
+	private single(value: QueryValue): string | undefined {
+		return Array.isArray(value) ? value[0] : value;
+	}
+
+	private list(value: QueryValue): string[] {
+		const values = Array.isArray(value) ? value : value ? [value] : [];
+
+		return values
+			.flatMap((item) => item.split(","))
+			.map((item) => item.trim())
+			.filter(Boolean);
+	}
+
+	private parseBoolean(value: QueryValue, name: string): boolean | undefined {
+		const raw = this.single(value);
+		if (raw === undefined || raw === "") return undefined;
+		if (raw === "true") return true;
+		if (raw === "false") return false;
+
+		throw new ArticleQueryError(`${name} must be "true" or "false"`);
+	}
+
+	private parseNumber(value: QueryValue, name: string): number | undefined {
+		const raw = this.single(value);
+		if (raw === undefined || raw === "") return undefined;
+
+		const parsed = Number(raw);
+		if (!Number.isFinite(parsed) || parsed < 0) {
+			throw new ArticleQueryError(`${name} must be a non-negative number`);
+		}
+
+		return parsed;
+	}
+
+	private parseDate(value: QueryValue, name: string): Date | undefined {
+		const raw = this.single(value);
+		if (raw === undefined || raw === "") return undefined;
+
+		const parsed = new Date(raw);
+		if (Number.isNaN(parsed.getTime())) {
+			throw new ArticleQueryError(`${name} must be a valid date`);
+		}
+
+		return parsed;
+	}
+
+	private range<T>(
+		min: T | undefined,
+		max: T | undefined
+	): { $gte?: T; $lte?: T } | undefined {
+		if (min === undefined && max === undefined) return undefined;
+
+		const range: { $gte?: T; $lte?: T } = {};
+		if (min !== undefined) range.$gte = min;
+		if (max !== undefined) range.$lte = max;
+
+		return range;
+	}
+}
+
+export default new ArticleSearchService();
+export { ArticleFacets, ArticleQueryError, ArticleSearchQuery, FacetBucket };
@@ -0,0 +1,337 @@
+import mongoose from "mongoose";
+import Article, { IArticle } from "../models/Article";
+import articleDiffService, {
+	SectionDiff,
+	WordDiff,
+} from "./article-diff.service";
+import articleReviewService, {
+	PRIVATE_REVIEW_FIELDS,
+} from "./article-review.service";
+import { AuthContext } from "./auth.service";
+import originalityService, { OriginalityReport } from "./originality.service";
+import referenceSourceService from "./reference-source.service";
+
+interface ResolvedVersion {
+	version: number;
+	article: IArticle;
+	text: string;
+}
+
+interface VersionDiff {
+	from: { version: number; articleId: string; title: string };
+	to: { version: number; articleId: string; title: string };
+	words: WordDiff;
+	sections: SectionDiff[];
+}
+
+interface StaleOptimization {
+	original: { _id: string; title: string; url: string; scrapedAt?: Date };
+	latestVersion: {
+		_id: string;
+		title: string;
+		version?: number;
+		generation?: IArticle["generation"];
+		staleSince?: Date;
+		createdAt: Date;
+	};
+}
+
+interface VersionOriginality extends OriginalityReport {
+	articleId: string;
+	missingReferences: string[];
+}
+
+class ArticleVersionError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "ArticleVersionError";
+		Object.setPrototypeOf(this, ArticleVersionError.prototype);
+	}
+}
+
+class ArticleVersionService {
+	/**
+	 * Find the original article for an ID. Optimized versions resolve to
+	 * the original they were generated from.
+	 * @throws ArticleVersionError if the article does not exist
+	 */
+	async getOriginal(id: string): Promise<IArticle> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new ArticleVersionError("Invalid article ID", 400);
+		}
+
+		const article = await Article.findById(id);
+
+		if (!article) {
+			throw new ArticleVersionError("Article not found", 404);
+		}
+
+		if (article.isOriginal || !article.originalArticleId) {
+			return article;
+		}
+
+		const original = await Article.findById(article.originalArticleId);
+
+		if (!original) {
+			throw new ArticleVersionError("Original article not found", 404);
+		}
+
+		return original;
+	}
+
+	/**
+	 * List the optimized versions of an original, oldest first
+	 */
+	async listVersions(original: IArticle): Promise<IArticle[]> {
+		await this.assignMissingVersionNumbers(original);
+
+		return Article.find({ originalArticleId: original._id })
+			.sort({ version: 1 })
+			.select({ content: 0, ...PRIVATE_REVIEW_FIELDS });
+	}
+
+	/**
+	 * Resolve a version reference: "original" or "0" for the original
+	 * content, otherwise an optimized version number
+	 * @throws ArticleVersionError if the reference is malformed or unknown
+	 */
+	async resolveVersion(
+		original: IArticle,
+		reference: string
+	): Promise<ResolvedVersion> {
+		if (reference === "original" || reference === "0") {
+			return { version: 0, article: original, text: original.content };
+		}
+
+		const version = Number(reference);
+		if (!Number.isInteger(version) || version < 1) {
+			throw new ArticleVersionError(
+				`Invalid version "${reference}", expected "original" or a version number`,
+				400
+			);
+		}
+
+		await this.assignMissingVersionNumbers(original);
+
+		const article = await Article.findOne({
+			originalArticleId: original._id,
+			version,
+		});
+
+		if (!article) {
+			throw new ArticleVersionError(`Version ${version} not found`, 404);
+		}
+
+		return {
+			version,
+			article,
+			text: article.updatedContent || article.content,
+		};
+	}
+
+	/**
+	 * Word-level and markdown-section-level diff between two versions
+	 */
+	async diff(
+		original: IArticle,
+		fromReference: string,
+		toReference: string
+	): Promise<VersionDiff> {
+		const [from, to] = await Promise.all([
+			this.resolveVersion(original, fromReference),
+			this.resolveVersion(original, toReference),
+		]);
+
+		const describe = (resolved: ResolvedVersion) => ({
+			version: resolved.version,
+			articleId: String(resolved.article._id),
+			title: resolved.article.title,
+		});
+
+		return {
+			from: describe(from),
+			to: describe(to),
+			words: articleDiffService.diffWords(from.text, to.text),
+			sections: articleDiffService.diffSections(from.text, to.text),
+		};
+	}
+
+	/**
+	 * Check an optimized version for passages copied verbatim from the
+	 * reference articles it was generated from
+	 * @throws ArticleVersionError if the article is missing or not optimized
+	 */
+	async originality(id: string): Promise<VersionOriginality> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new ArticleVersionError("Invalid article ID", 400);
+		}
+
+		const article = await Article.findById(id);
+
+		if (!article) {
+			throw new ArticleVersionError("Article not found", 404);
+		}
+
+		if (article.isOriginal || !article.updatedContent) {
+			throw new ArticleVersionError(
+				"Originality can only be checked for optimized versions",
+				400
+			);
+		}
+
+		const references = article.references || [];
+		const snapshots = await referenceSourceService.getContents(
+			references.flatMap((reference) =>
+				reference.sourceId ? [reference.sourceId] : []
+			)
+		);
+		const stored = references.filter((reference) =>
+			snapshots.has(String(reference.sourceId))
+		);
+
+		// The appended references section quotes titles, not copied text
+		const text = article.updatedContent.replace(
+			/\n+## References\n[\s\S]*$/,
+			""
+		);
+
+		return {
+			articleId: String(article._id),
+			...originalityService.compare(
+				text,
+				stored.map((reference) => ({
+					url: reference.url,
+					title: reference.title,
+					content: snapshots.get(String(reference.sourceId))!.content || "",
+				}))
+			),
+			missingReferences: references
+				.filter((reference) => !snapshots.has(String(reference.sourceId)))
+				.map((reference) => reference.url),
+		};
+	}
+
+	/**
+	 * Mark one optimized version as the published one for its original. The
+	 * version must have been approved.
+	 * @returns The published version
+	 */
+	async publish(
+		original: IArticle,
+		reference: string,
+		auth?: AuthContext
+	): Promise<IArticle> {
+		const { version, article } = await this.resolveVersion(original, reference);
+
+		if (version === 0) {
+			throw new ArticleVersionError(
+				"Only optimized versions can be published",
+				400
+			);
+		}
+
+		return articleReviewService.transition(article, "published", auth);
+	}
+
+	/**
+	 * List originals whose latest optimized version was generated from content
+	 * that has since changed, most recently outdated first
+	 */
+	async listStale(
+		page: number,
+		limit: number
+	): Promise<{ items: StaleOptimization[]; total: number }> {
+		const [result] = await Article.aggregate<{
+			items: StaleOptimization[];
+			total: Array<{ count: number }>;
+		}>([
+			{ $match: { isOriginal: false, originalArticleId: { $exists: true } } },
+			{ $sort: { version: -1, createdAt: -1 } },
+			{ $group: { _id: "$originalArticleId", latest: { $first: "$$ROOT" } } },
+			{ $match: { "latest.isStale": true } },
+			{
+				$facet: {
+					items: [
+						{ $sort: { "latest.staleSince": -1, _id: 1 } },
+						{ $skip: (page - 1) * limit },
+						{ $limit: limit },
+						{
+							$lookup: {
+								from: Article.collection.name,
+								localField: "_id",
+								foreignField: "_id",
+								as: "original",
+							},
+						},
+						{ $unwind: "$original" },
+						{
+							$project: {
+								_id: 0,
+								original: {
+									_id: "$original._id",
+									title: "$original.title",
+									url: "$original.url",
+									scrapedAt: "$original.scrapedAt",
+								},
+								latestVersion: {
+									_id: "$latest._id",
+									title: "$latest.title",
+									version: "$latest.version",
+									generation: "$latest.generation",
+									staleSince: "$latest.staleSince",
+									createdAt: "$latest.createdAt",
+								},
+							},
+						},
+					],
+					total: [{ $count: "count" }],
+				},
+			},
+		]);
+
+		return {
+			items: result?.items || [],
+			total: result?.total[0]?.count || 0,
+		};
+	}
+
+	/**
+	 * Number versions created before version tracking existed, in creation
+	 * order after the highest existing version
+	 */
+	private async assignMissingVersionNumbers(original: IArticle): Promise<void> {
+		const unnumbered = await Article.find({
+			originalArticleId: original._id,
+			version: { $exists: false },
+		})
+			.sort({ createdAt: 1 })
+			.select("_id");
+
+		if (unnumbered.length === 0) return;
+
+		const latest = await Article.findOne({
+			originalArticleId: original._id,
+			version: { $exists: true },
+		})
+			.sort({ version: -1 })
+			.select("version");
+
+		let next = (latest?.version || 0) + 1;
+
+		for (const article of unnumbered) {
+			await Article.updateOne(
+				{ _id: article._id },
+				{ $set: { version: next++ } }
+			);
+		}
+	}
+}
+
+export default new ArticleVersionService();
+export {
+	ArticleVersionError,
+	ResolvedVersion,
+	StaleOptimization,
+	VersionDiff,
+	VersionOriginality,
+};
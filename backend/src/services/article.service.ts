@@ -0,0 +1,235 @@
+import crypto from "crypto";
+import Article, { IArticle } from "../models/Article";
+import { PageValidators, ScrapedArticle } from "./scraper.service";
+import { OptimizedArticleData } from "./optimization.service";
+import contentExtractorService from "./content-extractor.service";
+
+interface ArticleMetadata {
+	wordCount: number;
+	readingTime: number;
+}
+
+type StoreStatus = "created" | "updated" | "unchanged";
+
+interface OptimizationCounts {
+	originals: number;
+	/** Optimized versions, across all originals */
+	optimized: number;
+	/** Originals with at least one optimized version */
+	optimizedOriginals: number;
+	neverOptimized: number;
+	/** Originals with optimized versions generated from outdated content */
+	stale: number;
+}
+
+interface StoreResult {
+	article: IArticle;
+	status: StoreStatus;
+}
+
+class ArticleService {
+	private readonly wordsPerMinute = 200;
+	private readonly maxSnapshots = 10;
+
+	/**
+	 * Calculate word count and reading time for article content
+	 * @param content Article body (Markdown syntax is not counted)
+	 * @returns Article metadata
+	 */
+	calculateMetadata(content?: string): ArticleMetadata {
+		const text = content ? contentExtractorService.toPlainText(content) : "";
+		const wordCount = text ? text.split(/\s+/).length : 0;
+		const readingTime = Math.ceil(wordCount / this.wordsPerMinute);
+
+		return {
+			wordCount,
+			readingTime,
+		};
+	}
+
+	/**
+	 * Hash article content, ignoring whitespace differences
+	 */
+	hashContent(content: string): string {
+		return crypto
+			.createHash("sha256")
+			.update(content.replace(/\s+/g, " ").trim())
+			.digest("hex");
+	}
+
+	/**
+	 * Store a scraped article, or update the stored original if its content
+	 * changed. The previous content is kept as a snapshot and optimized
+	 * versions generated from other content are flagged as stale; versions
+	 * generated from the new content (e.g. when it changed back) are not.
+	 * @param articleData Scraped article data
+	 * @returns Stored article and whether it was created, updated or unchanged
+	 */
+	async storeScrapedArticle(articleData: ScrapedArticle): Promise<StoreResult> {
+		const contentHash = this.hashContent(articleData.content);
+		const existing = await Article.findOne({
+			url: articleData.url,
+			isOriginal: true,
+		});
+
+		if (!existing) {
+			const article = await this.saveScrapedArticle(articleData);
+			return { article, status: "created" };
+		}
+
+		const now = new Date();
+		const previousHash =
+			existing.contentHash || this.hashContent(existing.content);
+
+		existing.etag = articleData.etag;
+		existing.lastModified = articleData.lastModified;
+		existing.lastCheckedAt = now;
+
+		if (previousHash === contentHash) {
+			existing.contentHash = contentHash;
+			return { article: await existing.save(), status: "unchanged" };
+		}
+
+		await Article.updateOne(
+			{ _id: existing._id },
+			{
+				$push: {
+					snapshots: {
+						$each: [
+							{
+								title: existing.title,
+								content: existing.content,
+								excerpt: existing.excerpt,
+								contentHash: previousHash,
+								scrapedAt: existing.scrapedAt,
+								replacedAt: now,
+							},
+						],
+						$slice: -this.maxSnapshots,
+					},
+				},
+			}
+		);
+
+		existing.set({
+			title: articleData.title,
+			content: articleData.content,
+			excerpt: articleData.excerpt,
+			author: articleData.author,
+			publishedDate: articleData.publishedDate,
+			media: articleData.media,
+			contentHash,
+			scrapedAt: now,
+			metadata: this.calculateMetadata(articleData.content),
+		});
+		const article = await existing.save();
+
+		await Article.updateMany(
+			{
+				originalArticleId: existing._id,
+				sourceContentHash: { $ne: contentHash },
+				isStale: { $ne: true },
+			},
+			{ $set: { isStale: true, staleSince: now } }
+		);
+		await Article.updateMany(
+			{
+				originalArticleId: existing._id,
+				sourceContentHash: contentHash,
+				isStale: true,
+			},
+			{ $set: { isStale: false }, $unset: { staleSince: 1 } }
+		);
+
+		return { article, status: "updated" };
+	}
+
+	/**
+	 * Record a re-scrape that the server answered with 304 Not Modified
+	 */
+	async markChecked(url: string, validators: PageValidators): Promise<void> {
+		await Article.updateOne(
+			{ url, isOriginal: true },
+			{
+				$set: {
+					lastCheckedAt: new Date(),
+					...(validators.etag && { etag: validators.etag }),
+					...(validators.lastModified && {
+						lastModified: validators.lastModified,
+					}),
+				},
+			}
+		);
+	}
+
+	/**
+	 * Store a freshly scraped article as an original
+	 * @param articleData Scraped article data
+	 * @returns Saved article
+	 * @throws Error if an article with the same URL already exists
+	 */
+	async saveScrapedArticle(articleData: ScrapedArticle): Promise<IArticle> {
+		const existingArticle = await Article.findOne({
+			url: articleData.url,
+		});
+
+		if (existingArticle) {
+			throw new Error("Article already exists");
+		}
+
+		const article = new Article({
+			...articleData,
+			isOriginal: true,
+			contentHash: this.hashContent(articleData.content),
+			lastCheckedAt: new Date(),
+			metadata: this.calculateMetadata(articleData.content),
+		});
+
+		return article.save();
+	}
+
+	/**
+	 * Store an optimized version produced by the optimization pipeline
+	 * @param optimizedData Optimized article data
+	 * @returns Saved article
+	 */
+	async saveOptimizedVersion(
+		optimizedData: OptimizedArticleData
+	): Promise<IArticle> {
+		const article = new Article({
+			...optimizedData,
+			sourceContentHash: this.hashContent(optimizedData.content),
+			metadata: this.calculateMetadata(optimizedData.updatedContent),
+		});
+
+		return article.save();
+	}
+
+	/**
+	 * How many originals have been optimized, and how many not yet
+	 */
+	async countByOptimization(): Promise<OptimizationCounts> {
+		const [originals, optimized, optimizedOriginals, stale] = await Promise.all(
+			[
+				Article.countDocuments({ isOriginal: true }),
+				Article.countDocuments({ isOriginal: false }),
+				Article.distinct("originalArticleId", { isOriginal: false }),
+				Article.distinct("originalArticleId", {
+					isOriginal: false,
+					isStale: true,
+				}),
+			]
+		);
+
+		return {
+			originals,
+			optimized,
+			optimizedOriginals: optimizedOriginals.length,
+			neverOptimized: Math.max(originals - optimizedOriginals.length, 0),
+			stale: stale.length,
+		};
+	}
+}
+
+export default new ArticleService();
+export { ArticleMetadata, OptimizationCounts, StoreResult, StoreStatus };
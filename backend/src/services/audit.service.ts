@@ -0,0 +1,86 @@
+import { Request } from "express";
+import { QueryFilter } from "mongoose";
+import AuditLog, {
+	AuditAction,
+	AuditResource,
+	IAuditLog,
+} from "../models/AuditLog";
+
+interface AuditListOptions {
+	page: number;
+	limit: number;
+	resourceType?: string;
+	resourceId?: string;
+	userId?: string;
+	action?: string;
+}
+
+class AuditService {
+	/**
+	 * Record who did what to which resource. Failures are logged, never
+	 * thrown, so auditing cannot break the action being audited.
+	 * @param req Request, for the authenticated actor and client IP
+	 * @param action What was done
+	 * @param resourceType Kind of resource
+	 * @param resourceId ID of the resource
+	 * @param details Extra context, e.g. the changed fields
+	 */
+	async record(
+		req: Request,
+		action: AuditAction,
+		resourceType: AuditResource,
+		resourceId?: unknown,
+		details?: Record<string, any>
+	): Promise<void> {
+		const { auth } = req;
+
+		try {
+			await AuditLog.create({
+				action,
+				resourceType,
+				resourceId: resourceId === undefined ? undefined : String(resourceId),
+				actor: auth && {
+					userId: auth.user._id,
+					email: auth.user.email,
+					via: auth.via,
+					apiKeyId: auth.apiKeyId,
+				},
+				details,
+				ip: req.ip,
+			});
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			console.error(
+				`Error recording audit entry for ${action} ${resourceType}:`,
+				errorMessage
+			);
+		}
+	}
+
+	/**
+	 * List audit entries, newest first
+	 */
+	async list(
+		options: AuditListOptions
+	): Promise<{ entries: IAuditLog[]; total: number }> {
+		const filter: QueryFilter<IAuditLog> = {};
+
+		if (options.resourceType) filter.resourceType = options.resourceType;
+		if (options.resourceId) filter.resourceId = options.resourceId;
+		if (options.userId) filter["actor.userId"] = options.userId;
+		if (options.action) filter.action = options.action;
+
+		const [entries, total] = await Promise.all([
+			AuditLog.find(filter)
+				.sort({ createdAt: -1 })
+				.skip((options.page - 1) * options.limit)
+				.limit(options.limit),
+			AuditLog.countDocuments(filter),
+		]);
+
+		return { entries, total };
+	}
+}
+
+export default new AuditService();
@@ -0,0 +1,357 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import User, { IUser, USER_ROLES, UserRole } from "../models/User";
+import ApiKey, { IApiKey } from "../models/ApiKey";
+
+interface AuthContext {
+	user: IUser;
+	role: UserRole;
+	via: "session" | "api-key";
+	apiKeyId?: mongoose.Types.ObjectId;
+}
+
+interface RegisterInput {
+	email?: string;
+	name?: string;
+	password?: string;
+	role?: string;
+}
+
+interface ApiKeyInput {
+	name?: string;
+	role?: string;
+	expiresInDays?: number;
+}
+
+class AuthError extends Error {
+	constructor(message: string, public readonly statusCode: number = 401) {
+		super(message);
+		this.name = "AuthError";
+		Object.setPrototypeOf(this, AuthError.prototype);
+	}
+}
+
+class AuthService {
+	private readonly saltRounds = 12;
+	private readonly minPasswordLength = 8;
+	private readonly apiKeyPrefix = "bck_";
+
+	/**
+	 * Create a user account. The first account becomes an admin; after that
+	 * only admins can create accounts.
+	 * @param input Email, name, password and (for admins) role
+	 * @param actor Authenticated caller, if any
+	 * @throws AuthError on invalid input, duplicate email or missing rights
+	 */
+	async register(input: RegisterInput, actor?: AuthContext): Promise<IUser> {
+		const isFirstUser = (await User.estimatedDocumentCount()) === 0;
+
+		if (!isFirstUser && actor?.role !== "admin") {
+			throw new AuthError("Only admins can create accounts", 403);
+		}
+
+		const email = String(input.email || "")
+			.trim()
+			.toLowerCase();
+		const name = String(input.name || "").trim();
+		const password = String(input.password || "");
+
+		if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+			throw new AuthError("A valid email is required", 400);
+		}
+
+		if (!name) {
+			throw new AuthError("name is required", 400);
+		}
+
+		if (password.length < this.minPasswordLength) {
+			throw new AuthError(
+				`password must be at least ${this.minPasswordLength} characters`,
+				400
+			);
+		}
+
+		if (await User.exists({ email })) {
+			throw new AuthError("An account with this email already exists", 409);
+		}
+
+		const role = isFirstUser ? "admin" : this.parseRole(input.role || "viewer");
+
+		const user = new User({
+			email,
+			name,
+			role,
+			passwordHash: await bcrypt.hash(password, this.saltRounds),
+		});
+
+		return user.save();
+	}
+
+	/**
+	 * Check a user's password and issue a session token
+	 * @returns Signed JWT and the user
+	 * @throws AuthError if the credentials are wrong or the account is disabled
+	 */
+	async login(
+		email: string,
+		password: string
+	): Promise<{ token: string; user: IUser }> {
+		const user = await User.findOne({
+			email: String(email || "")
+				.trim()
+				.toLowerCase(),
+		}).select("+passwordHash");
+
+		const valid =
+			user && (await bcrypt.compare(String(password || ""), user.passwordHash));
+
+		if (!user || !valid) {
+			throw new AuthError("Invalid email or password");
+		}
+
+		if (!user.isActive) {
+			throw new AuthError("Account is disabled", 403);
+		}
+
+		user.lastLoginAt = new Date();
+		await user.save();
+
+		const token = jwt.sign({ role: user.role }, this.getJwtSecret(), {
+			subject: String(user._id),
+			expiresIn: (process.env.JWT_EXPIRES_IN ||
+				"12h") as jwt.SignOptions["expiresIn"],
+		});
+
+		return { token, user };
+	}
+
+	/**
+	 * Resolve a session token. The role comes from the stored user, so role
+	 * changes and deactivation apply to existing sessions.
+	 * @throws AuthError if the token is invalid or expired
+	 */
+	async authenticateToken(token: string): Promise<AuthContext> {
+		let subject: string | undefined;
+
+		try {
+			const payload = jwt.verify(token, this.getJwtSecret());
+			subject = typeof payload === "string" ? undefined : payload.sub;
+		} catch (error) {
+			if (error instanceof AuthError) throw error;
+			throw new AuthError("Invalid or expired token");
+		}
+
+		const user = subject ? await User.findById(subject) : null;
+
+		if (!user || !user.isActive) {
+			throw new AuthError("Invalid or expired token");
+		}
+
+		return { user, role: user.role, via: "session" };
+	}
+
+	/**
+	 * Resolve an API key. A key acts with its own role, capped at its owner's
+	 * current role.
+	 * @throws AuthError if the key is unknown, revoked or expired
+	 */
+	async authenticateApiKey(key: string): Promise<AuthContext> {
+		const apiKey = await ApiKey.findOne({ keyHash: this.hashApiKey(key) });
+
+		if (
+			!apiKey ||
+			apiKey.revokedAt ||
+			(apiKey.expiresAt && apiKey.expiresAt < new Date())
+		) {
+			throw new AuthError("Invalid API key");
+		}
+
+		const user = await User.findById(apiKey.userId);
+
+		if (!user || !user.isActive) {
+			throw new AuthError("Invalid API key");
+		}
+
+		await ApiKey.updateOne(
+			{ _id: apiKey._id },
+			{ $set: { lastUsedAt: new Date() } }
+		);
+
+		const role =
+			this.roleRank(apiKey.role) <= this.roleRank(user.role)
+				? apiKey.role
+				: user.role;
+
+		return { user, role, via: "api-key", apiKeyId: apiKey._id };
+	}
+
+	/**
+	 * Create an API key for a user. The plain key is only returned here.
+	 * @param user Key owner
+	 * @param input Key name, role (default: the owner's role) and lifetime
+	 * @throws AuthError if the role is higher than the owner's
+	 */
+	async createApiKey(
+		user: IUser,
+		input: ApiKeyInput
+	): Promise<{ apiKey: IApiKey; key: string }> {
+		const name = String(input.name || "").trim();
+
+		if (!name) {
+			throw new AuthError("name is required", 400);
+		}
+
+		const role = this.parseRole(input.role || user.role);
+
+		if (this.roleRank(role) > this.roleRank(user.role)) {
+			throw new AuthError(`Cannot create a key with role ${role}`, 403);
+		}
+
+		let expiresAt: Date | undefined;
+		if (input.expiresInDays !== undefined) {
+			const days = Number(input.expiresInDays);
+
+			if (!Number.isInteger(days) || days < 1) {
+				throw new AuthError("expiresInDays must be a positive integer", 400);
+			}
+
+			expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+		}
+
+		const key = `${this.apiKeyPrefix}${crypto.randomBytes(24).toString("hex")}`;
+
+		const apiKey = await ApiKey.create({
+			name,
+			role,
+			expiresAt,
+			userId: user._id,
+			prefix: key.slice(0, this.apiKeyPrefix.length + 6),
+			keyHash: this.hashApiKey(key),
+		});
+
+		return { apiKey, key };
+	}
+
+	/**
+	 * List a user's API keys, newest first
+	 */
+	async listApiKeys(user: IUser): Promise<IApiKey[]> {
+		return ApiKey.find({ userId: user._id }).sort({ createdAt: -1 });
+	}
+
+	/**
+	 * Revoke an API key. Admins can revoke any key, other users their own.
+	 * @throws AuthError if the key does not exist or belongs to someone else
+	 */
+	async revokeApiKey(actor: AuthContext, id: string): Promise<IApiKey> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new AuthError("Invalid API key ID", 400);
+		}
+
+		const apiKey = await ApiKey.findById(id);
+
+		if (
+			!apiKey ||
+			(actor.role !== "admin" && !apiKey.userId.equals(actor.user._id))
+		) {
+			throw new AuthError("API key not found", 404);
+		}
+
+		if (!apiKey.revokedAt) {
+			apiKey.revokedAt = new Date();
+			await apiKey.save();
+		}
+
+		return apiKey;
+	}
+
+	/**
+	 * List all user accounts, oldest first
+	 */
+	async listUsers(): Promise<IUser[]> {
+		return User.find().sort({ createdAt: 1 });
+	}
+
+	/**
+	 * Change a user's role or active flag
+	 * @throws AuthError if the user does not exist, the input is invalid, or
+	 * the change would leave no active admin
+	 */
+	async updateUser(
+		id: string,
+		changes: { role?: string; isActive?: boolean }
+	): Promise<IUser> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new AuthError("Invalid user ID", 400);
+		}
+
+		const user = await User.findById(id);
+
+		if (!user) {
+			throw new AuthError("User not found", 404);
+		}
+
+		if (changes.role !== undefined) {
+			user.role = this.parseRole(changes.role);
+		}
+
+		if (changes.isActive !== undefined) {
+			if (typeof changes.isActive !== "boolean") {
+				throw new AuthError("isActive must be a boolean", 400);
+			}
+			user.isActive = changes.isActive;
+		}
+
+		if (user.isModified("role") || user.isModified("isActive")) {
+			const otherAdmins = await User.countDocuments({
+				_id: { $ne: user._id },
+				role: "admin",
+				isActive: true,
+			});
+
+			if (otherAdmins === 0 && (user.role !== "admin" || !user.isActive)) {
+				throw new AuthError("At least one active admin is required", 409);
+			}
+		}
+
+		return user.save();
+	}
+
+	/**
+	 * Whether a role includes the rights of another (admin > editor > viewer)
+	 */
+	hasRole(role: UserRole, required: UserRole): boolean {
+		return this.roleRank(role) >= this.roleRank(required);
+	}
+
+	private parseRole(value: string): UserRole {
+		if (!USER_ROLES.includes(value as UserRole)) {
+			throw new AuthError(`role must be one of: ${USER_ROLES.join(", ")}`, 400);
+		}
+
+		return value as UserRole;
+	}
+
+	private roleRank(role: UserRole): number {
+		return USER_ROLES.indexOf(role);
+	}
+
+	private hashApiKey(key: string): string {
+		return crypto.createHash("sha256").update(key).digest("hex");
+	}
+
+	private getJwtSecret(): string {
+		const secret = process.env.JWT_SECRET;
+
+		if (!secret) {
+			throw new AuthError("JWT_SECRET is not configured", 500);
+		}
+
+		return secret;
+	}
+}
+
+export default new AuthService();
+export { AuthContext, AuthError };
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import cacheConfig from "../config/cache";
+import { articleChanges } from "../models/Article";
+import { CacheBackend, CacheEntry } from "./cache/cache-backend";
+import MemoryCacheBackend from "./cache/memory.backend";
+
+type CacheNamespace = "articles";
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+/**
+ * Namespaced response cache. Any change to a namespace's data drops all of
+ * its entries, since list responses depend on every document. Backend
+ * failures are logged and treated as misses, never thrown.
+ */
+class CacheService {
+	// undefined until first use, so CACHE_* variables are read after dotenv
+	private backendInstance: CacheBackend | null | undefined;
+	/** Bumped on invalidation, so responses computed before it are not stored */
+	private readonly generations = new Map<CacheNamespace, number>();
+
+	constructor() {
+		articleChanges.on("change", () => {
+			void this.invalidate("articles");
+		});
+	}
+
+	/**
+	 * Replace the backend, e.g. with one shared between processes. null
+	 * disables caching.
+	 */
+	useBackend(backend: CacheBackend | null): void {
+		this.backendInstance = backend;
+	}
+
+	generation(namespace: CacheNamespace): number {
+		return this.generations.get(namespace) || 0;
+	}
+
+	async get(
+		namespace: CacheNamespace,
+		key: string
+	): Promise<CacheEntry | undefined> {
+		const backend = this.backend;
+		if (!backend) return undefined;
+
+		try {
+			return await backend.get(`${namespace}:${key}`);
+		} catch (error) {
+			console.error(
+				`Cache read failed (${backend.name}):`,
+				getErrorMessage(error)
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Store an entry unless the namespace was invalidated since generation
+	 * was read
+	 */
+	async set(
+		namespace: CacheNamespace,
+		key: string,
+		entry: CacheEntry,
+		generation: number
+	): Promise<void> {
+		const backend = this.backend;
+		if (!backend || this.generation(namespace) !== generation) return;
+
+		try {
+			await backend.set(`${namespace}:${key}`, entry, cacheConfig.ttlMs);
+		} catch (error) {
+			console.error(
+				`Cache write failed (${backend.name}):`,
+				getErrorMessage(error)
+			);
+		}
+	}
+
+	async invalidate(namespace: CacheNamespace): Promise<void> {
+		this.generations.set(namespace, this.generation(namespace) + 1);
+
+		const backend = this.backend;
+		if (!backend) return;
+
+		try {
+			await backend.deletePrefix(`${namespace}:`);
+		} catch (error) {
+			console.error(
+				`Cache invalidation failed (${backend.name}):`,
+				getErrorMessage(error)
+			);
+		}
+	}
+
+	/**
+	 * Weak validator for a serialized body: equal bodies get equal ETags
+	 */
+	etagOf(body: string): string {
+		const hash = crypto.createHash("sha1").update(body).digest("base64url");
+
+		return `W/"${hash}"`;
+	}
+
+	private get backend(): CacheBackend | null {
+		if (this.backendInstance === undefined) {
+			this.backendInstance =
+				cacheConfig.backend === "none"
+					? null
+					: new MemoryCacheBackend(cacheConfig.maxEntries);
+		}
+
+		return this.backendInstance;
+	}
+}
+
+export default new CacheService();
+export { CacheNamespace };
@@ -0,0 +1,20 @@
+interface CacheEntry {
+	/** Serialized JSON response */
+	body: string;
+	etag: string;
+	lastModified: Date;
+}
+
+/**
+ * Storage for cached responses. Methods are async so backends shared
+ * between processes (e.g. Redis) can implement them.
+ */
+interface CacheBackend {
+	readonly name: string;
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+	/** Drop every entry whose key starts with prefix */
+	deletePrefix(prefix: string): Promise<void>;
+}
+
+export { CacheBackend, CacheEntry };
@@ -0,0 +1,46 @@
+import { CacheBackend, CacheEntry } from "./cache-backend";
+
+/**
+ * Least-recently-used cache in this process's memory. A Map keeps keys in
+ * insertion order, so re-inserting on read makes the first key the oldest.
+ */
+class MemoryCacheBackend implements CacheBackend {
+	readonly name = "memory";
+
+	private readonly entries = new Map<
+		string,
+		{ entry: CacheEntry; expiresAt: number }
+	>();
+
+	constructor(private readonly maxEntries: number) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const stored = this.entries.get(key);
+		if (!stored) return undefined;
+
+		this.entries.delete(key);
+
+		if (stored.expiresAt <= Date.now()) return undefined;
+
+		this.entries.set(key, stored);
+		return stored.entry;
+	}
+
+	async set(key: string, entry: CacheEntry, ttlMs: number): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async deletePrefix(prefix: string): Promise<void> {
+		for (const key of Array.from(this.entries.keys())) {
+			if (key.startsWith(prefix)) this.entries.delete(key);
+		}
+	}
+}
+
+export default MemoryCacheBackend;
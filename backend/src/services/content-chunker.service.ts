@@ -0,0 +1,271 @@
+interface ContentChunk {
+	/** Headings of the sections the chunk covers */
+	headings: string[];
+	content: string;
+	tokens: number;
+}
+
+interface ContentPiece {
+	heading?: string;
+	text: string;
+}
+
+const STOP_WORDS = new Set([
+	"about",
+	"after",
+	"also",
+	"been",
+	"before",
+	"being",
+	"both",
+	"could",
+	"does",
+	"each",
+	"even",
+	"from",
+	"have",
+	"here",
+	"into",
+	"just",
+	"like",
+	"make",
+	"many",
+	"more",
+	"most",
+	"much",
+	"must",
+	"only",
+	"other",
+	"over",
+	"should",
+	"some",
+	"such",
+	"than",
+	"that",
+	"their",
+	"them",
+	"then",
+	"there",
+	"these",
+	"they",
+	"this",
+	"those",
+	"through",
+	"very",
+	"want",
+	"well",
+	"were",
+	"what",
+	"when",
+	"where",
+	"which",
+	"while",
+	"will",
+	"with",
+	"would",
+	"your",
+]);
+
+/**
+ * Splits markdown articles into pieces that fit an LLM context window.
+ * Token counts are estimates (about four characters per token), which is
+ * close enough for budgeting across the models we use.
+ */
+class ContentChunkerService {
+	private readonly charsPerToken = 4;
+
+	estimateTokens(text: string): number {
+		return Math.ceil(text.length / this.charsPerToken);
+	}
+
+	/**
+	 * Shorten text to about maxTokens, cutting at a paragraph or sentence
+	 * boundary when there is one in the second half
+	 */
+	truncate(text: string, maxTokens: number): string {
+		const maxChars = Math.max(0, maxTokens * this.charsPerToken);
+		if (text.length <= maxChars) return text;
+
+		const cut = text.substring(0, maxChars);
+		const boundary = Math.max(
+			cut.lastIndexOf("\n\n"),
+			cut.lastIndexOf(". ") + 1
+		);
+
+		return `${(boundary > maxChars / 2
+			? cut.substring(0, boundary)
+			: cut
+		).trim()}…`;
+	}
+
+	/**
+	 * Split markdown into chunks of at most maxTokens. Chunks break between
+	 * sections where possible, then between paragraphs, then sentences;
+	 * consecutive small sections share a chunk.
+	 */
+	chunk(markdown: string, maxTokens: number): ContentChunk[] {
+		const pieces = this.splitSections(markdown).flatMap((section) =>
+			this.splitToFit(section, maxTokens)
+		);
+
+		const chunks: ContentChunk[] = [];
+		let current: ContentPiece[] = [];
+
+		const flush = () => {
+			if (current.length === 0) return;
+
+			const content = current.map((piece) => piece.text).join("\n\n");
+			const headings = current
+				.map((piece) => piece.heading)
+				.filter((heading): heading is string => Boolean(heading));
+
+			chunks.push({
+				headings: [...new Set(headings)],
+				content,
+				tokens: this.estimateTokens(content),
+			});
+			current = [];
+		};
+
+		for (const piece of pieces) {
+			const joined = [...current, piece].map((part) => part.text).join("\n\n");
+
+			if (current.length > 0 && this.estimateTokens(joined) > maxTokens) {
+				flush();
+			}
+
+			current.push(piece);
+		}
+
+		flush();
+
+		return chunks;
+	}
+
+	/**
+	 * Headings of a markdown document, indented by level
+	 */
+	outline(markdown: string): string[] {
+		return this.splitSections(markdown)
+			.filter((section) => section.heading)
+			.map((section) => {
+				const level = section.text.match(/^(#+)/)?.[1].length || 1;
+				return `${"  ".repeat(Math.max(0, level - 2))}- ${section.heading}`;
+			});
+	}
+
+	/**
+	 * Most frequent meaningful words, used to keep terminology consistent
+	 * when sections are rewritten separately
+	 */
+	keyTerms(text: string, limit = 12): string[] {
+		const counts = new Map<string, number>();
+		const words = text
+			.replace(/```[\s\S]*?```/g, " ")
+			.replace(/\]\([^)]*\)/g, " ")
+			.toLowerCase()
+			.match(/[a-z][a-z0-9-]{3,}/g);
+
+		for (const word of words || []) {
+			if (!STOP_WORDS.has(word)) {
+				counts.set(word, (counts.get(word) || 0) + 1);
+			}
+		}
+
+		return [...counts.entries()]
+			.filter(([, count]) => count > 1)
+			.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+			.slice(0, limit)
+			.map(([word]) => word);
+	}
+
+	/**
+	 * Split at headings outside fenced code blocks. Text before the first
+	 * heading becomes a section without one.
+	 */
+	private splitSections(markdown: string): ContentPiece[] {
+		const sections: ContentPiece[] = [];
+		let heading: string | undefined;
+		let lines: string[] = [];
+		let inFence = false;
+
+		const flush = () => {
+			const text = lines.join("\n").trim();
+			if (text) sections.push({ heading, text });
+		};
+
+		for (const line of markdown.split("\n")) {
+			if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+			const match = inFence ? null : line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+
+			if (match) {
+				flush();
+				heading = match[1];
+				lines = [];
+			}
+
+			lines.push(line);
+		}
+
+		flush();
+
+		return sections;
+	}
+
+	private splitToFit(piece: ContentPiece, maxTokens: number): ContentPiece[] {
+		if (this.estimateTokens(piece.text) <= maxTokens) return [piece];
+
+		const paragraphs = this.splitParagraphs(piece.text);
+		const parts =
+			paragraphs.length > 1
+				? paragraphs
+				: piece.text.split(/(?<=[.!?])\s+/).filter(Boolean);
+
+		if (parts.length <= 1) {
+			const maxChars = maxTokens * this.charsPerToken;
+			const slices: ContentPiece[] = [];
+
+			for (let start = 0; start < piece.text.length; start += maxChars) {
+				slices.push({
+					heading: piece.heading,
+					text: piece.text.substring(start, start + maxChars),
+				});
+			}
+
+			return slices;
+		}
+
+		return parts.flatMap((text) =>
+			this.splitToFit({ heading: piece.heading, text }, maxTokens)
+		);
+	}
+
+	/**
+	 * Split on blank lines, keeping fenced code blocks in one paragraph
+	 */
+	private splitParagraphs(text: string): string[] {
+		const paragraphs: string[] = [];
+		let lines: string[] = [];
+		let inFence = false;
+
+		for (const line of text.split("\n")) {
+			if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+			if (!inFence && line.trim() === "") {
+				if (lines.length > 0) paragraphs.push(lines.join("\n"));
+				lines = [];
+				continue;
+			}
+
+			lines.push(line);
+		}
+
+		if (lines.length > 0) paragraphs.push(lines.join("\n"));
+
+		return paragraphs;
+	}
+}
+
+export default new ContentChunkerService();
+export { ContentChunk };
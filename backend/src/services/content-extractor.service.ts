@@ -0,0 +1,419 @@
+import * as cheerio from "cheerio";
+import { AnyNode, Element, isTag, isText } from "domhandler";
+
+interface ArticleMedia {
+	url: string;
+	alt?: string;
+	title?: string;
+	caption?: string;
+}
+
+interface ExtractedContent {
+	markdown: string;
+	text: string;
+	media: ArticleMedia[];
+}
+
+interface RenderContext {
+	baseUrl: string;
+	media: ArticleMedia[];
+}
+
+const BLOCK_TAGS = new Set([
+	"address",
+	"article",
+	"center",
+	"dd",
+	"details",
+	"div",
+	"dl",
+	"dt",
+	"main",
+	"p",
+	"section",
+	"summary",
+]);
+
+class ContentExtractorService {
+	private readonly noiseSelectors = [
+		"script",
+		"style",
+		"noscript",
+		"template",
+		"iframe",
+		"form",
+		"button",
+		"svg",
+		"nav",
+		"header",
+		"footer",
+		"aside",
+		".advertisement",
+		".ads",
+		".share",
+		".social",
+		".comments",
+		"#comments",
+		".related-posts",
+	].join(", ");
+	private readonly positiveHints =
+		/article|body|content|entry|main|post|story|text|blog/i;
+	private readonly negativeHints =
+		/comment|sidebar|footer|nav|menu|widget|share|social|related|promo|banner|newsletter|subscribe|cookie|\bads?\b/i;
+
+	/**
+	 * Extract the main content of a page as Markdown
+	 * @param html Page HTML
+	 * @param baseUrl Page URL, used to resolve relative links and images
+	 * @param selectors Content selectors to try first, in order. Without a
+	 * match, the main content is found by scoring paragraph containers.
+	 * @param minLength Minimum text length for a selector match to count
+	 * @returns Extracted Markdown, plain text and image references
+	 */
+	extract(
+		html: string,
+		baseUrl: string,
+		selectors: string[] = [],
+		minLength: number = 100
+	): ExtractedContent {
+		const $ = cheerio.load(html);
+		$(this.noiseSelectors).remove();
+
+		let roots: AnyNode[] = [];
+		for (const selector of selectors) {
+			const matched = $(selector);
+			if (matched.text().trim().length > minLength) {
+				roots = matched.toArray();
+				break;
+			}
+		}
+
+		if (roots.length === 0) {
+			const main = this.findMainContent($);
+			if (main) roots = [main];
+		}
+
+		const context: RenderContext = { baseUrl, media: [] };
+		const markdown = this.normalize(
+			roots.map((root) => this.renderNode(root, context)).join("\n\n")
+		);
+
+		return {
+			markdown,
+			text: this.toPlainText(markdown),
+			media: context.media,
+		};
+	}
+
+	/**
+	 * Strip Markdown syntax, leaving readable text
+	 */
+	toPlainText(markdown: string): string {
+		return markdown
+			.replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+			.replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+			.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+			.replace(/^[ \t]*(#{1,6}[ \t]|>[ \t]?|[-*+][ \t]|\d+\.[ \t])/gm, "")
+			.replace(/^[ \t]*\|?[ \t:|-]*-[ \t:|-]*$/gm, "")
+			.replace(/[*_`|~]+/g, " ")
+			.split("\n")
+			.map((line) => line.replace(/[ \t]+/g, " ").trim())
+			.join("\n")
+			.replace(/\n{3,}/g, "\n\n")
+			.trim();
+	}
+
+	/**
+	 * Readability-style scoring: paragraphs add to the score of their parent
+	 * and grandparent, and the best-scoring container wins
+	 */
+	private findMainContent($: cheerio.CheerioAPI): Element | undefined {
+		const scores = new Map<Element, number>();
+
+		$("p, pre, td, li").each((_, element) => {
+			const text = $(element).text().trim();
+			if (text.length < 25) return;
+
+			const score =
+				1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+
+			const parent = element.parent;
+			if (parent && isTag(parent)) {
+				scores.set(parent, (scores.get(parent) || 0) + score);
+
+				const grandparent = parent.parent;
+				if (grandparent && isTag(grandparent)) {
+					scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+				}
+			}
+		});
+
+		let best: Element | undefined;
+		let bestScore = 0;
+
+		for (const [element, score] of scores) {
+			const $element = $(element);
+			const textLength = $element.text().length || 1;
+			const linkDensity = $element.find("a").text().length / textLength;
+			const hints = `${$element.attr("class") || ""} ${
+				$element.attr("id") || ""
+			}`;
+
+			let adjusted = score * (1 - linkDensity);
+			if (this.positiveHints.test(hints)) adjusted *= 1.25;
+			if (this.negativeHints.test(hints)) adjusted *= 0.5;
+
+			if (adjusted > bestScore) {
+				best = element;
+				bestScore = adjusted;
+			}
+		}
+
+		return best || $("body").get(0);
+	}
+
+	private renderNode(node: AnyNode, context: RenderContext): string {
+		if (isText(node)) {
+			return node.data.replace(/\s+/g, " ");
+		}
+
+		if (!isTag(node)) {
+			return "";
+		}
+
+		const tag = node.name.toLowerCase();
+		const children = () => this.renderChildren(node, context);
+
+		switch (tag) {
+			case "h1":
+			case "h2":
+			case "h3":
+			case "h4":
+			case "h5":
+			case "h6": {
+				const text = this.singleLine(children());
+				return text ? `\n\n${"#".repeat(Number(tag[1]))} ${text}\n\n` : "";
+			}
+			case "br":
+				return "\n";
+			case "hr":
+				return "\n\n---\n\n";
+			case "strong":
+			case "b":
+				return this.wrapInline(children(), "**");
+			case "em":
+			case "i":
+				return this.wrapInline(children(), "_");
+			case "del":
+			case "s":
+				return this.wrapInline(children(), "~~");
+			case "code":
+				return this.wrapInline(this.textContent(node), "`");
+			case "pre":
+				return this.renderCodeBlock(node);
+			case "a":
+				return this.renderLink(node, children(), context);
+			case "img":
+				return this.renderImage(node, context);
+			case "ul":
+			case "ol":
+				return `\n\n${this.renderList(node, tag === "ol", context)}\n\n`;
+			case "blockquote": {
+				const quoted = this.normalize(children())
+					.split("\n")
+					.map((line) => (line ? `> ${line}` : ">"))
+					.join("\n");
+				return quoted ? `\n\n${quoted}\n\n` : "";
+			}
+			case "table":
+				return `\n\n${this.renderTable(node, context)}\n\n`;
+			case "figcaption": {
+				const caption = this.singleLine(children());
+				const lastMedia = context.media[context.media.length - 1];
+				if (caption && lastMedia && !lastMedia.caption) {
+					lastMedia.caption = caption;
+				}
+				return caption ? `\n\n_${caption}_\n\n` : "";
+			}
+			case "figure":
+				return `\n\n${children()}\n\n`;
+			default:
+				return BLOCK_TAGS.has(tag) ? `\n\n${children()}\n\n` : children();
+		}
+	}
+
+	private renderChildren(node: Element, context: RenderContext): string {
+		return node.children
+			.map((child) => this.renderNode(child, context))
+			.join("");
+	}
+
+	private renderLink(
+		node: Element,
+		inner: string,
+		context: RenderContext
+	): string {
+		const text = inner.trim();
+		const href = this.resolveUrl(node.attribs.href, context.baseUrl);
+
+		if (!text) return "";
+		if (!href) return inner;
+
+		return `[${text}](${href})`;
+	}
+
+	private renderImage(node: Element, context: RenderContext): string {
+		const { attribs } = node;
+		const source =
+			attribs["data-src"] ||
+			attribs["data-lazy-src"] ||
+			attribs.src ||
+			attribs.srcset?.split(",")[0]?.trim().split(/\s+/)[0];
+		const url = this.resolveUrl(source, context.baseUrl);
+
+		if (!url || attribs.width === "1" || attribs.height === "1") {
+			return "";
+		}
+
+		const alt = (attribs.alt || "").replace(/\s+/g, " ").trim();
+
+		if (!context.media.some((media) => media.url === url)) {
+			context.media.push({
+				url,
+				alt: alt || undefined,
+				title: attribs.title || undefined,
+			});
+		}
+
+		return `![${alt}](${url})`;
+	}
+
+	private renderCodeBlock(node: Element): string {
+		const code = node.children.find(
+			(child): child is Element => isTag(child) && child.name === "code"
+		);
+		const className = `${code?.attribs.class || ""} ${
+			node.attribs.class || ""
+		}`;
+		const language = className.match(/(?:language|lang)-([\w+#-]+)/)?.[1] || "";
+		const text = this.textContent(node).replace(/\n+$/, "");
+
+		return text ? `\n\n\`\`\`${language}\n${text}\n\`\`\`\n\n` : "";
+	}
+
+	private renderList(
+		node: Element,
+		ordered: boolean,
+		context: RenderContext
+	): string {
+		const items = node.children.filter(
+			(child): child is Element => isTag(child) && child.name === "li"
+		);
+		const start = Number(node.attribs.start) || 1;
+
+		return items
+			.map((item, index) => {
+				const marker = ordered ? `${start + index}.` : "-";
+				const indent = " ".repeat(marker.length + 1);
+				const lines = this.normalize(this.renderChildren(item, context))
+					.replace(/\n\n+/g, "\n")
+					.split("\n");
+
+				return lines
+					.map((line, lineIndex) =>
+						lineIndex === 0 ? `${marker} ${line}` : `${indent}${line}`
+					)
+					.join("\n");
+			})
+			.join("\n");
+	}
+
+	private renderTable(node: Element, context: RenderContext): string {
+		const $ = cheerio.load(node);
+		const rows = $("tr")
+			.toArray()
+			.map((row) => ({
+				isHeader:
+					$(row).children("th").length > 0 &&
+					$(row).children("td").length === 0,
+				cells: $(row)
+					.children("th, td")
+					.toArray()
+					.map((cell) =>
+						this.singleLine(this.renderChildren(cell, context)).replace(
+							/\|/g,
+							"\\|"
+						)
+					),
+			}))
+			.filter((row) => row.cells.length > 0);
+
+		if (rows.length === 0) return "";
+
+		const columns = Math.max(...rows.map((row) => row.cells.length));
+		const pad = (cells: string[]) =>
+			`| ${[...cells, ...Array(columns - cells.length).fill("")].join(
+				" | "
+			)} |`;
+
+		const [header, ...body] = rows[0].isHeader
+			? rows
+			: [{ isHeader: true, cells: Array(columns).fill("") }, ...rows];
+
+		return [
+			pad(header.cells),
+			`| ${Array(columns).fill("---").join(" | ")} |`,
+			...body.map((row) => pad(row.cells)),
+		].join("\n");
+	}
+
+	private wrapInline(inner: string, marker: string): string {
+		const text = inner.trim();
+		if (!text) return inner;
+
+		const leading = inner.startsWith(" ") ? " " : "";
+		const trailing = inner.endsWith(" ") ? " " : "";
+		return `${leading}${marker}${text}${marker}${trailing}`;
+	}
+
+	private textContent(node: AnyNode): string {
+		if (isText(node)) return node.data;
+		if (!isTag(node)) return "";
+		return node.children.map((child) => this.textContent(child)).join("");
+	}
+
+	private singleLine(text: string): string {
+		return text.replace(/\s+/g, " ").trim();
+	}
+
+	private normalize(markdown: string): string {
+		return markdown
+			.split("\n")
+			.map((line) => line.replace(/[ \t]+$/, "").replace(/^ (?=\S)/, ""))
+			.join("\n")
+			.replace(/\n{3,}/g, "\n\n")
+			.trim();
+	}
+
+	private resolveUrl(
+		href: string | undefined,
+		baseUrl: string
+	): string | undefined {
+		if (
+			!href ||
+			href.startsWith("#") ||
+			/^(javascript|data|mailto):/i.test(href)
+		) {
+			return undefined;
+		}
+
+		try {
+			return new URL(href.trim(), baseUrl).toString();
+		} catch {
+			return undefined;
+		}
+	}
+}
+
+export default new ContentExtractorService();
+export { ArticleMedia, ExtractedContent };
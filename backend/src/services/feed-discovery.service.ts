@@ -0,0 +1,226 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import Article from "../models/Article";
+
+interface DiscoveredArticle {
+	url: string;
+	title?: string;
+	author?: string;
+	publishedDate?: Date;
+	lastModified?: Date;
+}
+
+type FeedFormat = "urlset" | "sitemapindex" | "rss" | "atom";
+
+class FeedDiscoveryService {
+	private readonly userAgent =
+		"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+	private readonly timeout = 15000;
+	private readonly maxSitemapDepth = 3;
+	private readonly maxChildSitemaps = 50;
+
+	/**
+	 * Read a sitemap.xml, sitemap index, RSS 2.0 or Atom feed
+	 * @param url Feed or sitemap URL
+	 * @returns Discovered article entries, in document order, without repeats
+	 * (new or changed ones are picked by selectNewOrChanged)
+	 * @throws Error if the document is not a recognised feed or sitemap
+	 */
+	async discover(url: string): Promise<DiscoveredArticle[]> {
+		const entries = await this.read(url, 0);
+
+		const seen = new Set<string>();
+		return entries.filter((entry) => {
+			if (seen.has(entry.url)) return false;
+			seen.add(entry.url);
+			return true;
+		});
+	}
+
+	/**
+	 * Keep entries that are not stored yet, or whose lastmod/pubDate is newer
+	 * than the stored original's scrape time
+	 */
+	async selectNewOrChanged(
+		entries: DiscoveredArticle[]
+	): Promise<DiscoveredArticle[]> {
+		if (entries.length === 0) return [];
+
+		const existing = await Article.find({
+			url: { $in: entries.map((entry) => entry.url) },
+			isOriginal: true,
+		}).select("url scrapedAt");
+
+		const scrapedAtByUrl = new Map(
+			existing.map((article) => [article.url, article.scrapedAt])
+		);
+
+		return entries.filter((entry) => {
+			const scrapedAt = scrapedAtByUrl.get(entry.url);
+			if (!scrapedAt) return true;
+
+			return Boolean(entry.lastModified && entry.lastModified > scrapedAt);
+		});
+	}
+
+	private async read(url: string, depth: number): Promise<DiscoveredArticle[]> {
+		const response = await axios.get(url, {
+			headers: {
+				"User-Agent": this.userAgent,
+				Accept:
+					"application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8",
+			},
+			timeout: this.timeout,
+			responseType: "text",
+		});
+
+		const $ = cheerio.load(response.data, { xml: true });
+		const format = this.detectFormat($);
+
+		switch (format) {
+			case "urlset":
+				return this.parseUrlset($);
+			case "rss":
+				return this.parseRss($);
+			case "atom":
+				return this.parseAtom($);
+			case "sitemapindex":
+				return this.readSitemapIndex($, url, depth);
+			default:
+				throw new Error(`${url} is not a sitemap, RSS or Atom feed`);
+		}
+	}
+
+	private detectFormat($: cheerio.CheerioAPI): FeedFormat | undefined {
+		const root = $.root().children().first().prop("tagName")?.toLowerCase();
+
+		switch (root) {
+			case "urlset":
+				return "urlset";
+			case "sitemapindex":
+				return "sitemapindex";
+			case "rss":
+			case "rdf:rdf":
+				return "rss";
+			case "feed":
+				return "atom";
+			default:
+				return undefined;
+		}
+	}
+
+	private async readSitemapIndex(
+		$: cheerio.CheerioAPI,
+		indexUrl: string,
+		depth: number
+	): Promise<DiscoveredArticle[]> {
+		if (depth >= this.maxSitemapDepth) {
+			console.warn(`Sitemap index nested too deeply, skipping ${indexUrl}`);
+			return [];
+		}
+
+		const children = $("sitemap")
+			.toArray()
+			.map((element) => $(element).children("loc").text().trim())
+			.filter(Boolean)
+			.slice(0, this.maxChildSitemaps);
+
+		const entries: DiscoveredArticle[] = [];
+
+		for (const child of children) {
+			try {
+				entries.push(...(await this.read(child, depth + 1)));
+			} catch (error) {
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				console.error(`Error reading sitemap ${child}:`, errorMessage);
+			}
+		}
+
+		return entries;
+	}
+
+	private parseUrlset($: cheerio.CheerioAPI): DiscoveredArticle[] {
+		return $("url")
+			.toArray()
+			.map((element) => ({
+				url: $(element).children("loc").text().trim(),
+				lastModified: this.parseDate($(element).children("lastmod").text()),
+			}))
+			.filter((entry) => entry.url);
+	}
+
+	private parseRss($: cheerio.CheerioAPI): DiscoveredArticle[] {
+		return $("item")
+			.toArray()
+			.map((element) => {
+				const $item = $(element);
+				const publishedDate = this.parseDate(
+					$item.children("pubDate").text() || $item.children("dc\\:date").text()
+				);
+
+				return {
+					url:
+						$item.children("link").text().trim() ||
+						$item.children("guid[isPermaLink!='false']").text().trim(),
+					title: $item.children("title").text().trim() || undefined,
+					author:
+						$item.children("dc\\:creator").text().trim() ||
+						this.parseRssAuthor($item.children("author").text()),
+					publishedDate,
+					lastModified: publishedDate,
+				};
+			})
+			.filter((entry) => entry.url);
+	}
+
+	private parseAtom($: cheerio.CheerioAPI): DiscoveredArticle[] {
+		return $("entry")
+			.toArray()
+			.map((element) => {
+				const $entry = $(element);
+				const $link =
+					$entry.children("link[rel='alternate']").first().length > 0
+						? $entry.children("link[rel='alternate']").first()
+						: $entry.children("link:not([rel])").first();
+				const publishedDate = this.parseDate(
+					$entry.children("published").text()
+				);
+
+				return {
+					url: ($link.attr("href") || "").trim(),
+					title: $entry.children("title").text().trim() || undefined,
+					author:
+						$entry.children("author").children("name").text().trim() ||
+						undefined,
+					publishedDate,
+					lastModified:
+						this.parseDate($entry.children("updated").text()) || publishedDate,
+				};
+			})
+			.filter((entry) => entry.url);
+	}
+
+	/**
+	 * RSS <author> is an email address, optionally followed by a name in
+	 * parentheses ("jane@example.com (Jane Doe)")
+	 */
+	private parseRssAuthor(value: string): string | undefined {
+		const trimmed = value.trim();
+		if (!trimmed) return undefined;
+
+		const name = trimmed.match(/\(([^)]+)\)/);
+		return name ? name[1].trim() : trimmed;
+	}
+
+	private parseDate(value: string): Date | undefined {
+		const trimmed = value.trim();
+		if (!trimmed) return undefined;
+
+		const date = new Date(trimmed);
+		return Number.isNaN(date.getTime()) ? undefined : date;
+	}
+}
+
+export default new FeedDiscoveryService();
+export { DiscoveredArticle };
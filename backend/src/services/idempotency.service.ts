@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import IdempotencyKey, { IIdempotencyKey } from "../models/IdempotencyKey";
+
+class IdempotencyError extends Error {
+	constructor(message: string, public readonly statusCode: number = 409) {
+		super(message);
+		this.name = "IdempotencyError";
+		Object.setPrototypeOf(this, IdempotencyError.prototype);
+	}
+}
+
+class IdempotencyService {
+	private readonly ttl = 24 * 60 * 60 * 1000;
+	private readonly maxKeyLength = 255;
+	/**
+	 * Longest an optimization can run (long articles take a model call per
+	 * section); a key processing for longer belongs to a request that died
+	 */
+	private readonly maxProcessingTime = 30 * 60 * 1000;
+
+	/**
+	 * Claim an idempotency key for an operation
+	 * @param key Client-supplied Idempotency-Key header
+	 * @param userId Caller; keys are scoped per user
+	 * @param operation Operation name and parameters, compared on reuse
+	 * @returns The resource ID created by an earlier completed request with
+	 * the same key, or undefined if this request should proceed
+	 * @throws IdempotencyError if the key is malformed, still in progress, or
+	 * was used for different parameters. Keys left processing for longer than
+	 * an operation can take are handed to the new request.
+	 */
+	async begin(
+		key: string,
+		userId: mongoose.Types.ObjectId,
+		operation: Record<string, unknown>
+	): Promise<string | undefined> {
+		if (!key.trim() || key.length > this.maxKeyLength) {
+			throw new IdempotencyError(
+				`Idempotency-Key must be 1 to ${this.maxKeyLength} characters`,
+				400
+			);
+		}
+
+		const fingerprint = crypto
+			.createHash("sha256")
+			.update(JSON.stringify(operation))
+			.digest("hex");
+
+		try {
+			await IdempotencyKey.create({
+				key,
+				userId,
+				fingerprint,
+				startedAt: new Date(),
+				expiresAt: new Date(Date.now() + this.ttl),
+			});
+			return undefined;
+		} catch (error: any) {
+			if (error?.code !== 11000) throw error;
+		}
+
+		const existing = await IdempotencyKey.findOne({ key, userId });
+
+		if (!existing) {
+			// Expired between the insert attempt and the lookup
+			return this.begin(key, userId, operation);
+		}
+
+		if (existing.fingerprint !== fingerprint) {
+			throw new IdempotencyError(
+				"Idempotency-Key was already used for a different request",
+				422
+			);
+		}
+
+		if (existing.status === "processing") {
+			if (await this.takeOver(existing)) return undefined;
+
+			throw new IdempotencyError(
+				"A request with this Idempotency-Key is still in progress"
+			);
+		}
+
+		return existing.resourceId;
+	}
+
+	/**
+	 * Claim a key whose request has been processing for too long. Only one of
+	 * several concurrent retries succeeds.
+	 * @returns Whether this request now holds the key
+	 */
+	private async takeOver(existing: IIdempotencyKey): Promise<boolean> {
+		const now = new Date();
+		const claimed = await IdempotencyKey.findOneAndUpdate(
+			{
+				_id: existing._id,
+				status: "processing",
+				startedAt: { $lt: new Date(now.getTime() - this.maxProcessingTime) },
+			},
+			{
+				$set: {
+					startedAt: now,
+					expiresAt: new Date(now.getTime() + this.ttl),
+				},
+			}
+		);
+
+		return Boolean(claimed);
+	}
+
+	/**
+	 * Record the resource a claimed key produced, for replays
+	 */
+	async complete(
+		key: string,
+		userId: mongoose.Types.ObjectId,
+		resourceId: string
+	): Promise<void> {
+		await IdempotencyKey.updateOne(
+			{ key, userId },
+			{ $set: { status: "completed", resourceId } }
+		);
+	}
+
+	/**
+	 * Give up a claimed key after a failure, so the client can retry with it
+	 */
+	async release(key: string, userId: mongoose.Types.ObjectId): Promise<void> {
+		await IdempotencyKey.deleteOne({ key, userId, status: "processing" });
+	}
+}
+
+export default new IdempotencyService();
+export { IdempotencyError };
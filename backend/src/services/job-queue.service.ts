@@ -0,0 +1,531 @@
+import os from "os";
+import mongoose from "mongoose";
+import Job, { IJob, JobItemStatus, JobStatus, JobType } from "../models/Job";
+
+interface JobItemDetails {
+	/** Human-readable name of the item, e.g. an article title */
+	label?: string;
+	articleId?: mongoose.Types.ObjectId | string;
+}
+
+interface JobContext {
+	job: IJob;
+	params: Record<string, any>;
+	setTotal(total: number): Promise<void>;
+	isProcessed(item: string): boolean;
+	/** Report the item the handler starts working on */
+	startItem(item: string, label?: string): Promise<void>;
+	recordSuccess(item: string, details?: JobItemDetails): Promise<void>;
+	recordFailure(
+		item: string,
+		message: string,
+		details?: JobItemDetails
+	): Promise<void>;
+	/**
+	 * Whether the handler should stop before its next item, either because
+	 * the job was cancelled or because the worker is shutting down
+	 */
+	shouldStop(): Promise<boolean>;
+}
+
+interface JobHandler {
+	/**
+	 * Validate and apply defaults to the params a job is enqueued with
+	 * @throws JobQueueError if params are invalid
+	 */
+	normalizeParams(params: Record<string, any>): Record<string, any>;
+	/**
+	 * Params for a job that runs only the given items of a finished job
+	 */
+	retryParams(job: IJob, items: string[]): Record<string, any>;
+	run(context: JobContext): Promise<void>;
+}
+
+interface JobListOptions {
+	status?: JobStatus;
+	type?: JobType;
+	page: number;
+	limit: number;
+}
+
+class JobQueueError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "JobQueueError";
+		Object.setPrototypeOf(this, JobQueueError.prototype);
+	}
+}
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+class JobQueueService {
+	private readonly handlers = new Map<JobType, JobHandler>();
+	private readonly workerId = `${os.hostname()}-${process.pid}`;
+	private readonly pollInterval = 2000;
+	private readonly heartbeatInterval = 30000;
+	private readonly staleAfter = 2 * 60 * 1000;
+	private readonly maxAttempts = 3;
+
+	private pollTimer?: NodeJS.Timeout;
+	private lastRecoveryAt = 0;
+	private activeJob: Promise<void> | null = null;
+	private stopped = true;
+
+	/**
+	 * Register the handler that runs jobs of a given type
+	 */
+	register(type: JobType, handler: JobHandler): void {
+		this.handlers.set(type, handler);
+	}
+
+	/**
+	 * Enqueue a new job
+	 * @param type Job type
+	 * @param params Job parameters
+	 * @returns Created job
+	 * @throws JobQueueError if the type is unknown or params are invalid
+	 */
+	async enqueue(
+		type: JobType,
+		params: Record<string, any> = {},
+		retryOf?: mongoose.Types.ObjectId
+	): Promise<IJob> {
+		const handler = this.handlers.get(type);
+
+		if (!handler) {
+			throw new JobQueueError(`Unknown job type: ${type}`, 400);
+		}
+
+		const job = new Job({
+			type,
+			params: handler.normalizeParams(params),
+			retryOf,
+		});
+
+		await job.save();
+		this.schedulePoll(0);
+
+		return job;
+	}
+
+	async list(
+		options: JobListOptions
+	): Promise<{ jobs: IJob[]; total: number }> {
+		const filter: Record<string, any> = {};
+		if (options.status) filter.status = options.status;
+		if (options.type) filter.type = options.type;
+
+		const [jobs, total] = await Promise.all([
+			Job.find(filter)
+				.sort({ createdAt: -1 })
+				.skip((options.page - 1) * options.limit)
+				.limit(options.limit)
+				.select("-processedItems -results"),
+			Job.countDocuments(filter),
+		]);
+
+		return { jobs, total };
+	}
+
+	async getById(id: string): Promise<IJob | null> {
+		return Job.findById(id).select("-processedItems");
+	}
+
+	/**
+	 * Enqueue a job that runs a finished job's failed items again
+	 * @param items Failed items to retry (default: all of them)
+	 * @returns The new job, or null if the job does not exist
+	 * @throws JobQueueError if the job is unfinished or the items did not fail
+	 */
+	async retry(id: string, items?: string[]): Promise<IJob | null> {
+		const job = await Job.findById(id).select("-processedItems");
+		if (!job) return null;
+
+		if (job.status === "queued" || job.status === "running") {
+			throw new JobQueueError(`Job is still ${job.status}`, 409);
+		}
+
+		const failed = this.failedItems(job);
+
+		if (failed.length === 0) {
+			throw new JobQueueError("Job has no failed items to retry", 409);
+		}
+
+		const unknown = (items || []).filter((item) => !failed.includes(item));
+		if (unknown.length > 0) {
+			throw new JobQueueError(
+				`Not failed in this job: ${unknown.join(", ")}`,
+				400
+			);
+		}
+
+		const handler = this.handlers.get(job.type);
+		if (!handler) {
+			throw new JobQueueError(`No handler registered for ${job.type}`);
+		}
+
+		return this.enqueue(
+			job.type,
+			handler.retryParams(job, items?.length ? items : failed),
+			job._id as mongoose.Types.ObjectId
+		);
+	}
+
+	/**
+	 * Number of jobs per type and status
+	 */
+	async countByStatus(): Promise<
+		Record<JobType, Partial<Record<JobStatus, number>>>
+	> {
+		const groups = await Job.aggregate<{
+			_id: { type: JobType; status: JobStatus };
+			count: number;
+		}>([
+			{
+				$group: {
+					_id: { type: "$type", status: "$status" },
+					count: { $sum: 1 },
+				},
+			},
+		]);
+
+		const counts: Record<JobType, Partial<Record<JobStatus, number>>> = {
+			scrape: {},
+			optimize: {},
+		};
+		for (const { _id, count } of groups) {
+			counts[_id.type][_id.status] = count;
+		}
+
+		return counts;
+	}
+
+	/**
+	 * Most recent job of each type
+	 */
+	async latestByType(): Promise<Partial<Record<JobType, IJob>>> {
+		const types = Array.from(this.handlers.keys());
+		const jobs = await Promise.all(
+			types.map((type) =>
+				Job.findOne({ type })
+					.sort({ createdAt: -1 })
+					.select("-processedItems -results")
+			)
+		);
+
+		return Object.fromEntries(
+			types.flatMap((type, index) => {
+				const job = jobs[index];
+				return job ? [[type, job]] : [];
+			})
+		);
+	}
+
+	/**
+	 * Cancel a job. Queued jobs are cancelled immediately, running jobs stop
+	 * after the item they are currently working on.
+	 * @throws JobQueueError if the job has already finished
+	 */
+	async cancel(id: string): Promise<IJob | null> {
+		const queuedJob = await Job.findOneAndUpdate(
+			{ _id: id, status: "queued" },
+			{
+				$set: {
+					status: "cancelled",
+					cancelRequested: true,
+					finishedAt: new Date(),
+				},
+			},
+			{ new: true }
+		);
+
+		if (queuedJob) return queuedJob;
+
+		const runningJob = await Job.findOneAndUpdate(
+			{ _id: id, status: "running" },
+			{ $set: { cancelRequested: true } },
+			{ new: true }
+		);
+
+		if (runningJob) return runningJob;
+
+		const job = await Job.findById(id);
+		if (!job) return null;
+
+		throw new JobQueueError(`Job is already ${job.status}`, 409);
+	}
+
+	/**
+	 * Start polling for queued jobs. Jobs left running by a process that
+	 * stopped sending heartbeats are put back in the queue while polling.
+	 */
+	start(): void {
+		this.stopped = false;
+
+		this.schedulePoll(0);
+
+		console.log(`🧵 Job worker started (${this.workerId})`);
+	}
+
+	/**
+	 * Stop polling and wait for the active job to reach a checkpoint. An
+	 * interrupted job is requeued and resumes when a worker starts again.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+
+		if (this.pollTimer) {
+			clearTimeout(this.pollTimer);
+			this.pollTimer = undefined;
+		}
+
+		if (this.activeJob) {
+			await this.activeJob;
+		}
+	}
+
+	private schedulePoll(delay: number = this.pollInterval): void {
+		if (this.stopped || this.activeJob) return;
+
+		if (this.pollTimer) {
+			clearTimeout(this.pollTimer);
+		}
+
+		this.pollTimer = setTimeout(() => {
+			this.pollTimer = undefined;
+			this.poll();
+		}, delay);
+	}
+
+	private async poll(): Promise<void> {
+		try {
+			if (Date.now() - this.lastRecoveryAt > this.heartbeatInterval) {
+				await this.recoverStaleJobs();
+			}
+
+			const job = await this.claimNextJob();
+
+			if (job) {
+				this.activeJob = this.process(job);
+				await this.activeJob;
+				this.activeJob = null;
+				this.schedulePoll(0);
+				return;
+			}
+		} catch (error) {
+			this.activeJob = null;
+			console.error("Job worker error:", getErrorMessage(error));
+		}
+
+		this.schedulePoll();
+	}
+
+	private async claimNextJob(): Promise<IJob | null> {
+		return Job.findOneAndUpdate(
+			{ status: "queued" },
+			{
+				$set: {
+					status: "running",
+					workerId: this.workerId,
+					startedAt: new Date(),
+					heartbeatAt: new Date(),
+				},
+				$inc: { attempts: 1 },
+			},
+			{ sort: { createdAt: 1 }, new: true }
+		);
+	}
+
+	/**
+	 * Requeue running jobs whose worker stopped sending heartbeats, or fail
+	 * them once they have used up their attempts.
+	 */
+	private async recoverStaleJobs(): Promise<void> {
+		this.lastRecoveryAt = Date.now();
+
+		const staleFilter = {
+			status: "running",
+			heartbeatAt: { $lt: new Date(Date.now() - this.staleAfter) },
+		};
+
+		await Job.updateMany(
+			{ ...staleFilter, attempts: { $gte: this.maxAttempts } },
+			{
+				$set: {
+					status: "failed",
+					error: "Job exceeded the maximum number of attempts",
+					finishedAt: new Date(),
+				},
+			}
+		);
+
+		const { modifiedCount } = await Job.updateMany(
+			{ ...staleFilter, attempts: { $lt: this.maxAttempts } },
+			{ $set: { status: "queued" }, $unset: { workerId: "" } }
+		);
+
+		if (modifiedCount > 0) {
+			console.log(`🔁 Resuming ${modifiedCount} unfinished job(s)`);
+		}
+	}
+
+	private async process(job: IJob): Promise<void> {
+		const handler = this.handlers.get(job.type);
+		const heartbeat = setInterval(() => {
+			Job.updateOne(
+				{ _id: job._id },
+				{ $set: { heartbeatAt: new Date() } }
+			).catch((error) =>
+				console.error("Job heartbeat error:", getErrorMessage(error))
+			);
+		}, this.heartbeatInterval);
+
+		let status: JobStatus = "completed";
+		let errorMessage: string | undefined;
+
+		console.log(`▶️  Running ${job.type} job ${job._id}`);
+
+		try {
+			if (!handler) {
+				throw new JobQueueError(`No handler registered for ${job.type}`);
+			}
+
+			await handler.run(this.createContext(job));
+
+			const current = await Job.findById(job._id).select("cancelRequested");
+			if (!current || current.cancelRequested) {
+				status = "cancelled";
+			} else if (this.stopped) {
+				status = "queued";
+			}
+		} catch (error) {
+			status = "failed";
+			errorMessage = getErrorMessage(error);
+			console.error(`❌ Job ${job._id} failed:`, errorMessage);
+		} finally {
+			clearInterval(heartbeat);
+		}
+
+		if (status === "queued") {
+			// Interrupted by shutdown: hand the job back so the next worker resumes it
+			await Job.updateOne(
+				{ _id: job._id },
+				{ $set: { status }, $unset: { workerId: "" } }
+			);
+			console.log(`⏸️  Job ${job._id} requeued for resume`);
+			return;
+		}
+
+		await Job.updateOne(
+			{ _id: job._id },
+			{
+				$set: {
+					status,
+					error: errorMessage,
+					finishedAt: new Date(),
+				},
+				$unset: { "progress.current": "" },
+			}
+		);
+
+		console.log(`⏹️  Job ${job._id} ${status}`);
+	}
+
+	/**
+	 * Items that failed in a job, in processing order
+	 */
+	private failedItems(job: IJob): string[] {
+		const failed =
+			job.results?.length > 0
+				? job.results.filter((result) => result.status === "failed")
+				: job.itemErrors;
+
+		return Array.from(new Set(failed.map((entry) => entry.item)));
+	}
+
+	private createContext(job: IJob): JobContext {
+		const processedItems = new Set(job.processedItems);
+
+		const markProcessed = async (
+			item: string,
+			outcome: JobItemStatus,
+			message?: string,
+			details: JobItemDetails = {}
+		): Promise<void> => {
+			processedItems.add(item);
+
+			const finishedAt = new Date();
+			const update: Record<string, any> = {
+				$addToSet: { processedItems: item },
+				$inc: { "progress.processed": 1, [`progress.${outcome}`]: 1 },
+				$set: { heartbeatAt: finishedAt },
+				$unset: { "progress.current": "" },
+				$push: {
+					results: {
+						item,
+						label: details.label,
+						status: outcome,
+						message,
+						articleId: details.articleId,
+						finishedAt,
+					},
+				},
+			};
+
+			if (message) {
+				update.$push.itemErrors = { item, message, occurredAt: finishedAt };
+			}
+
+			await Job.updateOne({ _id: job._id }, update);
+		};
+
+		return {
+			job,
+			params: job.params || {},
+			setTotal: async (total: number) => {
+				await Job.updateOne(
+					{ _id: job._id },
+					{ $set: { "progress.total": total } }
+				);
+			},
+			isProcessed: (item: string) => processedItems.has(item),
+			startItem: async (item: string, label?: string) => {
+				await Job.updateOne(
+					{ _id: job._id },
+					{
+						$set: {
+							"progress.current": { item, label, startedAt: new Date() },
+						},
+					}
+				);
+			},
+			recordSuccess: (item: string, details?: JobItemDetails) =>
+				markProcessed(item, "succeeded", undefined, details),
+			recordFailure: (
+				item: string,
+				message: string,
+				details?: JobItemDetails
+			) => markProcessed(item, "failed", message, details),
+			shouldStop: async () => {
+				if (this.stopped) return true;
+
+				const current = await Job.findById(job._id).select(
+					"cancelRequested"
+				);
+				return !current || current.cancelRequested;
+			},
+		};
+	}
+}
+
+export default new JobQueueService();
+export {
+	JobContext,
+	JobHandler,
+	JobItemDetails,
+	JobListOptions,
+	JobQueueError,
+};
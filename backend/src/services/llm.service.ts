@@ -1,192 +1,646 @@
-import { InferenceClient } from "@huggingface/inference";
-
-interface ContentOptimizationRequest {
-	originalTitle: string;
-	originalContent: string;
-	referenceArticles: Array<{
-		title: string;
-		content: string;
-		url: string;
-	}>;
-}
-
-interface ContentOptimizationResponse {
-	optimizedContent: string;
-	suggestedTitle?: string;
-}
-
-class LLMService {
-	private hf: InferenceClient;
-	private readonly model = "mistralai/Mixtral-8x7B-Instruct-v0.1";
-
-	constructor() {
-		const apiKey = process.env.HUGGING_FACE_API_KEY || "";
-
-		if (!apiKey) {
-			console.warn("⚠️  Hugging Face API key not configured");
-		}
-
-		this.hf = new InferenceClient(apiKey);
-	}
-
-	async optimizeContent(
-		request: ContentOptimizationRequest
-	): Promise<ContentOptimizationResponse> {
-		try {
-			const prompt = this.buildOptimizationPrompt(request);
-
-			console.log("🤖 Sending request to Hugging Face API...");
-
-			const response = await this.hf.textGeneration({
-				model: this.model,
-				inputs: prompt,
-				parameters: {
-					max_new_tokens: 2048,
-					temperature: 0.7,
-					top_p: 0.95,
-					repetition_penalty: 1.1,
-					return_full_text: false,
-				},
-			});
-
-			const optimizedContent = response.generated_text.trim();
-
-			console.log("✅ Content optimized successfully");
-
-			return {
-				optimizedContent,
-			};
-		} catch (error: any) {
-			console.error("LLM optimization error:", error.message);
-
-			if (error.message?.includes("rate limit")) {
-				throw new Error(
-					"Rate limit exceeded. Please wait a moment and try again."
-				);
-			}
-
-			throw new Error(`Failed to optimize content: ${error.message}`);
-		}
-	}
-
-	private buildOptimizationPrompt(request: ContentOptimizationRequest): string {
-		const { originalTitle, originalContent, referenceArticles } = request;
-
-		let prompt = `<s>[INST] You are an expert content writer and SEO specialist. Your task is to rewrite and optimize the following article to match the style and quality of top-ranking articles.
-
-## Original Article
-Title: ${originalTitle}
-
-Content:
-${originalContent.substring(0, 2000)}${
-			originalContent.length > 2000 ? "..." : ""
-		}
-
-## Reference Articles (Top-Ranking Examples)
-
-`;
-
-		referenceArticles.forEach((article, index) => {
-			prompt += `### Reference ${index + 1}: ${article.title}
-Source: ${article.url}
-Content Preview:
-${article.content.substring(0, 800)}...
-
-`;
-		});
-
-		prompt += `## Your Task
-
-Rewrite the original article with these improvements:
-1. Match the professional writing style of the reference articles
-2. Improve structure with clear headings and sections
-3. Make it more engaging and SEO-friendly
-4. Keep the core message intact
-5. Use markdown formatting (headings, lists, emphasis)
-6. Make it approximately the same length or longer
-
-Write ONLY the optimized article content. Do NOT include references section - that will be added separately.
-
-Start writing the optimized article now: [/INST]
-
-`;
-
-		return prompt;
-	}
-
-	async optimizeContentFast(
-		request: ContentOptimizationRequest
-	): Promise<ContentOptimizationResponse> {
-		try {
-			const prompt = this.buildOptimizationPrompt(request);
-
-			// Use Mistral-7B for faster, free-tier friendly processing
-			const response = await this.hf.textGeneration({
-				model: "mistralai/Mistral-7B-Instruct-v0.2",
-				inputs: prompt,
-				parameters: {
-					max_new_tokens: 1500,
-					temperature: 0.7,
-					top_p: 0.9,
-					return_full_text: false,
-				},
-			});
-
-			return {
-				optimizedContent: response.generated_text.trim(),
-			};
-		} catch (error: any) {
-			console.error("Fast optimization error:", error.message);
-			throw error;
-		}
-	}
-
-	async optimizeContentFallback(
-		request: ContentOptimizationRequest
-	): Promise<ContentOptimizationResponse> {
-		try {
-			const { originalContent, referenceArticles } = request;
-
-			const prompt = `Rewrite this article in a professional, engaging style similar to top blog posts:\n\n${originalContent.substring(
-				0,
-				1500
-			)}`;
-
-			const response = await this.hf.textGeneration({
-				model: "google/flan-t5-xxl",
-				inputs: prompt,
-				parameters: {
-					max_new_tokens: 1024,
-					temperature: 0.8,
-				},
-			});
-
-			return {
-				optimizedContent: response.generated_text.trim(),
-			};
-		} catch (error: any) {
-			console.error("Fallback optimization error:", error.message);
-			throw error;
-		}
-	}
-
-	async testConnection(): Promise<boolean> {
-		try {
-			const response = await this.hf.textGeneration({
-				model: this.model,
-				inputs: "Hello, world!",
-				parameters: {
-					max_new_tokens: 10,
-				},
-			});
-
-			console.log("✅ Hugging Face API connection successful");
-			return true;
-		} catch (error: any) {
-			console.error("❌ Hugging Face API connection failed:", error.message);
-			return false;
-		}
-	}
-}
-
-export default new LLMService();
\ No newline at end of file
+import llmConfig, { LLMTarget, PromptStyle } from "../config/llm";
+import providerRegistry from "./llm/provider-registry";
+import contentChunker, { ContentChunk } from "./content-chunker.service";
+import promptTemplateService, {
+	ResolvedTemplate,
+	ResolvedTemplates,
+	TemplateVariables,
+} from "./prompt-template.service";
+import chatFormatter from "./llm/chat-format";
+import {
+	GenerationRequest,
+	GenerationResult,
+	LLMProvider,
+	LLMProviderError,
+	TokenHandler,
+} from "./llm/llm-provider";
+
+type ArticleTone =
+	| "professional"
+	| "conversational"
+	| "technical"
+	| "friendly"
+	| "persuasive";
+
+const ARTICLE_TONES: ArticleTone[] = [
+	"professional",
+	"conversational",
+	"technical",
+	"friendly",
+	"persuasive",
+];
+
+interface ContentOptimizationRequest {
+	originalTitle: string;
+	originalContent: string;
+	referenceArticles: Array<{
+		title: string;
+		content: string;
+		url: string;
+	}>;
+	targetLength?: number;
+	tone?: ArticleTone;
+	audience?: string;
+}
+
+/** Prompt template version used for a generation */
+interface TemplateUsage {
+	key: ResolvedTemplate["key"];
+	version: number;
+	templateId?: ResolvedTemplate["templateId"];
+}
+
+interface ContentOptimizationResponse {
+	optimizedContent: string;
+	suggestedTitle?: string;
+	provider: string;
+	model: string;
+	prompt: string;
+	templates: TemplateUsage[];
+}
+
+/**
+ * Articles that do not fit a target's context window are rewritten section
+ * by section, then stitched together in a final consistency pass
+ */
+type GenerationStep =
+	| { phase: "section"; index: number; total: number }
+	| { phase: "stitch" };
+
+interface GenerationListener {
+	/** Called before each target is tried; text streamed so far is discarded */
+	onAttempt?(target: LLMTarget): void;
+	/** Called before each pass of a sectioned rewrite */
+	onStep?(step: GenerationStep): void;
+	/** Receives the final article text as it arrives */
+	onToken?: TokenHandler;
+}
+
+/** Shared across the section prompts of one article */
+interface SectionContext {
+	outline: string[];
+	keyTerms: string[];
+}
+
+type GenerationSettings = Omit<
+	GenerationRequest,
+	"model" | "prompt" | "maxTokens"
+>;
+
+type GenerationOutput = GenerationResult & {
+	prompt: string;
+	templates: TemplateUsage[];
+};
+
+class LLMError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "LLMError";
+		Object.setPrototypeOf(this, LLMError.prototype);
+	}
+}
+
+class LLMService {
+	private readonly generationSettings: Record<PromptStyle, GenerationSettings> =
+		{
+			full: {
+				temperature: 0.7,
+				topP: 0.95,
+				repetitionPenalty: 1.1,
+			},
+			compact: {
+				temperature: 0.8,
+			},
+		};
+	private readonly tokensPerWord = 1.5;
+	private readonly minOutputTokens = 256;
+	private readonly minChunkTokens = 200;
+	/** Share of the context window given to reference excerpts */
+	private readonly referenceShare = 0.2;
+	/** Output length relative to the original when no target length is set */
+	private readonly defaultLengthRatio = 1.2;
+	private readonly promptSeparator = "\n\n---\n\n";
+	private readonly queryTokens = 120;
+
+	/**
+	 * Optimize content, trying each target of the configured fallback chain
+	 * in order until one succeeds
+	 * @param request Original article and reference articles
+	 * @param targets Targets to try (default: LLM_PROVIDER_CHAIN)
+	 * @param listener Receives each attempt and, when given onToken, the
+	 * streamed output
+	 * @returns Optimized content and the provider/model that produced it
+	 * @throws LLMError if every target failed, with 429 if all were rate
+	 * limited
+	 */
+	async optimizeContent(
+		request: ContentOptimizationRequest,
+		targets: LLMTarget[] = llmConfig.chain,
+		listener: GenerationListener = {}
+	): Promise<ContentOptimizationResponse> {
+		const failures: LLMProviderError[] = [];
+		const templates = await promptTemplateService.resolveActive();
+
+		for (const target of targets) {
+			try {
+				console.log(
+					`🤖 Sending request to ${target.provider} (${target.model})...`
+				);
+				listener.onAttempt?.(target);
+
+				const result = await this.generate(
+					target,
+					request,
+					templates,
+					this.generationSettings[target.style],
+					listener
+				);
+
+				console.log("✅ Content optimized successfully");
+
+				return {
+					optimizedContent: result.text,
+					provider: result.provider,
+					model: result.model,
+					prompt: result.prompt,
+					templates: result.templates,
+				};
+			} catch (error) {
+				const failure =
+					error instanceof LLMProviderError
+						? error
+						: new LLMProviderError(
+								error instanceof Error ? error.message : String(error),
+								target.provider
+							);
+
+				console.error(
+					`LLM optimization error (${target.provider}/${target.model}):`,
+					failure.message
+				);
+				failures.push(failure);
+			}
+		}
+
+		if (failures.every((failure) => failure.rateLimited)) {
+			throw new LLMError(
+				"All LLM providers hit their rate limit. Please wait a moment and try again.",
+				429
+			);
+		}
+
+		throw new LLMError(
+			`Failed to optimize content: ${failures
+				.map((failure) => `[${failure.provider}] ${failure.message}`)
+				.join("; ")}`
+		);
+	}
+
+	/**
+	 * Resolve a provider/model override into targets. A provider alone
+	 * narrows the configured chain to that provider's targets; a provider and
+	 * model give a single target.
+	 * @throws Error if the provider is unknown or has no configured target
+	 */
+	resolveTargets(provider?: string, model?: string): LLMTarget[] {
+		if (!provider) return llmConfig.chain;
+
+		providerRegistry.get(provider);
+
+		if (model) {
+			return [llmConfig.parseTarget(`${provider}:${model}`)];
+		}
+
+		const targets = llmConfig.chain.filter(
+			(target) => target.provider === provider
+		);
+
+		if (targets.length === 0) {
+			throw new Error(
+				`No model is configured for provider "${provider}", specify one`
+			);
+		}
+
+		return targets;
+	}
+
+	/**
+	 * Optimize content with the single fast target (LLM_FAST_TARGET), without fallback
+	 */
+	async optimizeContentFast(
+		request: ContentOptimizationRequest
+	): Promise<ContentOptimizationResponse> {
+		const target = llmConfig.fastTarget;
+
+		try {
+			const result = await this.generate(
+				target,
+				request,
+				await promptTemplateService.resolveActive(),
+				{
+					temperature: 0.7,
+					topP: 0.9,
+				}
+			);
+
+			return {
+				optimizedContent: result.text,
+				provider: result.provider,
+				model: result.model,
+				prompt: result.prompt,
+				templates: result.templates,
+			};
+		} catch (error: any) {
+			console.error("Fast optimization error:", error.message);
+			throw error;
+		}
+	}
+
+	/**
+	 * Ask the fast target (LLM_FAST_TARGET) for web search queries on an
+	 * article's topic
+	 * @returns Up to count queries, one per line of the model's answer
+	 */
+	async suggestSearchQueries(
+		article: { title: string; content: string },
+		count: number
+	): Promise<string[]> {
+		const target = llmConfig.fastTarget;
+		const provider = providerRegistry.get(target.provider);
+		const templates = await promptTemplateService.resolveActive();
+
+		const prompt = this.renderPrompt(provider, target, templates.queries, {
+			title: article.title,
+			outline: contentChunker.outline(article.content).join("\n"),
+			keyTerms: contentChunker.keyTerms(article.content).join(", "),
+			count,
+		});
+
+		const result = await this.complete(
+			provider,
+			target,
+			prompt,
+			{ temperature: 0.3 },
+			this.queryTokens
+		);
+
+		return result.text
+			.split("\n")
+			.map((line) =>
+				line
+					.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "")
+					.replace(/^["'“]+|["'”]+$/g, "")
+					.trim()
+			)
+			.filter(
+				(line) =>
+					/^[\p{L}\p{N}]/u.test(line) &&
+					line.split(/\s+/).length >= 2 &&
+					line.length <= 120
+			)
+			.slice(0, count);
+	}
+
+	async testConnection(): Promise<boolean> {
+		const [target] = llmConfig.chain;
+
+		try {
+			await providerRegistry.get(target.provider).generate({
+				model: target.model,
+				prompt: "Hello, world!",
+				maxTokens: 10,
+			});
+
+			console.log(`✅ ${target.provider} connection successful`);
+			return true;
+		} catch (error: any) {
+			console.error(`❌ ${target.provider} connection failed:`, error.message);
+			return false;
+		}
+	}
+
+	/**
+	 * Run one target. Articles that fit its context window are rewritten in
+	 * one pass; longer ones section by section.
+	 */
+	private async generate(
+		target: LLMTarget,
+		request: ContentOptimizationRequest,
+		templates: ResolvedTemplates,
+		settings = this.generationSettings[target.style],
+		listener: GenerationListener = {}
+	): Promise<GenerationOutput> {
+		const provider = providerRegistry.get(target.provider);
+		const outputTokens = this.outputBudget(
+			request,
+			contentChunker.estimateTokens(request.originalContent)
+		);
+
+		const template =
+			target.style === "compact" ? templates.compact : templates.optimize;
+		const prompt = this.renderPrompt(provider, target, template, {
+			...this.articleVariables(request),
+			content: request.originalContent,
+			references: this.formatReferences(
+				request.referenceArticles,
+				Math.floor(target.contextWindow * this.referenceShare)
+			),
+			length: request.targetLength,
+		});
+
+		if (
+			contentChunker.estimateTokens(prompt) + outputTokens <=
+			target.contextWindow
+		) {
+			const result = await this.complete(
+				provider,
+				target,
+				prompt,
+				settings,
+				outputTokens,
+				listener.onToken
+			);
+			return { ...result, prompt, templates: [this.usage(template)] };
+		}
+
+		return this.generateInSections(
+			provider,
+			target,
+			request,
+			templates,
+			settings,
+			listener
+		);
+	}
+
+	/**
+	 * Rewrite each section with the article's outline and key terms as shared
+	 * context, then stitch the drafts in a consistency pass. The stitch pass
+	 * is skipped (drafts are joined as they are) for compact targets and when
+	 * the draft does not fit the context window.
+	 * @throws LLMError if the article is empty, so no section produced output
+	 */
+	private async generateInSections(
+		provider: LLMProvider,
+		target: LLMTarget,
+		request: ContentOptimizationRequest,
+		templates: ResolvedTemplates,
+		settings: GenerationSettings,
+		listener: GenerationListener
+	): Promise<GenerationOutput> {
+		const originalTokens = contentChunker.estimateTokens(
+			request.originalContent
+		);
+		const ratio = Math.min(
+			2,
+			Math.max(0.5, this.outputBudget(request, originalTokens) / originalTokens)
+		);
+
+		const context: SectionContext = {
+			outline: contentChunker.outline(request.originalContent),
+			keyTerms: contentChunker.keyTerms(request.originalContent),
+		};
+		const references = this.formatReferences(
+			request.referenceArticles,
+			Math.floor(target.contextWindow * (this.referenceShare / 2))
+		);
+		const sectionTemplate =
+			target.style === "compact" ? templates.compact : templates.section;
+
+		const sectionTokens = (chunk: ContentChunk) =>
+			Math.max(this.minOutputTokens, Math.ceil(chunk.tokens * ratio));
+
+		const sectionPrompt = (chunk: ContentChunk, index: number, total: number) =>
+			this.renderPrompt(provider, target, sectionTemplate, {
+				...this.articleVariables(request),
+				content: chunk.content,
+				references,
+				outline: context.outline.join("\n"),
+				keyTerms: context.keyTerms.join(", "),
+				part: index,
+				totalParts: total,
+				length: Math.round(sectionTokens(chunk) / this.tokensPerWord),
+			});
+
+		const overhead = contentChunker.estimateTokens(
+			sectionPrompt({ headings: [], content: "", tokens: 0 }, 1, 1)
+		);
+		const chunkTokens = Math.floor(
+			(target.contextWindow - overhead) / (1 + ratio)
+		);
+
+		if (chunkTokens < this.minChunkTokens) {
+			throw new LLMProviderError(
+				`The ${target.contextWindow}-token context window of ${target.model} is too small for this article`,
+				target.provider
+			);
+		}
+
+		const chunks = contentChunker.chunk(request.originalContent, chunkTokens);
+		const drafts: string[] = [];
+		const prompts: string[] = [];
+		let result: GenerationResult | undefined;
+
+		console.log(`  ✂️  Rewriting ${chunks.length} sections separately...`);
+
+		for (const [index, chunk] of chunks.entries()) {
+			listener.onStep?.({
+				phase: "section",
+				index: index + 1,
+				total: chunks.length,
+			});
+
+			const prompt = sectionPrompt(chunk, index + 1, chunks.length);
+			result = await this.complete(
+				provider,
+				target,
+				prompt,
+				settings,
+				sectionTokens(chunk)
+			);
+
+			drafts.push(result.text);
+			prompts.push(prompt);
+		}
+
+		if (!result) {
+			throw new LLMError(
+				"The article has no content to rewrite, no section produced output"
+			);
+		}
+
+		const draft = drafts.join("\n\n");
+		const stitchPrompt = this.renderPrompt(provider, target, templates.stitch, {
+			...this.articleVariables(request),
+			draft,
+		});
+		const stitchTokens = Math.ceil(contentChunker.estimateTokens(draft) * 1.1);
+
+		if (
+			target.style === "compact" ||
+			contentChunker.estimateTokens(stitchPrompt) + stitchTokens >
+				target.contextWindow
+		) {
+			if (target.style === "full") {
+				console.log(
+					"  ⚠️  Draft too long for a consistency pass, joining sections"
+				);
+			}
+
+			listener.onToken?.(draft);
+
+			return {
+				text: draft,
+				provider: result.provider,
+				model: result.model,
+				prompt: prompts.join(this.promptSeparator),
+				templates: [this.usage(sectionTemplate)],
+			};
+		}
+
+		listener.onStep?.({ phase: "stitch" });
+
+		const stitched = await this.complete(
+			provider,
+			target,
+			stitchPrompt,
+			settings,
+			stitchTokens,
+			listener.onToken
+		);
+
+		return {
+			...stitched,
+			prompt: [...prompts, stitchPrompt].join(this.promptSeparator),
+			templates: [this.usage(sectionTemplate), this.usage(templates.stitch)],
+		};
+	}
+
+	/**
+	 * Send one prompt, giving the output whatever the context window leaves
+	 * up to the requested length. With onToken, streams from providers that
+	 * support it; other providers pass their whole output to onToken at once.
+	 */
+	private async complete(
+		provider: LLMProvider,
+		target: LLMTarget,
+		prompt: string,
+		settings: GenerationSettings,
+		outputTokens: number,
+		onToken?: TokenHandler
+	): Promise<GenerationResult> {
+		const available =
+			target.contextWindow - contentChunker.estimateTokens(prompt);
+
+		if (available < this.minOutputTokens) {
+			throw new LLMProviderError(
+				`Prompt does not fit the ${target.contextWindow}-token context window of ${target.model}`,
+				target.provider
+			);
+		}
+
+		const request: GenerationRequest = {
+			model: target.model,
+			prompt,
+			...settings,
+			maxTokens: Math.min(outputTokens, available),
+		};
+
+		if (onToken && provider.generateStream) {
+			return provider.generateStream(request, onToken);
+		}
+
+		const result = await provider.generate(request);
+		onToken?.(result.text);
+
+		return result;
+	}
+
+	/**
+	 * Tokens to allow for the rewrite: the target length if one is set,
+	 * otherwise a little more than the original
+	 */
+	private outputBudget(
+		request: ContentOptimizationRequest,
+		originalTokens: number
+	): number {
+		const tokens = request.targetLength
+			? request.targetLength * this.tokensPerWord
+			: originalTokens * this.defaultLengthRatio;
+
+		return Math.max(this.minOutputTokens, Math.ceil(tokens));
+	}
+
+	/**
+	 * Fill in a template and, for backends that take raw text, wrap it in
+	 * the target's instruction format
+	 */
+	private renderPrompt(
+		provider: LLMProvider,
+		target: LLMTarget,
+		template: ResolvedTemplate,
+		variables: TemplateVariables
+	): string {
+		const prompt = promptTemplateService.render(template.body, variables);
+
+		if (provider.appliesChatTemplate) return prompt;
+
+		// Compact targets are small models that may not be chat-tuned at all,
+		// so they are only wrapped when the target names a format
+		const format =
+			target.chatFormat ||
+			(target.style === "full" ? chatFormatter.detect(target.model) : "plain");
+
+		return chatFormatter.format(prompt, format);
+	}
+
+	private articleVariables(
+		request: ContentOptimizationRequest
+	): TemplateVariables {
+		return {
+			title: request.originalTitle,
+			tone: request.tone,
+			audience: request.audience,
+		};
+	}
+
+	private usage(template: ResolvedTemplate): TemplateUsage {
+		return {
+			key: template.key,
+			version: template.version,
+			templateId: template.templateId,
+		};
+	}
+
+	private formatReferences(
+		referenceArticles: ContentOptimizationRequest["referenceArticles"],
+		budgetTokens: number
+	): string {
+		const perReference = Math.floor(
+			budgetTokens / Math.max(1, referenceArticles.length)
+		);
+
+		return referenceArticles
+			.map(
+				(article, index) => `### Reference ${index + 1}: ${article.title}
+Source: ${article.url}
+Content Preview:
+${contentChunker.truncate(article.content, perReference)}
+
+`
+			)
+			.join("");
+	}
+}
+
+export default new LLMService();
+export {
+	ARTICLE_TONES,
+	ArticleTone,
+	ContentOptimizationRequest,
+	ContentOptimizationResponse,
+	GenerationListener,
+	GenerationStep,
+	LLMError,
+	TemplateUsage,
+};
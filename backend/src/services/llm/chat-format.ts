@@ -0,0 +1,61 @@
+type ChatFormat =
+	| "mistral"
+	| "llama3"
+	| "chatml"
+	| "gemma"
+	| "zephyr"
+	| "plain";
+
+const CHAT_FORMATS: ChatFormat[] = [
+	"mistral",
+	"llama3",
+	"chatml",
+	"gemma",
+	"zephyr",
+	"plain",
+];
+
+/**
+ * Wraps prompts in the instruction format a model family was trained on.
+ * Only needed for raw text-generation backends; chat-completion APIs apply
+ * the model's template themselves.
+ */
+class ChatFormatter {
+	// Checked in order, so more specific patterns come first
+	private readonly families: Array<[RegExp, ChatFormat]> = [
+		[/llama-?3/i, "llama3"],
+		[/mistral|mixtral|llama-?2/i, "mistral"],
+		[/gemma/i, "gemma"],
+		[/zephyr|tinyllama/i, "zephyr"],
+		[/qwen|openhermes|dolphin|\byi-|chatml/i, "chatml"],
+	];
+
+	/**
+	 * Guess a model's chat format from its name (plain if unknown)
+	 */
+	detect(model: string): ChatFormat {
+		return (
+			this.families.find(([pattern]) => pattern.test(model))?.[1] || "plain"
+		);
+	}
+
+	format(prompt: string, format: ChatFormat): string {
+		switch (format) {
+			case "mistral":
+				return `<s>[INST] ${prompt} [/INST]\n\n`;
+			case "llama3":
+				return `<|begin_of_text|><|start_header_id|>user<|end_header_id|>\n\n${prompt}<|eot_id|><|start_header_id|>assistant<|end_header_id|>\n\n`;
+			case "chatml":
+				return `<|im_start|>user\n${prompt}<|im_end|>\n<|im_start|>assistant\n`;
+			case "gemma":
+				return `<start_of_turn>user\n${prompt}<end_of_turn>\n<start_of_turn>model\n`;
+			case "zephyr":
+				return `<|user|>\n${prompt}</s>\n<|assistant|>\n`;
+			case "plain":
+				return prompt;
+		}
+	}
+}
+
+export default new ChatFormatter();
+export { CHAT_FORMATS, ChatFormat };
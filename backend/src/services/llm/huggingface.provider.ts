@@ -0,0 +1,98 @@
+import { InferenceClient } from "@huggingface/inference";
+import {
+	GenerationRequest,
+	GenerationResult,
+	LLMProvider,
+	LLMProviderError,
+	TokenHandler,
+} from "./llm-provider";
+
+class HuggingFaceProvider implements LLMProvider {
+	readonly name = "huggingface";
+	readonly appliesChatTemplate = false;
+
+	private client?: InferenceClient;
+
+	async generate(request: GenerationRequest): Promise<GenerationResult> {
+		try {
+			const response = await this.getClient().textGeneration({
+				model: request.model,
+				inputs: request.prompt,
+				parameters: {
+					max_new_tokens: request.maxTokens,
+					temperature: request.temperature,
+					top_p: request.topP,
+					repetition_penalty: request.repetitionPenalty,
+					return_full_text: false,
+				},
+			});
+
+			return {
+				text: response.generated_text.trim(),
+				provider: this.name,
+				model: request.model,
+			};
+		} catch (error) {
+			throw this.toProviderError(error);
+		}
+	}
+
+	async generateStream(
+		request: GenerationRequest,
+		onToken: TokenHandler
+	): Promise<GenerationResult> {
+		let text = "";
+
+		try {
+			const stream = this.getClient().textGenerationStream({
+				model: request.model,
+				inputs: request.prompt,
+				parameters: {
+					max_new_tokens: request.maxTokens,
+					temperature: request.temperature,
+					top_p: request.topP,
+					repetition_penalty: request.repetitionPenalty,
+					return_full_text: false,
+				},
+			});
+
+			for await (const chunk of stream) {
+				if (chunk.token.special) continue;
+
+				text += chunk.token.text;
+				onToken(chunk.token.text);
+			}
+
+			return { text: text.trim(), provider: this.name, model: request.model };
+		} catch (error) {
+			throw this.toProviderError(error);
+		}
+	}
+
+	private toProviderError(error: any): LLMProviderError {
+		const message: string = error?.message || String(error);
+
+		return new LLMProviderError(
+			message,
+			this.name,
+			message.toLowerCase().includes("rate limit"),
+			error
+		);
+	}
+
+	private getClient(): InferenceClient {
+		if (!this.client) {
+			const apiKey = process.env.HUGGING_FACE_API_KEY || "";
+
+			if (!apiKey) {
+				console.warn("⚠️  Hugging Face API key not configured");
+			}
+
+			this.client = new InferenceClient(apiKey);
+		}
+
+		return this.client;
+	}
+}
+
+export default new HuggingFaceProvider();
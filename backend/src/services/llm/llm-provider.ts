@@ -0,0 +1,55 @@
+interface GenerationRequest {
+	model: string;
+	prompt: string;
+	maxTokens: number;
+	temperature?: number;
+	topP?: number;
+	repetitionPenalty?: number;
+}
+
+interface GenerationResult {
+	text: string;
+	provider: string;
+	model: string;
+}
+
+type TokenHandler = (text: string) => void;
+
+interface LLMProvider {
+	readonly name: string;
+	/**
+	 * True when the backend applies the model's chat template itself, so
+	 * prompts should be sent without model-specific instruction tokens
+	 */
+	readonly appliesChatTemplate: boolean;
+	generate(request: GenerationRequest): Promise<GenerationResult>;
+	/**
+	 * Like generate, but passes text to onToken as it is produced. Providers
+	 * without streaming support leave this out.
+	 */
+	generateStream?(
+		request: GenerationRequest,
+		onToken: TokenHandler
+	): Promise<GenerationResult>;
+}
+
+class LLMProviderError extends Error {
+	constructor(
+		message: string,
+		public readonly provider: string,
+		public readonly rateLimited: boolean = false,
+		public readonly originalError?: unknown
+	) {
+		super(message);
+		this.name = "LLMProviderError";
+		Object.setPrototypeOf(this, LLMProviderError.prototype);
+	}
+}
+
+export {
+	GenerationRequest,
+	GenerationResult,
+	LLMProvider,
+	LLMProviderError,
+	TokenHandler,
+};
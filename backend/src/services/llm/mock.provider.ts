@@ -0,0 +1,89 @@
+import crypto from "crypto";
+import {
+	GenerationRequest,
+	GenerationResult,
+	LLMProvider,
+	TokenHandler,
+} from "./llm-provider";
+
+/**
+ * Deterministic offline provider: the same prompt always yields the same
+ * markdown, so tests and local development work without network access.
+ */
+class MockProvider implements LLMProvider {
+	readonly name = "mock";
+	readonly appliesChatTemplate = true;
+
+	async generate(request: GenerationRequest): Promise<GenerationResult> {
+		const digest = crypto
+			.createHash("sha256")
+			.update(`${request.model}\n${request.prompt}`)
+			.digest("hex")
+			.substring(0, 12);
+
+		const words = this.extractSource(request.prompt)
+			.split(/\s+/)
+			.filter((word) => /[A-Za-z]/.test(word))
+			.map((word) => word.replace(/[.,;:!?]+$/, ""));
+
+		const excerpt = (start: number, length: number) =>
+			words.slice(start, start + length).join(" ") || "Lorem ipsum";
+
+		const text = [
+			`## Overview`,
+			``,
+			`${excerpt(0, 40)}.`,
+			``,
+			`## Key Points`,
+			``,
+			`- ${excerpt(40, 12)}`,
+			`- ${excerpt(52, 12)}`,
+			`- ${excerpt(64, 12)}`,
+			``,
+			`## Conclusion`,
+			``,
+			`${excerpt(76, 30)}.`,
+			``,
+			`<!-- mock:${request.model}:${digest} -->`,
+		].join("\n");
+
+		return {
+			text,
+			provider: this.name,
+			model: request.model,
+		};
+	}
+
+	/**
+	 * Emit the generate() output word by word
+	 */
+	async generateStream(
+		request: GenerationRequest,
+		onToken: TokenHandler
+	): Promise<GenerationResult> {
+		const result = await this.generate(request);
+
+		for (const token of result.text.match(/\S+\s*|\s+/g) || []) {
+			onToken(token);
+			await new Promise((resolve) => setImmediate(resolve));
+		}
+
+		return result;
+	}
+
+	/**
+	 * Pick the article body (or section, or draft) out of an optimization
+	 * prompt so the output reads like a rewrite instead of an echo of the
+	 * instructions
+	 */
+	private extractSource(prompt: string): string {
+		const cleaned = prompt.replace(/<\/?s>|\[\/?INST\]/g, " ");
+		const match = cleaned.match(
+			/(?:Content:|## Part \d+ of \d+|## Draft)\s*\n([\s\S]*?)(?:\n## (?:Reference Articles|Your Task)|\nWrite ONLY|$)/
+		);
+
+		return match ? match[1] : cleaned;
+	}
+}
+
+export default new MockProvider();
@@ -0,0 +1,139 @@
+import axios from "axios";
+import { Readable } from "stream";
+import {
+	GenerationRequest,
+	GenerationResult,
+	LLMProvider,
+	LLMProviderError,
+	TokenHandler,
+} from "./llm-provider";
+
+interface ChatCompletionResponse {
+	choices: Array<{
+		message: {
+			content: string;
+		};
+	}>;
+}
+
+interface ChatCompletionChunk {
+	choices: Array<{
+		delta: {
+			content?: string | null;
+		};
+	}>;
+}
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` API, e.g. OpenAI itself,
+ * a local Ollama (`http://localhost:11434/v1`) or llama.cpp server.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+	readonly name = "openai-compatible";
+	readonly appliesChatTemplate = true;
+
+	private readonly timeout = 180000;
+
+	async generate(request: GenerationRequest): Promise<GenerationResult> {
+		try {
+			const response = await axios.post<ChatCompletionResponse>(
+				`${this.getBaseUrl()}/chat/completions`,
+				this.buildBody(request),
+				{ headers: this.getHeaders(), timeout: this.timeout }
+			);
+
+			const text = response.data.choices?.[0]?.message?.content || "";
+
+			return {
+				text: text.trim(),
+				provider: this.name,
+				model: request.model,
+			};
+		} catch (error) {
+			throw this.toProviderError(error);
+		}
+	}
+
+	async generateStream(
+		request: GenerationRequest,
+		onToken: TokenHandler
+	): Promise<GenerationResult> {
+		let text = "";
+
+		try {
+			const response = await axios.post<Readable>(
+				`${this.getBaseUrl()}/chat/completions`,
+				{ ...this.buildBody(request), stream: true },
+				{
+					headers: this.getHeaders(),
+					timeout: this.timeout,
+					responseType: "stream",
+				}
+			);
+
+			// Server-sent events: "data: {chunk}" lines, ending with "data: [DONE]"
+			let buffer = "";
+
+			for await (const data of response.data) {
+				buffer += data.toString();
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+
+				for (const line of lines) {
+					if (!line.startsWith("data:")) continue;
+
+					const payload = line.slice("data:".length).trim();
+					if (!payload || payload === "[DONE]") continue;
+
+					const chunk: ChatCompletionChunk = JSON.parse(payload);
+					const token = chunk.choices?.[0]?.delta?.content;
+
+					if (token) {
+						text += token;
+						onToken(token);
+					}
+				}
+			}
+
+			return { text: text.trim(), provider: this.name, model: request.model };
+		} catch (error) {
+			throw this.toProviderError(error);
+		}
+	}
+
+	private buildBody(request: GenerationRequest) {
+		return {
+			model: request.model,
+			messages: [{ role: "user", content: request.prompt }],
+			max_tokens: request.maxTokens,
+			temperature: request.temperature,
+			top_p: request.topP,
+		};
+	}
+
+	private getBaseUrl(): string {
+		return (
+			process.env.OPENAI_COMPAT_BASE_URL || "http://localhost:11434/v1"
+		).replace(/\/+$/, "");
+	}
+
+	private getHeaders(): Record<string, string> {
+		const apiKey = process.env.OPENAI_COMPAT_API_KEY;
+		return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+	}
+
+	private toProviderError(error: any): LLMProviderError {
+		const status = error?.response?.status;
+
+		return new LLMProviderError(
+			status === 429
+				? "Rate limit exceeded"
+				: `Request failed: ${error?.message || String(error)}`,
+			this.name,
+			status === 429,
+			error
+		);
+	}
+}
+
+export default new OpenAICompatibleProvider();
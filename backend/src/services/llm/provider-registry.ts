@@ -0,0 +1,39 @@
+import { LLMProvider } from "./llm-provider";
+import huggingFaceProvider from "./huggingface.provider";
+import openAICompatibleProvider from "./openai-compatible.provider";
+import mockProvider from "./mock.provider";
+
+class LLMProviderRegistry {
+	private readonly providers = new Map<string, LLMProvider>();
+
+	register(provider: LLMProvider): void {
+		this.providers.set(provider.name, provider);
+	}
+
+	/**
+	 * @throws Error if no provider is registered under the name
+	 */
+	get(name: string): LLMProvider {
+		const provider = this.providers.get(name);
+
+		if (!provider) {
+			throw new Error(
+				`Unknown LLM provider "${name}". Available: ${this.list().join(", ")}`
+			);
+		}
+
+		return provider;
+	}
+
+	list(): string[] {
+		return Array.from(this.providers.keys());
+	}
+}
+
+const registry = new LLMProviderRegistry();
+registry.register(huggingFaceProvider);
+registry.register(openAICompatibleProvider);
+registry.register(mockProvider);
+
+export default registry;
+export { LLMProviderRegistry };
@@ -0,0 +1,303 @@
+import { IArticle } from "../models/Article";
+import { IReferenceSource } from "../models/ReferenceSource";
+import queryPlannerService, { ExecutedQuery } from "./query-planner.service";
+import sourceService from "./source.service";
+import referenceSourceService from "./reference-source.service";
+import llmService, { ArticleTone, TemplateUsage } from "./llm.service";
+import { TokenHandler } from "./llm/llm-provider";
+import articleQualityService, {
+	QualityError,
+	QualityReport,
+} from "./article-quality.service";
+import { LLMTarget } from "../config/llm";
+
+interface ReferenceArticle {
+	title: string;
+	url: string;
+	content: string;
+	sourceId: IReferenceSource["_id"];
+	query: string;
+	rank: number;
+	score: number;
+}
+
+type OptimizationStage =
+	| "searching"
+	| "scraping"
+	| "generating"
+	| "rewriting-section"
+	| "stitching"
+	| "evaluating"
+	| "saving";
+
+/**
+ * Pipeline progress callbacks. "generating" is reported once per LLM target
+ * tried; tokens streamed for a failed target should be discarded. Long
+ * articles then report "rewriting-section" per section and "stitching".
+ */
+interface OptimizationProgress {
+	onStage?(stage: OptimizationStage, detail?: Record<string, unknown>): void;
+	onToken?: TokenHandler;
+}
+
+interface OptimizationOptions {
+	referenceCount?: number;
+	targetLength?: number;
+	tone?: ArticleTone;
+	audience?: string;
+	targets?: LLMTarget[];
+	progress?: OptimizationProgress;
+}
+
+interface OptimizedArticleData {
+	title: string;
+	content: string;
+	updatedContent: string;
+	url: string;
+	isOriginal: false;
+	originalArticleId: IArticle["_id"];
+	author?: string;
+	media?: IArticle["media"];
+	references: Array<{
+		title: string;
+		url: string;
+		sourceId: IReferenceSource["_id"];
+		query: string;
+		rank: number;
+		score: number;
+	}>;
+	generation: {
+		provider: string;
+		model: string;
+		prompt: string;
+		generatedAt: Date;
+		options?: {
+			referenceCount: number;
+			targetLength?: number;
+			tone?: ArticleTone;
+			audience?: string;
+		};
+		templates: TemplateUsage[];
+		search: { queries: ExecutedQuery[] };
+	};
+	quality: QualityReport;
+}
+
+class OptimizationService {
+	private readonly referenceLimit = 2;
+	private readonly delayBetweenReferences = 1000;
+	private readonly spareCandidates = 3;
+
+	/**
+	 * Run the search → scrape → LLM pipeline for an original article. The
+	 * best-ranked candidates of the planned queries that can be fetched are
+	 * used as references.
+	 * @param article Original article to optimize
+	 * @param options Reference count, target length, tone, audience, LLM
+	 * targets and progress callbacks
+	 * @returns Optimized version ready to be stored, or null if no references were found
+	 * @throws QualityError if the output is rejected by the quality checks
+	 */
+	async buildOptimizedVersion(
+		article: IArticle,
+		options: OptimizationOptions = {}
+	): Promise<OptimizedArticleData | null> {
+		const referenceCount = options.referenceCount || this.referenceLimit;
+		const progress = options.progress || {};
+
+		console.log(`\n📝 Processing: "${article.title}"`);
+
+		console.log("  🔍 Searching for reference articles...");
+		const search = await queryPlannerService.search(article, {
+			excludedDomains: await sourceService.getExcludedDomains(article.sourceId),
+			onQuery: (query, index, total) => {
+				console.log(`    → ${query.query} (${query.source})`);
+				progress.onStage?.("searching", {
+					query: query.query,
+					index: index + 1,
+					total,
+				});
+			},
+		});
+
+		if (search.results.length === 0) {
+			console.log("  ⚠️  No search results found, skipping...");
+			return null;
+		}
+
+		console.log(
+			`  ✓ Found ${search.results.length} candidates with ${search.queries.length} queries`
+		);
+
+		console.log("  📥 Scraping reference articles...");
+		const referenceArticles: ReferenceArticle[] = [];
+		// Lower-ranked candidates stand in for pages that cannot be fetched
+		const candidates = search.results.slice(
+			0,
+			referenceCount + this.spareCandidates
+		);
+
+		for (const result of candidates) {
+			if (referenceArticles.length >= referenceCount) break;
+
+			progress.onStage?.("scraping", {
+				reference: referenceArticles.length + 1,
+				total: referenceCount,
+				url: result.url,
+			});
+
+			try {
+				const { source, reused } = await referenceSourceService.fetch({
+					title: result.title,
+					url: result.url,
+					query: result.query,
+					rank: result.rank,
+				});
+				referenceArticles.push({
+					title: result.title,
+					url: result.url,
+					content: source.content || "",
+					sourceId: source._id,
+					query: result.query,
+					rank: result.rank,
+					score: result.score,
+				});
+
+				if (reused) {
+					console.log(`    ✓ Reused: ${result.title.substring(0, 50)}...`);
+				} else {
+					console.log(`    ✓ Scraped: ${result.title.substring(0, 50)}...`);
+					await this.sleep(this.delayBetweenReferences);
+				}
+			} catch (error) {
+				console.log(`    ✗ Failed: ${result.url}`);
+			}
+		}
+
+		if (referenceArticles.length === 0) {
+			console.log("  ⚠️  Could not scrape any reference articles, skipping...");
+			return null;
+		}
+
+		console.log(
+			"  🤖 Optimizing content with AI (this may take 30-60 seconds)..."
+		);
+
+		const optimized = await llmService.optimizeContent(
+			{
+				originalTitle: article.title,
+				originalContent: article.content,
+				referenceArticles,
+				targetLength: options.targetLength,
+				tone: options.tone,
+				audience: options.audience,
+			},
+			options.targets,
+			{
+				onAttempt: (target) =>
+					progress.onStage?.("generating", {
+						provider: target.provider,
+						model: target.model,
+					}),
+				onStep: (step) =>
+					step.phase === "section"
+						? progress.onStage?.("rewriting-section", {
+								section: step.index,
+								total: step.total,
+						  })
+						: progress.onStage?.("stitching"),
+				onToken: progress.onToken,
+			}
+		);
+
+		console.log(
+			`  ✓ Content optimized with ${optimized.provider} (${optimized.model})`
+		);
+
+		progress.onStage?.("evaluating");
+		const quality = articleQualityService.evaluate({
+			output: optimized.optimizedContent,
+			original: { title: article.title, content: article.content },
+			references: referenceArticles,
+		});
+
+		if (quality.status === "rejected") {
+			console.log(`  ✗ Output rejected: ${quality.issues.join(", ")}`);
+			throw new QualityError(
+				`Generated content failed quality checks: ${quality.issues.join(", ")}`,
+				quality
+			);
+		}
+
+		console.log(
+			`  ✓ Quality score ${quality.score}${
+				quality.status === "flagged"
+					? ` (flagged: ${quality.issues.join(", ")})`
+					: ""
+			}`
+		);
+
+		const referencesSection = this.formatReferences(referenceArticles);
+		const finalContent = `${optimized.optimizedContent}\n\n${referencesSection}`;
+
+		return {
+			title: `${article.title} (Optimized)`,
+			content: article.content,
+			updatedContent: finalContent,
+			url: `${article.url}-optimized-${Date.now()}`,
+			isOriginal: false,
+			originalArticleId: article._id,
+			author: article.author,
+			media: article.media,
+			references: referenceArticles.map((ref) => ({
+				title: ref.title,
+				url: ref.url,
+				sourceId: ref.sourceId,
+				query: ref.query,
+				rank: ref.rank,
+				score: ref.score,
+			})),
+			generation: {
+				provider: optimized.provider,
+				model: optimized.model,
+				prompt: optimized.prompt,
+				generatedAt: new Date(),
+				options: {
+					referenceCount,
+					targetLength: options.targetLength,
+					tone: options.tone,
+					audience: options.audience,
+				},
+				templates: optimized.templates,
+				search: { queries: search.queries },
+			},
+			quality,
+		};
+	}
+
+	private formatReferences(
+		references: Array<{ title: string; url: string }>
+	): string {
+		let section = "## References\n\n";
+		section += "This article was optimized based on insights from:\n\n";
+
+		references.forEach((ref, index) => {
+			section += `${index + 1}. [${ref.title}](${ref.url})\n`;
+		});
+
+		return section;
+	}
+
+	private sleep(ms: number): Promise<void> {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+}
+
+export default new OptimizationService();
+export {
+	OptimizationOptions,
+	OptimizationProgress,
+	OptimizationStage,
+	OptimizedArticleData,
+	ReferenceArticle,
+};
@@ -0,0 +1,167 @@
+import contentExtractor from "./content-extractor.service";
+
+interface CopiedSpan {
+	text: string;
+	words: number;
+}
+
+interface ReferenceOriginality {
+	url: string;
+	title?: string;
+	/** Percentage of the article's words copied from this reference */
+	similarity: number;
+	matchedWords: number;
+	/** Longest copied passages first */
+	spans: CopiedSpan[];
+}
+
+interface OriginalityReport {
+	wordCount: number;
+	/** Percentage of the article's words found verbatim in any reference */
+	similarity: number;
+	references: ReferenceOriginality[];
+}
+
+interface OriginalitySource {
+	url: string;
+	title?: string;
+	content: string;
+}
+
+interface WordToken {
+	word: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Finds passages of an article copied word for word from its reference
+ * articles. Both texts are cut into overlapping runs of words (shingles);
+ * article words covered by a run that also occurs in a reference count as
+ * copied, and neighbouring copied words form a span.
+ */
+class OriginalityService {
+	private readonly shingleSize = 6;
+	private readonly spanLimit = 20;
+
+	/**
+	 * @param markdown Article text (markdown)
+	 * @param sources Reference articles to compare with
+	 */
+	compare(markdown: string, sources: OriginalitySource[]): OriginalityReport {
+		const text = contentExtractor.toPlainText(markdown);
+		const tokens = this.tokenize(text);
+		const copied = new Array<boolean>(tokens.length).fill(false);
+
+		const references = sources.map((source) => {
+			const covered = this.coverage(tokens, source.content);
+			covered.forEach((isCovered, index) => {
+				if (isCovered) copied[index] = true;
+			});
+
+			const matchedWords = covered.filter(Boolean).length;
+
+			return {
+				url: source.url,
+				title: source.title,
+				similarity: this.percentage(matchedWords, tokens.length),
+				matchedWords,
+				spans: this.spans(text, tokens, covered)
+					.sort((a, b) => b.words - a.words)
+					.slice(0, this.spanLimit),
+			};
+		});
+
+		return {
+			wordCount: tokens.length,
+			similarity: this.percentage(copied.filter(Boolean).length, tokens.length),
+			references: references.sort((a, b) => b.similarity - a.similarity),
+		};
+	}
+
+	/**
+	 * Which article words are part of a shingle the reference also contains
+	 */
+	private coverage(tokens: WordToken[], referenceMarkdown: string): boolean[] {
+		const reference = this.shingles(
+			this.tokenize(contentExtractor.toPlainText(referenceMarkdown)).map(
+				(token) => token.word
+			)
+		);
+		const covered = new Array<boolean>(tokens.length).fill(false);
+		const words = tokens.map((token) => token.word);
+
+		for (let i = 0; i + this.shingleSize <= words.length; i++) {
+			if (reference.has(words.slice(i, i + this.shingleSize).join(" "))) {
+				covered.fill(true, i, i + this.shingleSize);
+			}
+		}
+
+		return covered;
+	}
+
+	private spans(
+		text: string,
+		tokens: WordToken[],
+		covered: boolean[]
+	): CopiedSpan[] {
+		const spans: CopiedSpan[] = [];
+		let first = -1;
+
+		for (let i = 0; i <= tokens.length; i++) {
+			if (i < tokens.length && covered[i]) {
+				if (first === -1) first = i;
+				continue;
+			}
+
+			if (first !== -1) {
+				spans.push({
+					text: text
+						.substring(tokens[first].start, tokens[i - 1].end)
+						.replace(/\s+/g, " "),
+					words: i - first,
+				});
+				first = -1;
+			}
+		}
+
+		return spans;
+	}
+
+	private shingles(words: string[]): Set<string> {
+		const shingles = new Set<string>();
+
+		for (let i = 0; i + this.shingleSize <= words.length; i++) {
+			shingles.add(words.slice(i, i + this.shingleSize).join(" "));
+		}
+
+		return shingles;
+	}
+
+	/**
+	 * Lowercased words with their position in the text, so spans can be
+	 * quoted as written
+	 */
+	private tokenize(text: string): WordToken[] {
+		return Array.from(
+			text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu),
+			(match) => ({
+				word: match[0].toLowerCase().replace(/’/g, "'"),
+				start: match.index!,
+				end: match.index! + match[0].length,
+			})
+		);
+	}
+
+	private percentage(part: number, total: number): number {
+		return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+	}
+}
+
+export default new OriginalityService();
+export {
+	CopiedSpan,
+	OriginalityReport,
+	OriginalitySource,
+	ReferenceOriginality,
+};
@@ -0,0 +1,332 @@
+import mongoose from "mongoose";
+import PromptTemplate, {
+	IPromptTemplate,
+	PROMPT_TEMPLATE_KEYS,
+	PromptTemplateKey,
+} from "../models/PromptTemplate";
+import Article from "../models/Article";
+import {
+	DEFAULT_PROMPT_TEMPLATES,
+	PROMPT_TEMPLATE_VARIABLES,
+	REQUIRED_PROMPT_VARIABLES,
+} from "../config/prompt-templates";
+
+/**
+ * The template version a prompt was rendered from. Version 0 is the
+ * built-in template.
+ */
+interface ResolvedTemplate {
+	key: PromptTemplateKey;
+	version: number;
+	templateId?: mongoose.Types.ObjectId;
+	body: string;
+}
+
+type ResolvedTemplates = Record<PromptTemplateKey, ResolvedTemplate>;
+
+type TemplateVariables = Record<string, string | number | undefined>;
+
+interface PromptTemplateSummary {
+	key: PromptTemplateKey;
+	variables: string[];
+	activeVersion: number;
+	latestVersion: number;
+	description?: string;
+	updatedAt?: Date;
+}
+
+class PromptTemplateError extends Error {
+	constructor(message: string, public readonly statusCode: number = 400) {
+		super(message);
+		this.name = "PromptTemplateError";
+		Object.setPrototypeOf(this, PromptTemplateError.prototype);
+	}
+}
+
+// {{#name}}…{{/name}} and {{^name}}…{{/name}}
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+class PromptTemplateService {
+	/**
+	 * Fill in a template. Unknown and unset variables render as empty text.
+	 */
+	render(body: string, variables: TemplateVariables): string {
+		const isSet = (name: string) =>
+			variables[name] !== undefined && String(variables[name]).trim() !== "";
+
+		return body
+			.replace(SECTION_PATTERN, (_match, type, name, inner) =>
+				(type === "#") === isSet(name) ? inner : ""
+			)
+			.replace(VARIABLE_PATTERN, (_match, name) =>
+				isSet(name) ? String(variables[name]) : ""
+			);
+	}
+
+	/**
+	 * The active version of every template. Falls back to the built-in
+	 * templates when the database is not connected, e.g. in offline scripts.
+	 */
+	async resolveActive(): Promise<ResolvedTemplates> {
+		const resolved = Object.fromEntries(
+			PROMPT_TEMPLATE_KEYS.map((key) => [
+				key,
+				{ key, version: 0, body: DEFAULT_PROMPT_TEMPLATES[key].body },
+			])
+		) as ResolvedTemplates;
+
+		if (mongoose.connection.readyState !== 1) {
+			return resolved;
+		}
+
+		const active = await PromptTemplate.find({ isActive: true });
+
+		for (const template of active) {
+			resolved[template.key] = {
+				key: template.key,
+				version: template.version,
+				templateId: template._id as mongoose.Types.ObjectId,
+				body: template.body,
+			};
+		}
+
+		return resolved;
+	}
+
+	/**
+	 * Every template key with its active and latest version
+	 */
+	async list(): Promise<PromptTemplateSummary[]> {
+		const [active, latest] = await Promise.all([
+			PromptTemplate.find({ isActive: true }),
+			PromptTemplate.aggregate<{ _id: PromptTemplateKey; version: number }>([
+				{ $group: { _id: "$key", version: { $max: "$version" } } },
+			]),
+		]);
+
+		return PROMPT_TEMPLATE_KEYS.map((key) => {
+			const current = active.find((template) => template.key === key);
+
+			return {
+				key,
+				variables: PROMPT_TEMPLATE_VARIABLES[key],
+				activeVersion: current?.version || 0,
+				latestVersion: latest.find((entry) => entry._id === key)?.version || 0,
+				description: current
+					? current.description
+					: DEFAULT_PROMPT_TEMPLATES[key].description,
+				updatedAt: current?.createdAt,
+			};
+		});
+	}
+
+	/**
+	 * All versions of a template, newest first, after the built-in version 0
+	 * @throws PromptTemplateError if the key is unknown
+	 */
+	async getVersions(key: string): Promise<{
+		key: PromptTemplateKey;
+		variables: string[];
+		builtIn: { version: 0; description: string; body: string };
+		versions: IPromptTemplate[];
+	}> {
+		const templateKey = this.parseKey(key);
+
+		return {
+			key: templateKey,
+			variables: PROMPT_TEMPLATE_VARIABLES[templateKey],
+			builtIn: { version: 0, ...DEFAULT_PROMPT_TEMPLATES[templateKey] },
+			versions: await PromptTemplate.find({ key: templateKey }).sort({
+				version: -1,
+			}),
+		};
+	}
+
+	/**
+	 * @throws PromptTemplateError if the key or version does not exist
+	 */
+	async getVersion(key: string, version: number): Promise<IPromptTemplate> {
+		const template = await PromptTemplate.findOne({
+			key: this.parseKey(key),
+			version,
+		});
+
+		if (!template) {
+			throw new PromptTemplateError(
+				`Version ${version} of "${key}" not found`,
+				404
+			);
+		}
+
+		return template;
+	}
+
+	/**
+	 * Save a new version of a template
+	 * @param key Template key
+	 * @param input Template body and description; activate defaults to true
+	 * @param userId Author
+	 * @throws PromptTemplateError if the body uses unknown variables or misses
+	 * required ones
+	 */
+	async createVersion(
+		key: string,
+		input: { body: string; description?: string; activate?: boolean },
+		userId?: mongoose.Types.ObjectId
+	): Promise<IPromptTemplate> {
+		const templateKey = this.parseKey(key);
+		const variables = this.checkVariables(templateKey, input.body);
+
+		const latest = await PromptTemplate.findOne({ key: templateKey })
+			.sort({ version: -1 })
+			.select("version");
+
+		let template: IPromptTemplate;
+		try {
+			template = await PromptTemplate.create({
+				key: templateKey,
+				version: (latest?.version || 0) + 1,
+				description: input.description,
+				body: input.body,
+				variables,
+				createdBy: userId,
+			});
+		} catch (error: any) {
+			if (error?.code === 11000) {
+				throw new PromptTemplateError(
+					`Another version of "${templateKey}" was saved at the same time, please retry`,
+					409
+				);
+			}
+			throw error;
+		}
+
+		if (input.activate !== false) {
+			return (await this.activate(templateKey, template.version)) || template;
+		}
+
+		return template;
+	}
+
+	/**
+	 * Make a version the one used for new optimizations. Version 0 switches
+	 * back to the built-in template.
+	 * @returns The activated version, or null for the built-in template
+	 * @throws PromptTemplateError if the version does not exist
+	 */
+	async activate(
+		key: string,
+		version: number
+	): Promise<IPromptTemplate | null> {
+		const templateKey = this.parseKey(key);
+		const template =
+			version === 0 ? null : await this.getVersion(templateKey, version);
+
+		// A single update flips every affected version, so no step can leave
+		// the key with two active versions or none
+		await PromptTemplate.updateMany(
+			{ key: templateKey, $or: [{ isActive: true }, { version }] },
+			[{ $set: { isActive: { $eq: ["$version", version] } } }],
+			{ updatePipeline: true }
+		);
+
+		if (template) {
+			template.isActive = true;
+		}
+
+		return template;
+	}
+
+	/**
+	 * Delete an unused version. Active versions and versions recorded on
+	 * optimized articles are kept, so past output can still be traced to its
+	 * prompt.
+	 * @throws PromptTemplateError if the version does not exist or is in use
+	 */
+	async deleteVersion(key: string, version: number): Promise<IPromptTemplate> {
+		const template = await this.getVersion(key, version);
+
+		if (template.isActive) {
+			throw new PromptTemplateError(
+				"The active version cannot be deleted, activate another one first",
+				409
+			);
+		}
+
+		const usage = await Article.countDocuments({
+			"generation.templates.templateId": template._id,
+		});
+
+		if (usage > 0) {
+			throw new PromptTemplateError(
+				`Version ${version} of "${key}" was used for ${usage} article(s)`,
+				409
+			);
+		}
+
+		await template.deleteOne();
+
+		return template;
+	}
+
+	private parseKey(key: string): PromptTemplateKey {
+		if (!PROMPT_TEMPLATE_KEYS.includes(key as PromptTemplateKey)) {
+			throw new PromptTemplateError(
+				`Unknown prompt template "${key}". Available: ${PROMPT_TEMPLATE_KEYS.join(
+					", "
+				)}`,
+				404
+			);
+		}
+
+		return key as PromptTemplateKey;
+	}
+
+	/**
+	 * @returns Variables the body uses
+	 */
+	private checkVariables(key: PromptTemplateKey, body: string): string[] {
+		const used = new Set<string>();
+
+		for (const match of body.matchAll(SECTION_PATTERN)) used.add(match[2]);
+		for (const match of body.matchAll(VARIABLE_PATTERN)) used.add(match[1]);
+
+		const unknown = [...used].filter(
+			(name) => !PROMPT_TEMPLATE_VARIABLES[key].includes(name)
+		);
+
+		if (unknown.length > 0) {
+			throw new PromptTemplateError(
+				`Unknown variable(s) ${unknown.join(
+					", "
+				)}. "${key}" templates can use: ${PROMPT_TEMPLATE_VARIABLES[key].join(
+					", "
+				)}`
+			);
+		}
+
+		const missing = REQUIRED_PROMPT_VARIABLES[key].filter(
+			(name) => !used.has(name)
+		);
+
+		if (missing.length > 0) {
+			throw new PromptTemplateError(
+				`"${key}" templates must use ${missing
+					.map((name) => `{{${name}}}`)
+					.join(", ")}`
+			);
+		}
+
+		return [...used];
+	}
+}
+
+export default new PromptTemplateService();
+export {
+	PromptTemplateError,
+	PromptTemplateSummary,
+	ResolvedTemplate,
+	ResolvedTemplates,
+	TemplateVariables,
+};
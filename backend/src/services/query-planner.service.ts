@@ -0,0 +1,282 @@
+import searchConfig from "../config/search";
+import contentChunker from "./content-chunker.service";
+import llmService from "./llm.service";
+import searchService, {
+	SearchOptions,
+	SearchResult,
+	SearchServiceError,
+} from "./search.service";
+
+type QuerySource = "title" | "keywords" | "heading" | "llm";
+
+interface PlannedQuery {
+	query: string;
+	source: QuerySource;
+}
+
+interface ExecutedQuery extends PlannedQuery {
+	resultCount: number;
+	error?: string;
+}
+
+interface RankedResult extends SearchResult {
+	/** Query that ranked the result highest */
+	query: string;
+	/** 1-based position after merging */
+	rank: number;
+	/** Relevance to the article blended with search position, 0-1 */
+	score: number;
+}
+
+interface SearchPlan {
+	queries: ExecutedQuery[];
+	/** Best first */
+	results: RankedResult[];
+}
+
+interface PlanOptions extends SearchOptions {
+	/** Called before each query is run */
+	onQuery?(query: PlannedQuery, index: number, total: number): void;
+}
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+// Wording that sells a post without saying what it is about
+const CLICKBAIT_PATTERNS = [
+	/\byou won'?t believe\b/gi,
+	/\b(?:here'?s|this is) (?:why|how|what)\b/gi,
+	/\beverything you need to know(?: about)?\b/gi,
+	/\b(?:the )?(?:ultimate|definitive|complete) guide(?: to)?\b/gi,
+	/\b(?:must[- ]know|mind[- ]blowing|shocking|insane|secrets?)\b/gi,
+	/\b(?:in|for) 20\d\d\b/gi,
+	/^\s*(?:top )?\d+\s+/i,
+	/\[[^\]]*\]|\([^)]*\)/g,
+];
+
+// Headings that say nothing about the topic
+const GENERIC_HEADINGS =
+	/^(?:introduction|intro|overview|conclusion|summary|faqs?|frequently asked questions|final thoughts|key takeaways|references|table of contents|wrapping up)$/i;
+
+/**
+ * Plans search queries for an article from its title, headings and key
+ * terms (and optionally an LLM), runs them and merges the results, ranked
+ * by how well their title and snippet match the article.
+ */
+class QueryPlannerService {
+	private readonly resultsPerQuery = 5;
+	private readonly keywordsPerQuery = 4;
+	private readonly headingQueries = 2;
+	private readonly llmQueries = 2;
+	private readonly relevanceTerms = 20;
+	/** Reciprocal rank fusion constant; higher flattens the rank bonus */
+	private readonly fusionK = 10;
+	private readonly relevanceWeight = 0.6;
+
+	/**
+	 * Candidate queries, most specific first and without duplicates
+	 */
+	async plan(article: {
+		title: string;
+		content: string;
+	}): Promise<PlannedQuery[]> {
+		const keyTerms = contentChunker.keyTerms(article.content);
+		const queries: PlannedQuery[] = [{ query: article.title, source: "title" }];
+
+		const cleanTitle = this.stripClickbait(article.title);
+		if (cleanTitle.split(" ").length >= 2) {
+			queries.push({ query: cleanTitle, source: "title" });
+		}
+
+		if (keyTerms.length >= 2) {
+			queries.push({
+				query: keyTerms.slice(0, this.keywordsPerQuery).join(" "),
+				source: "keywords",
+			});
+		}
+
+		const [mainTerm] = keyTerms;
+		const headings = contentChunker
+			.outline(article.content)
+			.filter((line) => line.startsWith("- "))
+			.map((line) => this.stripClickbait(line.slice(2)))
+			.filter(
+				(heading) =>
+					heading.split(" ").length >= 2 && !GENERIC_HEADINGS.test(heading)
+			)
+			.slice(0, this.headingQueries);
+
+		for (const heading of headings) {
+			queries.push({
+				query:
+					mainTerm && !heading.toLowerCase().includes(mainTerm)
+						? `${mainTerm} ${heading}`
+						: heading,
+				source: "heading",
+			});
+		}
+
+		if (searchConfig.llmQueries) {
+			try {
+				const suggested = await llmService.suggestSearchQueries(
+					article,
+					this.llmQueries
+				);
+				// Model suggestions come right after the title
+				queries.splice(
+					1,
+					0,
+					...suggested.map((query) => ({ query, source: "llm" as const }))
+				);
+			} catch (error) {
+				console.warn(
+					`    ⚠️  Query suggestions failed: ${getErrorMessage(error)}`
+				);
+			}
+		}
+
+		const seen = new Set<string>();
+
+		return queries
+			.filter(({ query }) => {
+				const key = query.toLowerCase().replace(/\s+/g, " ").trim();
+				if (!key || seen.has(key)) return false;
+				seen.add(key);
+				return true;
+			})
+			.slice(0, searchConfig.maxQueries);
+	}
+
+	/**
+	 * Run the planned queries and merge their results, best first
+	 * @throws SearchServiceError if every query failed
+	 */
+	async search(
+		article: { title: string; content: string },
+		options: PlanOptions = {}
+	): Promise<SearchPlan> {
+		const planned = await this.plan(article);
+		const queries: ExecutedQuery[] = [];
+		const merged = new Map<
+			string,
+			{ result: SearchResult; positions: Map<string, number> }
+		>();
+		let lastError: unknown;
+
+		for (const [index, query] of planned.entries()) {
+			options.onQuery?.(query, index, planned.length);
+
+			try {
+				const results = await searchService.searchArticles(
+					query.query,
+					this.resultsPerQuery,
+					{ excludedDomains: options.excludedDomains }
+				);
+
+				results.forEach((result, position) => {
+					const entry = merged.get(result.url) || {
+						result,
+						positions: new Map<string, number>(),
+					};
+					entry.positions.set(query.query, position + 1);
+					merged.set(result.url, entry);
+				});
+
+				queries.push({ ...query, resultCount: results.length });
+			} catch (error) {
+				lastError = error;
+				queries.push({
+					...query,
+					resultCount: 0,
+					error: getErrorMessage(error),
+				});
+			}
+		}
+
+		if (queries.every((query) => query.error)) {
+			throw lastError instanceof SearchServiceError
+				? lastError
+				: new SearchServiceError(getErrorMessage(lastError), 500, lastError);
+		}
+
+		const terms = this.relevanceTermsOf(article);
+		const bestFusion = planned.length / (this.fusionK + 1);
+
+		const results = Array.from(merged.values())
+			.map(({ result, positions }) => {
+				const fusion = Array.from(positions.values()).reduce(
+					(sum, position) => sum + 1 / (this.fusionK + position),
+					0
+				);
+				const [query] = Array.from(positions.entries()).sort(
+					(a, b) => a[1] - b[1]
+				)[0];
+				const score =
+					this.relevanceWeight * this.relevance(result, terms) +
+					(1 - this.relevanceWeight) * (fusion / bestFusion);
+
+				return { ...result, query, score: Math.round(score * 1000) / 1000 };
+			})
+			.sort((a, b) => b.score - a.score)
+			.map((result, index) => ({ ...result, rank: index + 1 }));
+
+		return { queries, results };
+	}
+
+	private stripClickbait(text: string): string {
+		return CLICKBAIT_PATTERNS.reduce(
+			(cleaned, pattern) => cleaned.replace(pattern, " "),
+			text
+		)
+			.replace(/[!?:|–—-]+/g, " ")
+			.replace(/\s+/g, " ")
+			.trim();
+	}
+
+	/**
+	 * Terms describing the article: its most frequent body words plus the
+	 * meaningful title words
+	 */
+	private relevanceTermsOf(article: {
+		title: string;
+		content: string;
+	}): string[] {
+		const titleTerms = (this.stripClickbait(article.title)
+			.toLowerCase()
+			.match(/[a-z][a-z0-9-]{3,}/g) || []) as string[];
+
+		return Array.from(
+			new Set([
+				...titleTerms,
+				...contentChunker.keyTerms(article.content, this.relevanceTerms),
+			])
+		).map((term) => this.stem(term));
+	}
+
+	/**
+	 * Share of the article's terms found in a result's title and snippet
+	 */
+	private relevance(result: SearchResult, terms: string[]): number {
+		if (terms.length === 0) return 0;
+
+		const words = new Set(
+			(
+				`${result.title} ${result.snippet}`
+					.toLowerCase()
+					.match(/[a-z0-9-]+/g) || []
+			).map((word) => this.stem(word))
+		);
+
+		return terms.filter((term) => words.has(term)).length / terms.length;
+	}
+
+	// Enough to match plurals with singulars
+	private stem(word: string): string {
+		return word.length > 4 ? word.replace(/(?<!s)s$/, "") : word;
+	}
+}
+
+export default new QueryPlannerService();
+export { ExecutedQuery, PlannedQuery, QuerySource, RankedResult, SearchPlan };
@@ -0,0 +1,203 @@
+import axios from "axios";
+import mongoose, { QueryFilter } from "mongoose";
+import Article from "../models/Article";
+import ReferenceSource, { IReferenceSource } from "../models/ReferenceSource";
+import scraperService from "./scraper.service";
+import { ListReferenceSourcesQuery } from "../types/reference.api";
+
+interface ReferenceCandidate {
+	title: string;
+	url: string;
+	/** Search query that found the page */
+	query: string;
+	/** 1-based position in the search results */
+	rank: number;
+}
+
+class ReferenceSourceError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "ReferenceSourceError";
+		Object.setPrototypeOf(this, ReferenceSourceError.prototype);
+	}
+}
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	return String(error);
+};
+
+class ReferenceSourceService {
+	private readonly defaultCacheHours = 72;
+
+	/**
+	 * How long a fetched snapshot is reused instead of fetching the page
+	 * again (REFERENCE_CACHE_HOURS, 0 always fetches)
+	 */
+	get cacheHours(): number {
+		const raw = process.env.REFERENCE_CACHE_HOURS;
+		const value = raw ? Number(raw) : NaN;
+		return Number.isFinite(value) && value >= 0
+			? value
+			: this.defaultCacheHours;
+	}
+
+	/**
+	 * Snapshot a search result. A recent successful snapshot of the same URL
+	 * is reused; otherwise the page is fetched and stored.
+	 * @returns The snapshot, with its content selected
+	 * @throws The fetch error, after storing a failed snapshot
+	 */
+	async fetch(
+		candidate: ReferenceCandidate
+	): Promise<{ source: IReferenceSource; reused: boolean }> {
+		const cached = await this.findCached(candidate.url);
+		if (cached) return { source: cached, reused: true };
+
+		const snapshot = {
+			url: candidate.url,
+			domain: this.domainOf(candidate.url),
+			title: candidate.title,
+			query: candidate.query,
+			rank: candidate.rank,
+			fetchedAt: new Date(),
+		};
+
+		try {
+			const { content, httpStatus } =
+				await scraperService.scrapeExternalArticle(candidate.url);
+
+			const source = await ReferenceSource.create({
+				...snapshot,
+				content,
+				wordCount: content.split(/\s+/).filter(Boolean).length,
+				status: "fetched",
+				httpStatus,
+			});
+
+			return { source, reused: false };
+		} catch (error) {
+			await ReferenceSource.create({
+				...snapshot,
+				status: "failed",
+				httpStatus: axios.isAxiosError(error)
+					? error.response?.status
+					: undefined,
+				error: getErrorMessage(error),
+			}).catch((recordError) =>
+				console.error(
+					`Error recording failed reference ${candidate.url}:`,
+					getErrorMessage(recordError)
+				)
+			);
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Bodies of the given snapshots, by ID
+	 */
+	async getContents(
+		ids: mongoose.Types.ObjectId[]
+	): Promise<Map<string, IReferenceSource>> {
+		const sources = await ReferenceSource.find({
+			_id: { $in: ids },
+			status: "fetched",
+		}).select("+content");
+
+		return new Map(sources.map((source) => [String(source._id), source]));
+	}
+
+	/**
+	 * List snapshots, newest first
+	 * @throws ReferenceSourceError if articleId is unknown
+	 */
+	async list(
+		options: ListReferenceSourcesQuery
+	): Promise<{ items: IReferenceSource[]; total: number }> {
+		const filter: QueryFilter<IReferenceSource> = {};
+
+		if (options.domain) filter.domain = options.domain.toLowerCase();
+		if (options.status) filter.status = options.status;
+		if (options.url) filter.url = options.url;
+
+		if (options.articleId) {
+			const article = await Article.findById(options.articleId).select(
+				"references"
+			);
+
+			if (!article) {
+				throw new ReferenceSourceError("Article not found", 404);
+			}
+
+			filter._id = {
+				$in: (article.references || []).flatMap((reference) =>
+					reference.sourceId ? [reference.sourceId] : []
+				),
+			};
+		}
+
+		const [items, total] = await Promise.all([
+			ReferenceSource.find(filter)
+				.sort({ fetchedAt: -1 })
+				.skip((options.page - 1) * options.limit)
+				.limit(options.limit),
+			ReferenceSource.countDocuments(filter),
+		]);
+
+		return { items, total };
+	}
+
+	/**
+	 * A snapshot with its content and the optimized versions built from it
+	 * @throws ReferenceSourceError if the snapshot does not exist
+	 */
+	async getById(id: string): Promise<{
+		reference: IReferenceSource;
+		articles: Array<{ _id: unknown; title: string; version?: number }>;
+	}> {
+		if (!mongoose.isValidObjectId(id)) {
+			throw new ReferenceSourceError("Invalid reference ID", 400);
+		}
+
+		const reference = await ReferenceSource.findById(id).select("+content");
+
+		if (!reference) {
+			throw new ReferenceSourceError("Reference not found", 404);
+		}
+
+		const articles = await Article.find({
+			"references.sourceId": reference._id,
+		})
+			.select("title version")
+			.sort({ createdAt: -1 })
+			.lean();
+
+		return { reference, articles };
+	}
+
+	private async findCached(url: string): Promise<IReferenceSource | null> {
+		const hours = this.cacheHours;
+		if (hours === 0) return null;
+
+		return ReferenceSource.findOne({
+			url,
+			status: "fetched",
+			fetchedAt: { $gte: new Date(Date.now() - hours * 60 * 60 * 1000) },
+		})
+			.sort({ fetchedAt: -1 })
+			.select("+content");
+	}
+
+	private domainOf(url: string): string {
+		try {
+			return new URL(url).hostname.replace(/^www\./, "");
+		} catch {
+			return "unknown";
+		}
+	}
+}
+
+export default new ReferenceSourceService();
+export { ReferenceCandidate, ReferenceSourceError };
@@ -1,199 +1,425 @@
-import axios from "axios";
-import * as cheerio from "cheerio";
-
-interface ScrapedArticle {
-    title: string;
-    content: string;
-    excerpt?: string;
-    author?: string;
-    publishedDate?: Date;
-    url: string;
-}
-
-class ScraperService {
-    private readonly baseUrl = "https://beyondchats.com/blogs";
-    private readonly userAgent =
-        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
-
-    /**
-     * Scrape articles from BeyondChats blog
-     * @param limit Number of articles to scrape
-     * @returns Array of scraped articles
-     */
-    async scrapeArticles(limit: number = 5): Promise<ScrapedArticle[]> {
-        try {
-            const response = await axios.get(this.baseUrl, {
-                headers: {
-                    "User-Agent": this.userAgent,
-                },
-                timeout: 10000,
-            });
-
-            const $ = cheerio.load(response.data);
-            const articles: ScrapedArticle[] = [];
-
-            const articleElements = $("article, .blog-post, .post-item").slice(
-                -limit
-            );
-
-            for (const element of articleElements.toArray()) {
-                const $article = $(element);
-
-                const relativeUrl = $article.find("a").first().attr("href");
-                if (!relativeUrl) continue;
-
-                const articleUrl = relativeUrl.startsWith("http")
-                    ? relativeUrl
-                    : `https://beyondchats.com${relativeUrl}`;
-
-                const article = await this.scrapeArticlePage(articleUrl);
-                if (article) {
-                    articles.push(article);
-                }
-            }
-
-            return articles;
-        } catch (error) {
-            console.error("Error scraping articles:", error);
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            throw new Error(`Failed to scrape articles: ${errorMessage}`);
-        }
-    }
-
-    /**
-     * Scrape individual article page
-     * @param url Article URL
-     * @returns Scraped article data
-     */
-    private async scrapeArticlePage(url: string): Promise<ScrapedArticle | null> {
-        try {
-            const response = await axios.get(url, {
-                headers: {
-                    "User-Agent": this.userAgent,
-                },
-                timeout: 10000,
-            });
-
-            const $ = cheerio.load(response.data);
-
-            const title =
-                $("h1").first().text().trim() ||
-                $("article h1").first().text().trim() ||
-                $("title").text().trim();
-
-            const contentSelectors = [
-                "article .content",
-                "article .post-content",
-                ".article-content",
-                "article p",
-                ".entry-content",
-            ];
-
-            let content = "";
-            for (const selector of contentSelectors) {
-                const extracted = $(selector).text().trim();
-                if (extracted && extracted.length > 100) {
-                    content = extracted;
-                    break;
-                }
-            }
-
-            const excerpt =
-                $('meta[name="description"]').attr("content") ||
-                $('meta[property="og:description"]').attr("content") ||
-                content.substring(0, 200) + "...";
-
-            const author =
-                $(".author-name").text().trim() ||
-                $('[rel="author"]').text().trim() ||
-                $('meta[name="author"]').attr("content");
-
-            const dateString =
-                $("time").attr("datetime") ||
-                $(".publish-date").text().trim() ||
-                $('meta[property="article:published_time"]').attr("content");
-
-            const publishedDate = dateString ? new Date(dateString) : undefined;
-
-            if (!title || !content) {
-                console.warn(`Incomplete data for ${url}`);
-                return null;
-            }
-
-            return {
-                title,
-                content,
-                excerpt,
-                author,
-                publishedDate,
-                url,
-            };
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`Error scraping article ${url}:`, errorMessage);
-            return null;
-        }
-    }
-
-    /**
-     * Scrape content from Google search results
-     * @param url Article URL from Google results
-     * @returns Scraped content
-     */
-    async scrapeExternalArticle(url: string): Promise<string> {
-        try {
-            const response = await axios.get(url, {
-                headers: {
-                    "User-Agent": this.userAgent,
-                },
-                timeout: 10000,
-            });
-
-            const $ = cheerio.load(response.data);
-
-            $("script, style, nav, header, footer, aside, .advertisement").remove();
-
-            const contentSelectors = [
-                "article",
-                ".post-content",
-                ".entry-content",
-                ".article-content",
-                "main",
-                '[role="main"]',
-            ];
-
-            for (const selector of contentSelectors) {
-                const content = $(selector).text().trim();
-                if (content && content.length > 200) {
-                    return this.cleanContent(content);
-                }
-            }
-
-            const paragraphs = $("p")
-                .map((_, el) => $(el).text().trim())
-                .get()
-                .filter((text) => text.length > 50)
-                .join("\n\n");
-
-            return this.cleanContent(paragraphs);
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`Error scraping external article ${url}:`, errorMessage);
-            throw error;
-        }
-    }
-
-    /**
-     * Clean and normalize content
-     * @param content Raw content
-     * @returns Cleaned content
-     */
-    private cleanContent(content: string): string {
-        return content
-            .replace(/\s+/g, " ")
-            .replace(/\n\s*\n/g, "\n\n")
-            .trim();
-    }
-}
-
-export default new ScraperService();
\ No newline at end of file
+import axios from "axios";
+import * as cheerio from "cheerio";
+import Article from "../models/Article";
+import { SourceProfile } from "../models/Source";
+import articleService from "./article.service";
+import sourceService, { DEFAULT_SOURCE } from "./source.service";
+import feedDiscoveryService, {
+    DiscoveredArticle,
+} from "./feed-discovery.service";
+import contentExtractorService, {
+    ArticleMedia,
+} from "./content-extractor.service";
+
+export interface ScrapedArticle {
+    title: string;
+    content: string;
+    excerpt?: string;
+    author?: string;
+    publishedDate?: Date;
+    url: string;
+    media?: ArticleMedia[];
+    sourceId?: string;
+    etag?: string;
+    lastModified?: string;
+}
+
+export interface PageValidators {
+    etag?: string;
+    lastModified?: string;
+}
+
+export type PageScrapeResult =
+    | { status: "scraped"; article: ScrapedArticle }
+    | { status: "not-modified" }
+    | { status: "failed" };
+
+export interface ExternalArticle {
+    content: string;
+    httpStatus: number;
+}
+
+interface FetchedPage extends PageValidators {
+    html: string;
+    notModified: boolean;
+}
+
+class ScraperService {
+    private readonly userAgent =
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+
+    /**
+     * Scrape articles from a configured source
+     * @param sourceId Source ID (default: BeyondChats blog)
+     * @param limit Number of articles to scrape (default: the source's crawl limit)
+     * @returns Array of scraped articles, without pages that are unchanged
+     * since they were last scraped
+     */
+    async scrapeArticles(
+        sourceId?: string,
+        limit?: number
+    ): Promise<ScrapedArticle[]> {
+        const source = await sourceService.resolve(sourceId);
+        const entries = await this.discoverArticles(source, limit);
+        const articles: ScrapedArticle[] = [];
+
+        for (const entry of entries) {
+            const result = await this.scrapeArticleIfChanged(entry.url, source, entry);
+            if (result.status === "scraped") {
+                articles.push({ ...result.article, sourceId: source.id });
+            }
+        }
+
+        await sourceService.markCrawled(source.id);
+
+        return articles;
+    }
+
+    /**
+     * Find articles to scrape for a source. Sitemap and feed sources only
+     * return entries that are new or changed since they were last scraped.
+     * @param source Source profile
+     * @param limit Number of articles to return (default: the source's crawl limit)
+     * @returns Discovered articles, in listing order
+     */
+    async discoverArticles(
+        source: SourceProfile,
+        limit: number = source.crawlLimit
+    ): Promise<DiscoveredArticle[]> {
+        const { strategy } = source.pagination;
+
+        if (strategy === "sitemap" || strategy === "feed") {
+            const entries = await this.getFeedEntries(source);
+            const changed = await feedDiscoveryService.selectNewOrChanged(entries);
+            return changed.slice(0, limit);
+        }
+
+        const urls = await this.getListingUrls(source, limit);
+        return urls.map((url) => ({ url }));
+    }
+
+    /**
+     * Crawl a source's listing pages and collect article URLs
+     * @param source Source profile
+     * @param limit Number of article URLs to return
+     * @returns Array of absolute article URLs, in listing order
+     */
+    private async getListingUrls(
+        source: SourceProfile,
+        limit: number
+    ): Promise<string[]> {
+        try {
+            const urls = new Set<string>();
+            const visitedPages = new Set<string>();
+            let pageUrl: string | undefined = source.listingUrl;
+            let pageNumber = 1;
+
+            while (
+                pageUrl &&
+                urls.size < limit &&
+                visitedPages.size < source.pagination.maxPages &&
+                !visitedPages.has(pageUrl)
+            ) {
+                visitedPages.add(pageUrl);
+
+                const $ = cheerio.load((await this.fetchPage(pageUrl)).html);
+                const foundBefore = urls.size;
+
+                for (const element of $(source.selectors.list).toArray()) {
+                    if (urls.size >= limit) break;
+
+                    const href = $(element)
+                        .find(source.selectors.link || "a")
+                        .first()
+                        .attr("href");
+                    const articleUrl = this.resolveUrl(href, pageUrl);
+
+                    if (articleUrl) {
+                        urls.add(articleUrl);
+                    }
+                }
+
+                if (urls.size === foundBefore) break;
+
+                pageNumber++;
+                pageUrl = this.getNextPageUrl($, source, pageUrl, pageNumber);
+            }
+
+            return Array.from(urls);
+        } catch (error) {
+            console.error("Error scraping articles:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to scrape articles: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Scrape individual article page
+     * @param url Article URL
+     * @param source Source profile whose selectors to use
+     * @param hints Title, author and date from a feed, used when the page selectors find nothing
+     * @returns Scraped article data
+     */
+    async scrapeArticlePage(
+        url: string,
+        source: SourceProfile = DEFAULT_SOURCE,
+        hints: Partial<DiscoveredArticle> = {}
+    ): Promise<ScrapedArticle | null> {
+        try {
+            return this.parseArticlePage(await this.fetchPage(url), url, source, hints);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Error scraping article ${url}:`, errorMessage);
+            return null;
+        }
+    }
+
+    /**
+     * Re-scrape an article page with a conditional request, using the ETag and
+     * Last-Modified stored for it. New pages are scraped unconditionally.
+     * @param url Article URL
+     * @param source Source profile whose selectors to use
+     * @param hints Title, author and date from a feed
+     * @returns The scraped article, or "not-modified" if the server answered 304
+     */
+    async scrapeArticleIfChanged(
+        url: string,
+        source: SourceProfile = DEFAULT_SOURCE,
+        hints: Partial<DiscoveredArticle> = {}
+    ): Promise<PageScrapeResult> {
+        try {
+            const stored = await Article.findOne({ url, isOriginal: true }).select(
+                "etag lastModified"
+            );
+            const page = await this.fetchPage(url, {
+                etag: stored?.etag,
+                lastModified: stored?.lastModified,
+            });
+
+            if (page.notModified) {
+                await articleService.markChecked(url, page);
+                return { status: "not-modified" };
+            }
+
+            const article = this.parseArticlePage(page, url, source, hints);
+            return article ? { status: "scraped", article } : { status: "failed" };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Error scraping article ${url}:`, errorMessage);
+            return { status: "failed" };
+        }
+    }
+
+    private parseArticlePage(
+        page: FetchedPage,
+        url: string,
+        source: SourceProfile,
+        hints: Partial<DiscoveredArticle>
+    ): ScrapedArticle | null {
+        const $ = cheerio.load(page.html);
+        const { selectors } = source;
+
+        const title =
+            $(selectors.title).first().text().trim() ||
+            $("h1").first().text().trim() ||
+            hints.title ||
+            $("title").text().trim();
+
+        const extracted = contentExtractorService.extract(
+            $.html(),
+            url,
+            selectors.content
+        );
+        const content = extracted.markdown;
+
+        const excerpt =
+            $('meta[name="description"]').attr("content") ||
+            $('meta[property="og:description"]').attr("content") ||
+            extracted.text.substring(0, 200) + "...";
+
+        const author =
+            (selectors.author && $(selectors.author).first().text().trim()) ||
+            $('meta[name="author"]').attr("content") ||
+            hints.author;
+
+        const $date = selectors.date ? $(selectors.date).first() : undefined;
+        const dateString =
+            $date?.attr("datetime") ||
+            $date?.text().trim() ||
+            $('meta[property="article:published_time"]').attr("content");
+
+        const parsedDate = dateString ? new Date(dateString) : undefined;
+        const publishedDate =
+            parsedDate && !Number.isNaN(parsedDate.getTime())
+                ? parsedDate
+                : hints.publishedDate;
+
+        if (!title || !content) {
+            console.warn(`Incomplete data for ${url}`);
+            return null;
+        }
+
+        return {
+            title,
+            content,
+            excerpt,
+            author,
+            publishedDate,
+            url,
+            media: extracted.media,
+            etag: page.etag,
+            lastModified: page.lastModified,
+        };
+    }
+
+    /**
+     * Find the URL of the next listing page for the source's pagination strategy
+     */
+    private getNextPageUrl(
+        $: cheerio.CheerioAPI,
+        source: SourceProfile,
+        currentUrl: string,
+        pageNumber: number
+    ): string | undefined {
+        const { pagination } = source;
+
+        if (pagination.strategy === "next-link") {
+            const href = $(pagination.nextSelector || "a[rel=\"next\"]")
+                .first()
+                .attr("href");
+            return this.resolveUrl(href, currentUrl);
+        }
+
+        if (pagination.strategy === "page-param") {
+            const nextUrl = new URL(source.listingUrl);
+            nextUrl.searchParams.set(
+                pagination.pageParam || "page",
+                String(pageNumber)
+            );
+            return nextUrl.toString();
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Read a source's sitemap or feed. Sitemap entries are limited to URLs
+     * below the listing path, since sitemaps cover the whole site.
+     */
+    private async getFeedEntries(
+        source: SourceProfile
+    ): Promise<DiscoveredArticle[]> {
+        const { pagination } = source;
+
+        if (pagination.strategy === "feed") {
+            return feedDiscoveryService.discover(
+                pagination.feedUrl || source.listingUrl
+            );
+        }
+
+        const entries = await feedDiscoveryService.discover(
+            pagination.sitemapUrl || source.listingUrl
+        );
+        const listingPath = new URL(source.listingUrl).pathname.replace(/\/+$/, "");
+
+        return entries.filter((entry) => {
+            try {
+                const path = new URL(entry.url).pathname.replace(/\/+$/, "");
+                return path.startsWith(`${listingPath}/`);
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Fetch a page, as a conditional request if validators are given
+     */
+    private async fetchPage(
+        url: string,
+        validators: PageValidators = {}
+    ): Promise<FetchedPage> {
+        const response = await axios.get(url, {
+            headers: {
+                "User-Agent": this.userAgent,
+                ...(validators.etag && { "If-None-Match": validators.etag }),
+                ...(validators.lastModified && {
+                    "If-Modified-Since": validators.lastModified,
+                }),
+            },
+            timeout: 10000,
+            validateStatus: (status) =>
+                (status >= 200 && status < 300) || status === 304,
+        });
+
+        const header = (name: string): string | undefined => {
+            const value = response.headers[name];
+            return typeof value === "string" ? value : undefined;
+        };
+
+        return {
+            html: response.status === 304 ? "" : response.data,
+            notModified: response.status === 304,
+            etag: header("etag") || validators.etag,
+            lastModified: header("last-modified") || validators.lastModified,
+        };
+    }
+
+    /**
+     * Resolve a possibly relative link against the page it was found on
+     */
+    private resolveUrl(href: string | undefined, baseUrl: string): string | undefined {
+        if (!href || href.startsWith("#") || href.startsWith("javascript:")) {
+            return undefined;
+        }
+
+        try {
+            const url = new URL(href, baseUrl);
+            url.hash = "";
+            return url.protocol.startsWith("http") ? url.toString() : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Scrape content from Google search results
+     * @param url Article URL from Google results
+     * @returns Scraped content and the response status
+     */
+    async scrapeExternalArticle(url: string): Promise<ExternalArticle> {
+        try {
+            const response = await axios.get(url, {
+                headers: {
+                    "User-Agent": this.userAgent,
+                },
+                timeout: 10000,
+            });
+
+            const contentSelectors = [
+                "article",
+                ".post-content",
+                ".entry-content",
+                ".article-content",
+                "main",
+                '[role="main"]',
+            ];
+
+            return {
+                content: contentExtractorService.extract(
+                    response.data,
+                    url,
+                    contentSelectors,
+                    200
+                ).markdown,
+                httpStatus: response.status,
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Error scraping external article ${url}:`, errorMessage);
+            throw error;
+        }
+    }
+}
+
+export default new ScraperService();
@@ -0,0 +1,224 @@
+import searchConfig from "../config/search";
+import { DEFAULT_EXCLUDED_DOMAINS } from "../models/Source";
+import providerRegistry from "./search/provider-registry";
+import {
+	SearchHit,
+	SearchProvider,
+	SearchProviderError,
+} from "./search/search-provider";
+
+interface SearchResult {
+	title: string;
+	url: string;
+	snippet: string;
+	/** Provider that returned the result */
+	provider: string;
+}
+
+interface SearchOptions {
+	/** Domains (and their subdomains) to leave out; default: DEFAULT_EXCLUDED_DOMAINS */
+	excludedDomains?: string[];
+}
+
+class SearchServiceError extends Error {
+	constructor(
+		message: string,
+		public readonly statusCode: number = 500,
+		public readonly originalError?: unknown
+	) {
+		super(message);
+		this.name = "SearchServiceError";
+		Object.setPrototypeOf(this, SearchServiceError.prototype);
+	}
+}
+
+const getErrorMessage = (error: unknown): string => {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "An unknown error occurred";
+};
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|ref|ref_src)$/i;
+
+class SearchService {
+	private readonly maxLimit = 20;
+	// Providers are asked for more than needed, as some results get dropped
+	private readonly overfetch = 3;
+
+	/**
+	 * Search article pages, trying the providers in SEARCH_PROVIDERS order.
+	 * Later providers are only asked when earlier ones returned too few
+	 * results; results are normalized and deduplicated across providers.
+	 * @param query Search query
+	 * @param limit Number of results to return (default: 2)
+	 * @param options Domains to exclude
+	 * @returns Array of search results
+	 * @throws SearchServiceError if the query is invalid or every provider failed
+	 */
+	async searchArticles(
+		query: string,
+		limit: number = 2,
+		options: SearchOptions = {}
+	): Promise<SearchResult[]> {
+		if (!query || query.trim().length === 0) {
+			throw new SearchServiceError("Search query cannot be empty", 400);
+		}
+
+		if (limit < 1 || limit > this.maxLimit) {
+			throw new SearchServiceError(
+				`Limit must be between 1 and ${this.maxLimit}`,
+				400
+			);
+		}
+
+		const excludedDomains = (
+			options.excludedDomains ?? DEFAULT_EXCLUDED_DOMAINS
+		).map((domain) => domain.toLowerCase().replace(/^www\./, ""));
+		const results: SearchResult[] = [];
+		const seen = new Set<string>();
+		const failures: SearchProviderError[] = [];
+		let attempted = 0;
+
+		for (const name of searchConfig.providers) {
+			if (results.length >= limit) break;
+
+			let provider: SearchProvider;
+			try {
+				provider = providerRegistry.get(name);
+			} catch (error) {
+				// A misspelled SEARCH_PROVIDERS entry shouldn't stop the others
+				console.warn(`Skipping search provider: ${getErrorMessage(error)}`);
+				continue;
+			}
+
+			if (!provider.isConfigured()) continue;
+
+			attempted++;
+
+			try {
+				const hits = await provider.search(
+					query.trim(),
+					Math.min(limit * this.overfetch, this.maxLimit)
+				);
+
+				for (const hit of hits) {
+					const result = this.normalize(hit, provider.name);
+					if (!result) continue;
+
+					const key = this.dedupeKey(result.url);
+					if (seen.has(key) || this.isExcluded(result.url, excludedDomains)) {
+						continue;
+					}
+
+					seen.add(key);
+					results.push(result);
+					if (results.length >= limit) break;
+				}
+			} catch (error) {
+				const failure =
+					error instanceof SearchProviderError
+						? error
+						: new SearchProviderError(getErrorMessage(error), name, 500, error);
+
+				console.warn(`Search with ${name} failed: ${failure.message}`);
+				failures.push(failure);
+			}
+		}
+
+		if (attempted === 0) {
+			throw new SearchServiceError(
+				`No configured search provider in: ${searchConfig.providers.join(
+					", "
+				)}`,
+				500
+			);
+		}
+
+		if (results.length === 0 && failures.length === attempted) {
+			console.error("Error searching:", {
+				query,
+				errors: failures.map(
+					(failure) => `${failure.provider}: ${failure.message}`
+				),
+				timestamp: new Date().toISOString(),
+			});
+
+			throw new SearchServiceError(
+				`Search failed: ${failures
+					.map((failure) => `${failure.provider}: ${failure.message}`)
+					.join("; ")}`,
+				failures.every((failure) => failure.statusCode === 429) ? 429 : 500,
+				failures
+			);
+		}
+
+		if (results.length === 0) {
+			console.warn(`No results found for query: "${query}"`);
+		}
+
+		return results;
+	}
+
+	/**
+	 * Clean up a provider result: collapsed whitespace, http(s) URL without
+	 * fragment or tracking parameters
+	 * @returns null if the URL is unusable
+	 */
+	private normalize(hit: SearchHit, provider: string): SearchResult | null {
+		let url: URL;
+
+		try {
+			url = new URL(hit.url);
+		} catch {
+			return null;
+		}
+
+		if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+		url.hash = "";
+		for (const param of Array.from(url.searchParams.keys())) {
+			if (TRACKING_PARAMS.test(param)) url.searchParams.delete(param);
+		}
+
+		const title = this.sanitizeText(hit.title || "");
+		if (!title) return null;
+
+		return {
+			title,
+			url: url.toString(),
+			snippet: this.sanitizeText(hit.snippet || ""),
+			provider,
+		};
+	}
+
+	/**
+	 * The same page as returned by different providers: scheme, www prefix
+	 * and trailing slash do not matter
+	 */
+	private dedupeKey(url: string): string {
+		const parsed = new URL(url);
+		const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+		const pathname = parsed.pathname.replace(/\/+$/, "");
+
+		return `${host}${pathname}${parsed.search}`;
+	}
+
+	private isExcluded(url: string, excludedDomains: string[]): boolean {
+		const host = new URL(url).hostname.toLowerCase();
+
+		return excludedDomains.some(
+			(domain) => host === domain || host.endsWith(`.${domain}`)
+		);
+	}
+
+	/**
+	 * Sanitize text content
+	 */
+	private sanitizeText(text: string): string {
+		return text.replace(/\s+/g, " ").trim().slice(0, 500);
+	}
+}
+
+export default new SearchService();
+export { SearchOptions, SearchResult, SearchServiceError };
@@ -0,0 +1,52 @@
+import axios from "axios";
+import {
+	SearchHit,
+	SearchProvider,
+	toSearchProviderError,
+} from "./search-provider";
+
+interface BingResponse {
+	webPages?: {
+		value: Array<{ name: string; url: string; snippet?: string }>;
+	};
+}
+
+/**
+ * Bing Web Search API (BING_SEARCH_KEY). BING_SEARCH_ENDPOINT points it at
+ * another deployment of the same API.
+ */
+class BingProvider implements SearchProvider {
+	readonly name = "bing";
+
+	private readonly timeout = 15000;
+
+	isConfigured(): boolean {
+		return Boolean(process.env.BING_SEARCH_KEY);
+	}
+
+	async search(query: string, count: number): Promise<SearchHit[]> {
+		try {
+			const response = await axios.get<BingResponse>(
+				process.env.BING_SEARCH_ENDPOINT ||
+					"https://api.bing.microsoft.com/v7.0/search",
+				{
+					params: { q: query, count, responseFilter: "Webpages" },
+					headers: {
+						"Ocp-Apim-Subscription-Key": process.env.BING_SEARCH_KEY,
+					},
+					timeout: this.timeout,
+				}
+			);
+
+			return (response.data.webPages?.value || []).map((result) => ({
+				title: result.name,
+				url: result.url,
+				snippet: result.snippet || "",
+			}));
+		} catch (error) {
+			throw toSearchProviderError(this.name, error);
+		}
+	}
+}
+
+export default new BingProvider();
@@ -0,0 +1,53 @@
+import axios from "axios";
+import {
+	SearchHit,
+	SearchProvider,
+	toSearchProviderError,
+} from "./search-provider";
+
+interface BraveResponse {
+	web?: {
+		results: Array<{ title: string; url: string; description?: string }>;
+	};
+}
+
+/**
+ * Brave Search API (BRAVE_SEARCH_KEY)
+ */
+class BraveProvider implements SearchProvider {
+	readonly name = "brave";
+
+	private readonly timeout = 15000;
+	// The API rejects larger counts
+	private readonly maxCount = 20;
+
+	isConfigured(): boolean {
+		return Boolean(process.env.BRAVE_SEARCH_KEY);
+	}
+
+	async search(query: string, count: number): Promise<SearchHit[]> {
+		try {
+			const response = await axios.get<BraveResponse>(
+				"https://api.search.brave.com/res/v1/web/search",
+				{
+					params: { q: query, count: Math.min(count, this.maxCount) },
+					headers: {
+						Accept: "application/json",
+						"X-Subscription-Token": process.env.BRAVE_SEARCH_KEY,
+					},
+					timeout: this.timeout,
+				}
+			);
+
+			return (response.data.web?.results || []).map((result) => ({
+				title: result.title,
+				url: result.url,
+				snippet: result.description || "",
+			}));
+		} catch (error) {
+			throw toSearchProviderError(this.name, error);
+		}
+	}
+}
+
+export default new BraveProvider();
@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+	SearchHit,
+	SearchProvider,
+	SearchProviderError,
+} from "./search-provider";
+
+type SearchFixtures = Record<string, SearchHit[]>;
+
+/**
+ * Offline provider answering from the JSON file at SEARCH_FIXTURES_PATH,
+ * which maps queries (case-insensitive) to results. The "*" entry answers
+ * queries without their own entry:
+ *
+ *   {
+ *     "chatbots in healthcare": [{ "title": "...", "url": "https://...", "snippet": "..." }],
+ *     "*": []
+ *   }
+ */
+class FixtureProvider implements SearchProvider {
+	readonly name = "fixture";
+
+	isConfigured(): boolean {
+		return Boolean(process.env.SEARCH_FIXTURES_PATH);
+	}
+
+	async search(query: string, count: number): Promise<SearchHit[]> {
+		const fixtures = await this.load();
+		const key = Object.keys(fixtures).find(
+			(entry) => entry.trim().toLowerCase() === query.toLowerCase()
+		);
+
+		return (fixtures[key ?? "*"] || []).slice(0, count);
+	}
+
+	private async load(): Promise<SearchFixtures> {
+		const file = path.resolve(process.env.SEARCH_FIXTURES_PATH || "");
+
+		try {
+			const fixtures = JSON.parse(await fs.readFile(file, "utf8"));
+
+			if (
+				!fixtures ||
+				typeof fixtures !== "object" ||
+				Array.isArray(fixtures)
+			) {
+				throw new Error("expected an object mapping queries to results");
+			}
+
+			return fixtures;
+		} catch (error) {
+			throw new SearchProviderError(
+				`Cannot read search fixtures ${file}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+				this.name,
+				500,
+				error
+			);
+		}
+	}
+}
+
+export default new FixtureProvider();
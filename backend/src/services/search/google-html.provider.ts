@@ -0,0 +1,144 @@
+import axios, { AxiosError } from "axios";
+import * as cheerio from "cheerio";
+import {
+	SearchHit,
+	SearchProvider,
+	toSearchProviderError,
+} from "./search-provider";
+
+const isAxiosError = (error: unknown): error is AxiosError => {
+	return (error as AxiosError).isAxiosError === true;
+};
+
+/**
+ * Scrapes Google's result page. Needs no key, but breaks whenever Google
+ * changes its markup or starts serving a consent page or captcha.
+ */
+class GoogleHtmlProvider implements SearchProvider {
+	readonly name = "google-html";
+
+	private readonly userAgent =
+		"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+	private readonly timeout = 15000;
+	private readonly maxRetries = 2;
+
+	isConfigured(): boolean {
+		return true;
+	}
+
+	async search(query: string, count: number): Promise<SearchHit[]> {
+		try {
+			const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(
+				query
+			)}&num=${count}`;
+
+			const response = await this.fetchWithRetry(searchUrl);
+			return this.parseSearchResults(response.data, count);
+		} catch (error) {
+			throw toSearchProviderError(this.name, error);
+		}
+	}
+
+	/**
+	 * Fetch URL with retry logic
+	 * @param url URL to fetch
+	 * @param retries Number of retries remaining
+	 * @returns Axios response
+	 */
+	private async fetchWithRetry(
+		url: string,
+		retries: number = this.maxRetries
+	): Promise<any> {
+		try {
+			return await axios.get(url, {
+				headers: {
+					"User-Agent": this.userAgent,
+					"Accept-Language": "en-US,en;q=0.9",
+					Accept:
+						"text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+					"Accept-Encoding": "gzip, deflate, br",
+					Connection: "keep-alive",
+					"Upgrade-Insecure-Requests": "1",
+				},
+				timeout: this.timeout,
+				validateStatus: (status) => status === 200,
+			});
+		} catch (error) {
+			if (retries > 0 && this.isRetryableError(error)) {
+				console.warn(
+					`Request failed, retrying... (${this.maxRetries - retries + 1}/${
+						this.maxRetries
+					})`
+				);
+				await this.delay(1000 * (this.maxRetries - retries + 1));
+				return this.fetchWithRetry(url, retries - 1);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Check if error is retryable
+	 */
+	private isRetryableError(error: unknown): boolean {
+		if (isAxiosError(error)) {
+			return (
+				!error.response ||
+				(error.response.status >= 500 && error.response.status < 600) ||
+				error.code === "ECONNABORTED" ||
+				error.code === "ETIMEDOUT"
+			);
+		}
+		return false;
+	}
+
+	/**
+	 * Parse Google search results HTML
+	 */
+	private parseSearchResults(html: string, limit: number): SearchHit[] {
+		const $ = cheerio.load(html);
+		const results: SearchHit[] = [];
+
+		const selectors = [".g", ".tF2Cxc", "div[data-sokoban-container]"];
+
+		for (const selector of selectors) {
+			if (results.length >= limit) break;
+
+			$(selector).each((_, element) => {
+				if (results.length >= limit) return false;
+
+				const $result = $(element);
+				const url = $result.find("a[href]").first().attr("href");
+
+				if (!url || !url.startsWith("http")) return;
+
+				const title = $result
+					.find("h3, .LC20lb, .DKV0Md")
+					.first()
+					.text()
+					.trim();
+
+				const snippet = $result
+					.find(".VwiC3b, .s, .st, .lEBKkf")
+					.first()
+					.text()
+					.trim();
+
+				if (title && !results.some((result) => result.url === url)) {
+					results.push({ title, url, snippet });
+				}
+			});
+		}
+
+		return results.slice(0, limit);
+	}
+
+	/**
+	 * Delay utility for retry logic
+	 */
+	private delay(ms: number): Promise<void> {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+}
+
+export default new GoogleHtmlProvider();
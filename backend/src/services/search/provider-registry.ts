@@ -0,0 +1,45 @@
+import { SearchProvider } from "./search-provider";
+import googleHtmlProvider from "./google-html.provider";
+import serpApiProvider from "./serpapi.provider";
+import bingProvider from "./bing.provider";
+import braveProvider from "./brave.provider";
+import fixtureProvider from "./fixture.provider";
+
+class SearchProviderRegistry {
+	private readonly providers = new Map<string, SearchProvider>();
+
+	register(provider: SearchProvider): void {
+		this.providers.set(provider.name, provider);
+	}
+
+	/**
+	 * @throws Error if no provider is registered under the name
+	 */
+	get(name: string): SearchProvider {
+		const provider = this.providers.get(name);
+
+		if (!provider) {
+			throw new Error(
+				`Unknown search provider "${name}". Available: ${this.list().join(
+					", "
+				)}`
+			);
+		}
+
+		return provider;
+	}
+
+	list(): string[] {
+		return Array.from(this.providers.keys());
+	}
+}
+
+const registry = new SearchProviderRegistry();
+registry.register(googleHtmlProvider);
+registry.register(serpApiProvider);
+registry.register(bingProvider);
+registry.register(braveProvider);
+registry.register(fixtureProvider);
+
+export default registry;
+export { SearchProviderRegistry };
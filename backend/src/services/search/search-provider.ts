@@ -0,0 +1,68 @@
+interface SearchHit {
+	title: string;
+	url: string;
+	snippet: string;
+}
+
+interface SearchProvider {
+	readonly name: string;
+	/**
+	 * False when a required API key or file is not set; the search service
+	 * skips such providers
+	 */
+	isConfigured(): boolean;
+	/**
+	 * @param query Search query
+	 * @param count Number of results wanted; providers may return fewer
+	 * @returns Results in the provider's ranking order
+	 */
+	search(query: string, count: number): Promise<SearchHit[]>;
+}
+
+class SearchProviderError extends Error {
+	constructor(
+		message: string,
+		public readonly provider: string,
+		public readonly statusCode: number = 500,
+		public readonly originalError?: unknown
+	) {
+		super(message);
+		this.name = "SearchProviderError";
+		Object.setPrototypeOf(this, SearchProviderError.prototype);
+	}
+}
+
+/**
+ * Wrap a failed request, keeping the upstream status for auth and rate
+ * limit errors
+ */
+const toSearchProviderError = (
+	provider: string,
+	error: any
+): SearchProviderError => {
+	if (error instanceof SearchProviderError) return error;
+
+	const status: number | undefined = error?.response?.status;
+
+	if (status === 401 || status === 403) {
+		return new SearchProviderError("Invalid API key", provider, 401, error);
+	}
+
+	if (status === 429) {
+		return new SearchProviderError("Rate limit exceeded", provider, 429, error);
+	}
+
+	return new SearchProviderError(
+		`Request failed: ${error?.message || String(error)}`,
+		provider,
+		500,
+		error
+	);
+};
+
+export {
+	SearchHit,
+	SearchProvider,
+	SearchProviderError,
+	toSearchProviderError,
+};
@@ -0,0 +1,56 @@
+import axios from "axios";
+import {
+	SearchHit,
+	SearchProvider,
+	toSearchProviderError,
+} from "./search-provider";
+
+interface SerpApiResult {
+	title: string;
+	link: string;
+	snippet?: string;
+}
+
+interface SerpApiResponse {
+	organic_results?: SerpApiResult[];
+}
+
+/**
+ * Google results through SerpApi (SERPAPI_KEY)
+ */
+class SerpApiProvider implements SearchProvider {
+	readonly name = "serpapi";
+
+	private readonly timeout = 15000;
+
+	isConfigured(): boolean {
+		return Boolean(process.env.SERPAPI_KEY);
+	}
+
+	async search(query: string, count: number): Promise<SearchHit[]> {
+		try {
+			const response = await axios.get<SerpApiResponse>(
+				"https://serpapi.com/search",
+				{
+					params: {
+						q: query,
+						api_key: process.env.SERPAPI_KEY,
+						num: count,
+						engine: "google",
+					},
+					timeout: this.timeout,
+				}
+			);
+
+			return (response.data.organic_results || []).map((result) => ({
+				title: result.title,
+				url: result.link,
+				snippet: result.snippet || "",
+			}));
+		} catch (error) {
+			throw toSearchProviderError(this.name, error);
+		}
+	}
+}
+
+export default new SerpApiProvider();
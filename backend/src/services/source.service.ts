@@ -0,0 +1,110 @@
+import mongoose from "mongoose";
+import Source, {
+	DEFAULT_EXCLUDED_DOMAINS,
+	DEFAULT_PAGINATION,
+	DEFAULT_SELECTORS,
+	SourceProfile,
+} from "../models/Source";
+
+interface ResolvedSource extends SourceProfile {
+	id?: string;
+}
+
+class SourceServiceError extends Error {
+	constructor(message: string, public readonly statusCode: number = 500) {
+		super(message);
+		this.name = "SourceServiceError";
+		Object.setPrototypeOf(this, SourceServiceError.prototype);
+	}
+}
+
+/**
+ * Built-in profile for the BeyondChats blog, used when no source is given
+ */
+const DEFAULT_SOURCE: SourceProfile = {
+	name: "BeyondChats",
+	listingUrl: "https://beyondchats.com/blogs",
+	pagination: {
+		strategy: "next-link",
+		...DEFAULT_PAGINATION,
+	},
+	selectors: DEFAULT_SELECTORS,
+	crawlLimit: 5,
+	excludedDomains: [...DEFAULT_EXCLUDED_DOMAINS, "beyondchats.com"],
+};
+
+class SourceService {
+	/**
+	 * Load the extraction profile for a source
+	 * @param sourceId Source ID (default: built-in BeyondChats profile)
+	 * @throws SourceServiceError if the source does not exist or is inactive
+	 */
+	async resolve(sourceId?: string): Promise<ResolvedSource> {
+		if (!sourceId) {
+			return DEFAULT_SOURCE;
+		}
+
+		if (!mongoose.isValidObjectId(sourceId)) {
+			throw new SourceServiceError("Invalid source ID", 400);
+		}
+
+		const source = await Source.findById(sourceId);
+
+		if (!source) {
+			throw new SourceServiceError("Source not found", 404);
+		}
+
+		if (!source.isActive) {
+			throw new SourceServiceError(`Source "${source.name}" is inactive`, 409);
+		}
+
+		const profile = source.toObject();
+
+		return {
+			id: String(source._id),
+			name: profile.name,
+			listingUrl: profile.listingUrl,
+			pagination: profile.pagination,
+			selectors: profile.selectors,
+			crawlLimit: profile.crawlLimit,
+			excludedDomains: profile.excludedDomains,
+		};
+	}
+
+	/**
+	 * Domains to leave out when searching references for a source's
+	 * articles. Articles without a source use the built-in profile's list;
+	 * unknown or inactive sources get DEFAULT_EXCLUDED_DOMAINS.
+	 */
+	async getExcludedDomains(sourceId?: unknown): Promise<string[]> {
+		if (!sourceId) {
+			return DEFAULT_SOURCE.excludedDomains;
+		}
+
+		if (!mongoose.isValidObjectId(sourceId)) {
+			return DEFAULT_EXCLUDED_DOMAINS;
+		}
+
+		const source = await Source.findById(sourceId).select(
+			"excludedDomains isActive"
+		);
+
+		if (!source?.isActive) {
+			return DEFAULT_EXCLUDED_DOMAINS;
+		}
+
+		return source.excludedDomains;
+	}
+
+	async markCrawled(sourceId?: string): Promise<void> {
+		if (!sourceId) return;
+
+		await Source.updateOne(
+			{ _id: sourceId },
+			{ $set: { lastCrawledAt: new Date() } }
+		);
+	}
+}
+
+export default new SourceService();
+export { DEFAULT_SOURCE, ResolvedSource, SourceServiceError };
@@ -0,0 +1,32 @@
+/**
+ * Shapes shared by every API response. This file has no dependencies so
+ * the frontend can use it as-is.
+ */
+
+export interface ApiResponse<T> {
+	success: boolean;
+	message?: string;
+	data?: T;
+	error?: string;
+}
+
+export type RequestLocation = "params" | "query" | "body";
+
+export interface FieldError {
+	location: RequestLocation;
+	field: string;
+	message: string;
+}
+
+export interface ValidationErrorResponse {
+	success: false;
+	message: string;
+	errors: FieldError[];
+}
+
+export interface Pagination {
+	currentPage: number;
+	totalPages: number;
+	totalItems: number;
+	itemsPerPage: number;
+}
@@ -0,0 +1,480 @@
+/**
+ * Request and response types for the /api/articles routes, matching the
+ * schemas in validation/article.schemas.ts. Dates are ISO strings, as they
+ * arrive over JSON.
+ */
+
+import { Pagination } from "./api";
+
+export interface ArticleReference {
+	title: string;
+	url: string;
+	/** Snapshot the version was generated from, see /api/references/:id */
+	sourceId?: string;
+	/** Search query that found the page */
+	query?: string;
+	/** Position among all candidates, by relevance to the original */
+	rank?: number;
+	score?: number;
+}
+
+export interface ArticleMediaItem {
+	url: string;
+	alt?: string;
+	title?: string;
+	caption?: string;
+}
+
+export type ArticleTone =
+	| "professional"
+	| "conversational"
+	| "technical"
+	| "friendly"
+	| "persuasive";
+
+export interface ArticleGeneration {
+	provider?: string;
+	model?: string;
+	prompt?: string;
+	generatedAt?: string;
+	options?: {
+		referenceCount?: number;
+		targetLength?: number;
+		tone?: ArticleTone;
+		audience?: string;
+	};
+	templates?: Array<{
+		key: string;
+		version: number;
+		templateId?: string;
+	}>;
+	/** Queries run to find the references */
+	search?: {
+		queries: Array<{
+			query: string;
+			source: "title" | "keywords" | "heading" | "llm";
+			resultCount: number;
+			error?: string;
+		}>;
+	};
+}
+
+export type QualityStatus = "passed" | "flagged" | "rejected";
+
+/** Automated evaluation of an optimized version */
+export interface ArticleQuality {
+	score: number;
+	status: QualityStatus;
+	issues: string[];
+	metrics?: {
+		wordCount: number;
+		lengthRatio: number;
+		readingEase: number;
+		gradeLevel: number;
+		headingCount: number;
+		headingCoverage: number;
+		referenceOverlap: number;
+		closestReference?: string;
+		entityRetention: number;
+		missingEntities: string[];
+		language: string;
+		originalLanguage: string;
+	};
+	evaluatedAt: string;
+}
+
+export type ReviewStatus =
+	| "draft"
+	| "in_review"
+	| "approved"
+	| "published"
+	| "rejected";
+
+export interface ReviewActor {
+	userId?: string;
+	email?: string;
+	name?: string;
+}
+
+/** Editorial state of an optimized version */
+export interface ArticleReview {
+	status: ReviewStatus;
+	/** Set while the version is rejected */
+	rejectionReason?: string;
+	updatedAt?: string;
+	updatedBy?: ReviewActor;
+	/** Oldest first */
+	history?: Array<{
+		from: ReviewStatus;
+		to: ReviewStatus;
+		reason?: string;
+		by?: ReviewActor;
+		at: string;
+	}>;
+}
+
+export interface ArticleComment {
+	_id: string;
+	body: string;
+	author?: ReviewActor;
+	createdAt: string;
+}
+
+export interface ArticleDTO {
+	_id: string;
+	title: string;
+	content: string;
+	excerpt?: string;
+	author?: string;
+	publishedDate?: string;
+	url: string;
+	scrapedAt: string;
+	isOriginal: boolean;
+	originalArticleId?: string | { _id: string; title: string; url: string };
+	updatedContent?: string;
+	references?: ArticleReference[];
+	media?: ArticleMediaItem[];
+	metadata?: {
+		wordCount?: number;
+		readingTime?: number;
+	};
+	version?: number;
+	generation?: ArticleGeneration;
+	isPublished?: boolean;
+	publishedVersionId?: string;
+	sourceId?: string;
+	isStale?: boolean;
+	staleSince?: string;
+	quality?: ArticleQuality;
+	/** Reviewers, history and comments are in GET /api/articles/:id/review */
+	review?: Pick<ArticleReview, "status" | "updatedAt">;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface FacetBucket {
+	value: string;
+	count: number;
+}
+
+export interface ArticleFacets {
+	authors: FacetBucket[];
+	months: FacetBucket[];
+	type: {
+		original: number;
+		optimized: number;
+	};
+}
+
+/** POST /api/articles/scrape */
+export interface ScrapeArticlesRequest {
+	limit?: number;
+	sourceId?: string;
+}
+
+export interface ScrapeArticlesResponse {
+	articles: ArticleDTO[];
+	updated: ArticleDTO[];
+	unchanged: number;
+	errors?: Array<{ url: string; message: string }>;
+}
+
+export type ArticleSortField =
+	| "createdAt"
+	| "updatedAt"
+	| "publishedDate"
+	| "scrapedAt"
+	| "title"
+	| "author"
+	| "wordCount"
+	| "readingTime"
+	| "qualityScore"
+	| "relevance";
+
+/** GET /api/articles */
+/** Filters shared by GET /api/articles and GET /api/articles/export */
+export interface ArticleFilterQuery {
+	q?: string;
+	isOriginal?: "true" | "false";
+	author?: string | string[];
+	publishedFrom?: string;
+	publishedTo?: string;
+	minWordCount?: string;
+	maxWordCount?: string;
+	minReadingTime?: string;
+	maxReadingTime?: string;
+	hasOptimized?: "true" | "false";
+	quality?: QualityStatus | QualityStatus[];
+}
+
+export interface ListArticlesQuery extends ArticleFilterQuery {
+	page: number;
+	limit: number;
+	sortBy?: ArticleSortField;
+	order?: "asc" | "desc";
+}
+
+export interface ListArticlesResponse {
+	articles: ArticleDTO[];
+	pagination: Pagination;
+	facets: ArticleFacets;
+}
+
+/** GET /api/articles/:id */
+export interface ArticleDetailResponse {
+	article: ArticleDTO;
+	updatedVersions?: ArticleDTO[];
+}
+
+/** POST /api/articles */
+export interface CreateArticleRequest {
+	title: string;
+	content: string;
+	url: string;
+	excerpt?: string;
+	author?: string;
+	publishedDate?: Date;
+	isOriginal?: boolean;
+	originalArticleId?: string;
+	updatedContent?: string;
+	references?: ArticleReference[];
+	media?: ArticleMediaItem[];
+	generation?: {
+		provider?: string;
+		model?: string;
+		prompt?: string;
+		generatedAt?: Date;
+		options?: ArticleGeneration["options"];
+		templates?: ArticleGeneration["templates"];
+		search?: ArticleGeneration["search"];
+	};
+	quality?: {
+		score: number;
+		status: QualityStatus;
+		issues: string[];
+		metrics?: Record<string, unknown>;
+		evaluatedAt: Date;
+	};
+}
+
+/** PUT /api/articles/:id */
+export interface UpdateArticleRequest {
+	title?: string;
+	content?: string;
+	excerpt?: string;
+	author?: string;
+	publishedDate?: Date;
+	updatedContent?: string;
+	references?: ArticleReference[];
+	media?: ArticleMediaItem[];
+}
+
+/**
+ * POST /api/articles/:id/optimize
+ * Send an Idempotency-Key header to make retries safe.
+ */
+export interface OptimizeArticleRequest {
+	provider?: string;
+	model?: string;
+	referenceCount?: number;
+	targetLength?: number;
+	tone?: ArticleTone;
+	audience?: string;
+}
+
+/**
+ * GET /api/articles/:id/optimize/stream, whose options are query parameters
+ * as EventSource cannot send a body or headers
+ */
+export interface OptimizeStreamQuery extends OptimizeArticleRequest {
+	/**
+	 * Defaults to the Idempotency-Key header, the Last-Event-ID an
+	 * EventSource sends on reconnecting, then a key generated for the stream
+	 */
+	idempotencyKey?: string;
+}
+
+/**
+ * GET /api/articles/:id/optimize/stream takes the OptimizeArticleRequest
+ * options as query parameters and answers with these Server-Sent Events,
+ * each with the stream's idempotency key as its id
+ */
+export type OptimizationStreamEvent =
+	| {
+			event: "stage";
+			data: {
+				stage:
+					| "searching"
+					| "scraping"
+					| "generating"
+					| "rewriting-section"
+					| "stitching"
+					| "evaluating"
+					| "saving";
+				query?: string;
+				/** Position of the query among the planned ones */
+				index?: number;
+				reference?: number;
+				section?: number;
+				total?: number;
+				url?: string;
+				provider?: string;
+				model?: string;
+			};
+	  }
+	| { event: "token"; data: { text: string } }
+	| { event: "done"; data: { article: ArticleDTO; replayed: boolean } }
+	| {
+			event: "error";
+			data: { message: string; statusCode: number; quality?: ArticleQuality };
+	  };
+
+/** GET /api/articles/stale */
+export interface ListStaleQuery {
+	page: number;
+	limit: number;
+}
+
+export interface StaleOptimizationDTO {
+	original: { _id: string; title: string; url: string; scrapedAt?: string };
+	latestVersion: {
+		_id: string;
+		title: string;
+		version?: number;
+		generation?: ArticleGeneration;
+		staleSince?: string;
+		createdAt: string;
+	};
+}
+
+export interface ListStaleResponse {
+	stale: StaleOptimizationDTO[];
+	pagination: Pagination;
+}
+
+/** GET /api/articles/:id/versions */
+export interface VersionsResponse {
+	original: {
+		_id: string;
+		title: string;
+		url: string;
+		publishedVersionId?: string;
+	};
+	versions: ArticleDTO[];
+}
+
+/** GET /api/articles/:id/versions/:a/diff/:b */
+export interface VersionDiffResponse {
+	from: { version: number; articleId: string; title: string };
+	to: { version: number; articleId: string; title: string };
+	words: {
+		changes: Array<{
+			type: "added" | "removed" | "unchanged";
+			value: string;
+			count: number;
+		}>;
+		stats: {
+			added: number;
+			removed: number;
+			unchanged: number;
+			similarity: number;
+		};
+		truncated: boolean;
+	};
+	sections: Array<{
+		heading: string;
+		level: number;
+		status: "added" | "removed" | "modified" | "unchanged";
+		similarity: number;
+	}>;
+}
+
+/** GET /api/articles/:id/originality */
+export interface OriginalityResponse {
+	articleId: string;
+	wordCount: number;
+	/** Percentage of the article's words copied verbatim from any reference */
+	similarity: number;
+	references: Array<{
+		url: string;
+		title?: string;
+		similarity: number;
+		matchedWords: number;
+		/** Copied passages, longest first */
+		spans: Array<{ text: string; words: number }>;
+	}>;
+	/** References without a stored snapshot, so could not be checked */
+	missingReferences: string[];
+}
+
+/** GET /api/articles/:id/review */
+export interface ReviewResponse {
+	articleId: string;
+	status: ReviewStatus;
+	rejectionReason?: string;
+	history: NonNullable<ArticleReview["history"]>;
+	comments: ArticleComment[];
+	/** States the version can move to next, with the role each needs */
+	transitions: Array<{ to: ReviewStatus; role: "viewer" | "editor" | "admin" }>;
+}
+
+/** POST /api/articles/:id/status */
+export interface UpdateReviewStatusRequest {
+	status: ReviewStatus;
+	/** Required when rejecting */
+	reason?: string;
+}
+
+/** POST /api/articles/:id/comments */
+export interface AddCommentRequest {
+	body: string;
+}
+
+/** GET /api/articles/:id/export answers with the file itself */
+export interface ExportArticleQuery {
+	format: "md" | "html" | "json";
+}
+
+/**
+ * GET /api/articles/export answers with a zip of Markdown files laid out
+ * for a Hugo (content/posts/) or Jekyll (_posts/) site
+ */
+export interface ExportArticlesQuery extends ArticleFilterQuery {
+	layout: "hugo" | "jekyll";
+	/** Most recently published first */
+	limit: number;
+	reviewStatus?: ReviewStatus | ReviewStatus[];
+}
+
+/**
+ * POST /api/articles/import takes .md (YAML front matter), .json, .csv or
+ * .zip files as multipart "files", or a zip as the request body
+ */
+export interface ImportArticlesQuery {
+	/** Validate and report conflicts without storing anything */
+	dryRun: "true" | "false";
+}
+
+/**
+ * valid: would be created (dry run); conflict: the URL is already stored or
+ * appears earlier in the upload
+ */
+export type ImportRowStatus = "created" | "valid" | "conflict" | "error";
+
+export interface ImportRowResult {
+	/** File name, with its path inside the archive */
+	file: string;
+	/** 1-based; entries in a JSON array or CSV data rows */
+	row: number;
+	status: ImportRowStatus;
+	url?: string;
+	title?: string;
+	articleId?: string;
+	message?: string;
+}
+
+export interface ImportArticlesResponse {
+	dryRun: boolean;
+	summary: Record<ImportRowStatus, number>;
+	rows: ImportRowResult[];
+}
@@ -0,0 +1,103 @@
+/**
+ * Request and response types for the /api/jobs routes, matching the schemas
+ * in validation/job.schemas.ts. Dates are ISO strings, as they arrive over
+ * JSON.
+ */
+
+import { Pagination } from "./api";
+
+export type JobType = "scrape" | "optimize";
+
+export type JobStatus =
+	| "queued"
+	| "running"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+/** Params of a scrape job: a source's listing, or just the given URLs */
+export interface ScrapeJobParams {
+	sourceId?: string;
+	limit?: number;
+	urls?: string[];
+}
+
+/** Params of an optimize job: the given originals, or the first `limit` */
+export interface OptimizeJobParams {
+	articleIds?: string[];
+	limit?: number;
+	/** Skip originals that already have optimized versions */
+	onlyUnoptimized?: boolean;
+}
+
+export interface JobItemResult {
+	/** Article URL (scrape) or original article ID (optimize) */
+	item: string;
+	label?: string;
+	status: "succeeded" | "failed";
+	message?: string;
+	articleId?: string;
+	finishedAt: string;
+}
+
+export interface JobDTO {
+	_id: string;
+	type: JobType;
+	status: JobStatus;
+	params: ScrapeJobParams | OptimizeJobParams;
+	progress: {
+		total: number;
+		processed: number;
+		succeeded: number;
+		failed: number;
+		current?: { item: string; label?: string; startedAt: string };
+	};
+	/** Only included by GET /api/jobs/:id */
+	results?: JobItemResult[];
+	itemErrors: Array<{ item: string; message: string; occurredAt: string }>;
+	error?: string;
+	attempts: number;
+	retryOf?: string;
+	cancelRequested: boolean;
+	startedAt?: string;
+	finishedAt?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/** GET /api/jobs */
+export interface ListJobsQuery {
+	page: number;
+	limit: number;
+	status?: JobStatus;
+	type?: JobType;
+}
+
+export interface ListJobsResponse {
+	jobs: JobDTO[];
+	pagination: Pagination;
+}
+
+/** POST /api/jobs */
+export type EnqueueJobRequest =
+	| { type: "scrape"; params?: ScrapeJobParams }
+	| { type: "optimize"; params?: OptimizeJobParams };
+
+/** POST /api/jobs/:id/retry */
+export interface RetryJobRequest {
+	/** Failed items to run again (default: all of them) */
+	items?: string[];
+}
+
+/** GET /api/jobs/summary */
+export interface JobsSummaryResponse {
+	articles: {
+		originals: number;
+		optimized: number;
+		optimizedOriginals: number;
+		neverOptimized: number;
+		stale: number;
+	};
+	jobs: Record<JobType, Partial<Record<JobStatus, number>>>;
+	latest: Partial<Record<JobType, JobDTO>>;
+}
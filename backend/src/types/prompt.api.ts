@@ -0,0 +1,51 @@
+/**
+ * Request and response types for the /api/prompts routes, matching the
+ * schemas in validation/prompt.schemas.ts
+ */
+
+export type PromptTemplateKey =
+	| "optimize"
+	| "section"
+	| "stitch"
+	| "compact"
+	| "queries";
+
+export interface PromptTemplateDTO {
+	_id: string;
+	key: PromptTemplateKey;
+	version: number;
+	description?: string;
+	body: string;
+	variables: string[];
+	isActive: boolean;
+	createdBy?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/** GET /api/prompts */
+export interface PromptTemplateSummaryDTO {
+	key: PromptTemplateKey;
+	variables: string[];
+	/** 0 while the built-in template is used */
+	activeVersion: number;
+	latestVersion: number;
+	description?: string;
+	updatedAt?: string;
+}
+
+/** GET /api/prompts/:key */
+export interface PromptTemplateVersionsResponse {
+	key: PromptTemplateKey;
+	variables: string[];
+	builtIn: { version: 0; description: string; body: string };
+	versions: PromptTemplateDTO[];
+}
+
+/** POST /api/prompts/:key/versions */
+export interface CreatePromptTemplateRequest {
+	body: string;
+	description?: string;
+	/** Use the new version for new optimizations (default: true) */
+	activate?: boolean;
+}
@@ -0,0 +1,50 @@
+/**
+ * Request and response types for the /api/references routes, matching the
+ * schemas in validation/reference.schemas.ts. Dates are ISO strings, as they
+ * arrive over JSON.
+ */
+
+import { Pagination } from "./api";
+
+export type ReferenceFetchStatus = "fetched" | "failed";
+
+export interface ReferenceSourceDTO {
+	_id: string;
+	url: string;
+	domain: string;
+	title: string;
+	/** Only included by GET /api/references/:id */
+	content?: string;
+	wordCount: number;
+	status: ReferenceFetchStatus;
+	httpStatus?: number;
+	error?: string;
+	fetchedAt: string;
+	query: string;
+	rank: number;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/** GET /api/references */
+export interface ListReferenceSourcesQuery {
+	page: number;
+	limit: number;
+	domain?: string;
+	status?: ReferenceFetchStatus;
+	url?: string;
+	/** Only the snapshots an optimized version was generated from */
+	articleId?: string;
+}
+
+export interface ListReferenceSourcesResponse {
+	references: ReferenceSourceDTO[];
+	pagination: Pagination;
+}
+
+/** GET /api/references/:id */
+export interface ReferenceSourceDetailResponse {
+	reference: ReferenceSourceDTO;
+	/** Optimized versions generated from this snapshot */
+	articles: Array<{ _id: string; title: string; version?: number }>;
+}
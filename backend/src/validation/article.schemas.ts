@@ -0,0 +1,618 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { RouteSchema } from "../middleware/validate.middleware";
+import { ARTICLE_TONES } from "../services/llm.service";
+import { REVIEW_STATUSES } from "../models/Article";
+import {
+	AddCommentRequest,
+	CreateArticleRequest,
+	ExportArticleQuery,
+	ExportArticlesQuery,
+	ImportArticlesQuery,
+	ListArticlesQuery,
+	ListStaleQuery,
+	OptimizeArticleRequest,
+	OptimizeStreamQuery,
+	ScrapeArticlesRequest,
+	UpdateArticleRequest,
+	UpdateReviewStatusRequest,
+} from "../types/article.api";
+
+const requiredString = (message = "is required") =>
+	z.string({
+		error: (issue) =>
+			issue.input === undefined ? message : "must be a string",
+	});
+
+const nonEmptyString = () =>
+	requiredString().trim().min(1, "must not be empty");
+
+const objectId = (label: string) =>
+	requiredString().refine(
+		(value) => mongoose.isValidObjectId(value),
+		`must be a valid ${label}`
+	);
+
+const positiveInteger = (max: number) =>
+	z.coerce
+		.number({ error: "must be a number" })
+		.int("must be an integer")
+		.min(1, "must be at least 1")
+		.max(max, `must be at most ${max}`);
+
+const numericString = () =>
+	z.string().regex(/^\d+(\.\d+)?$/, "must be a non-negative number");
+
+const dateString = () =>
+	z
+		.string()
+		.refine((value) => !Number.isNaN(Date.parse(value)), "must be a date");
+
+const booleanString = () =>
+	z.enum(["true", "false"], { error: 'must be "true" or "false"' });
+
+const httpUrl = () =>
+	requiredString()
+		.trim()
+		.refine((value) => {
+			try {
+				return ["http:", "https:"].includes(new URL(value).protocol);
+			} catch {
+				return false;
+			}
+		}, "must be an http(s) URL");
+
+const referenceSchema = z.strictObject({
+	title: nonEmptyString(),
+	url: httpUrl(),
+	sourceId: objectId("reference ID").optional(),
+	query: z.string().optional(),
+	rank: z.number().int().min(1).optional(),
+	score: z.number().min(0).optional(),
+});
+
+const mediaSchema = z.strictObject({
+	url: httpUrl(),
+	alt: z.string().optional(),
+	title: z.string().optional(),
+	caption: z.string().optional(),
+});
+
+const dateInput = () => z.coerce.date({ error: "must be a date" });
+
+const QUALITY_STATUSES = ["passed", "flagged", "rejected"] as const;
+
+const toneSchema = () =>
+	z.enum(ARTICLE_TONES, {
+		error: `must be one of: ${ARTICLE_TONES.join(", ")}`,
+	});
+
+// Evaluations made by the optimization script, which stores its versions
+// through POST /api/articles
+const qualitySchema = z.strictObject({
+	score: z.number().min(0).max(100),
+	status: z.enum(QUALITY_STATUSES),
+	issues: z.array(z.string()),
+	metrics: z.record(z.string(), z.unknown()).optional(),
+	evaluatedAt: dateInput(),
+});
+
+// ---------------------------------------------------------------------------
+// Requests
+
+const articleIdParams = z.object({ id: objectId("article ID") });
+
+const versionReference = z
+	.string()
+	.regex(/^(original|\d+)$/, 'must be "original" or a version number');
+
+const scrapeArticlesBody: z.ZodType<ScrapeArticlesRequest> = z.strictObject({
+	limit: positiveInteger(500).optional(),
+	sourceId: objectId("source ID").optional(),
+});
+
+const articleFilters = {
+	q: z.string().optional(),
+	isOriginal: booleanString().optional(),
+	author: z.union([z.string(), z.array(z.string())]).optional(),
+	publishedFrom: dateString().optional(),
+	publishedTo: dateString().optional(),
+	minWordCount: numericString().optional(),
+	maxWordCount: numericString().optional(),
+	minReadingTime: numericString().optional(),
+	maxReadingTime: numericString().optional(),
+	hasOptimized: booleanString().optional(),
+	quality: z
+		.union([z.enum(QUALITY_STATUSES), z.array(z.enum(QUALITY_STATUSES))], {
+			error: `must be one of: ${QUALITY_STATUSES.join(", ")}`,
+		})
+		.optional(),
+};
+
+// hasOptimized only matches originals
+const optimizedFilterAppliesToOriginals = (query: {
+	isOriginal?: string;
+	hasOptimized?: string;
+}) => query.hasOptimized === undefined || query.isOriginal !== "false";
+
+const optimizedFilterError = {
+	path: ["hasOptimized"],
+	message: "cannot be combined with isOriginal=false",
+};
+
+const listArticlesQuery: z.ZodType<ListArticlesQuery> = z
+	.object({
+		page: positiveInteger(10000).default(1),
+		limit: positiveInteger(100).default(10),
+		...articleFilters,
+		sortBy: z
+			.enum(
+				[
+					"createdAt",
+					"updatedAt",
+					"publishedDate",
+					"scrapedAt",
+					"title",
+					"author",
+					"wordCount",
+					"readingTime",
+					"qualityScore",
+					"relevance",
+				],
+				{ error: "is not a sortable field" }
+			)
+			.optional(),
+		order: z
+			.enum(["asc", "desc"], { error: 'must be "asc" or "desc"' })
+			.optional(),
+	})
+	.refine((query) => query.sortBy !== "relevance" || Boolean(query.q?.trim()), {
+		path: ["sortBy"],
+		message: "relevance sorting requires a q parameter",
+	})
+	.refine(optimizedFilterAppliesToOriginals, optimizedFilterError);
+
+const exportArticleQuery: z.ZodType<ExportArticleQuery> = z.object({
+	format: z
+		.enum(["md", "html", "json"], {
+			error: 'must be "md", "html" or "json"',
+		})
+		.default("md"),
+});
+
+const exportArticlesQuery: z.ZodType<ExportArticlesQuery> = z
+	.object({
+		...articleFilters,
+		layout: z
+			.enum(["hugo", "jekyll"], { error: 'must be "hugo" or "jekyll"' })
+			.default("hugo"),
+		limit: positiveInteger(500).default(100),
+		reviewStatus: z
+			.union([z.enum(REVIEW_STATUSES), z.array(z.enum(REVIEW_STATUSES))], {
+				error: `must be one of: ${REVIEW_STATUSES.join(", ")}`,
+			})
+			.optional(),
+	})
+	.refine(optimizedFilterAppliesToOriginals, optimizedFilterError);
+
+const importArticlesQuery: z.ZodType<ImportArticlesQuery> = z.object({
+	dryRun: booleanString().default("false"),
+});
+
+const listStaleQuery: z.ZodType<ListStaleQuery> = z.object({
+	page: positiveInteger(10000).default(1),
+	limit: positiveInteger(100).default(20),
+});
+
+// Server-managed fields (scrapedAt, metadata, version, publish state, change
+// tracking) are not accepted from clients
+const createArticleBody: z.ZodType<CreateArticleRequest> = z
+	.strictObject({
+		title: nonEmptyString(),
+		content: nonEmptyString(),
+		url: httpUrl(),
+		excerpt: z.string().optional(),
+		author: z.string().trim().optional(),
+		publishedDate: dateInput().optional(),
+		isOriginal: z.boolean({ error: "must be a boolean" }).optional(),
+		originalArticleId: objectId("article ID").optional(),
+		updatedContent: z.string().optional(),
+		references: z.array(referenceSchema).optional(),
+		media: z.array(mediaSchema).optional(),
+		generation: z
+			.strictObject({
+				provider: z.string().optional(),
+				model: z.string().optional(),
+				prompt: z.string().optional(),
+				generatedAt: dateInput().optional(),
+				options: z
+					.strictObject({
+						referenceCount: z.number().int().min(1).optional(),
+						targetLength: z.number().int().min(1).optional(),
+						tone: toneSchema().optional(),
+						audience: z.string().optional(),
+					})
+					.optional(),
+				templates: z
+					.array(
+						z.strictObject({
+							key: nonEmptyString(),
+							version: z.number().int().min(0),
+							templateId: objectId("template ID").optional(),
+						})
+					)
+					.optional(),
+				search: z
+					.strictObject({
+						queries: z.array(
+							z.strictObject({
+								query: nonEmptyString(),
+								source: z.enum(["title", "keywords", "heading", "llm"]),
+								resultCount: z.number().int().min(0),
+								error: z.string().optional(),
+							})
+						),
+					})
+					.optional(),
+			})
+			.optional(),
+		quality: qualitySchema.optional(),
+	})
+	.superRefine((article, context) => {
+		if (article.isOriginal === false && !article.originalArticleId) {
+			context.addIssue({
+				code: "custom",
+				path: ["originalArticleId"],
+				message: "is required for optimized versions",
+			});
+		}
+
+		if (article.isOriginal !== false && article.originalArticleId) {
+			context.addIssue({
+				code: "custom",
+				path: ["originalArticleId"],
+				message: "is only allowed when isOriginal is false",
+			});
+		}
+
+		if (article.isOriginal !== false && article.quality) {
+			context.addIssue({
+				code: "custom",
+				path: ["quality"],
+				message: "is only allowed when isOriginal is false",
+			});
+		}
+	});
+
+const updateArticleBody: z.ZodType<UpdateArticleRequest> = z
+	.strictObject({
+		title: nonEmptyString().optional(),
+		content: nonEmptyString().optional(),
+		excerpt: z.string().optional(),
+		author: z.string().trim().optional(),
+		publishedDate: dateInput().optional(),
+		updatedContent: z.string().optional(),
+		references: z.array(referenceSchema).optional(),
+		media: z.array(mediaSchema).optional(),
+	})
+	.refine((updates) => Object.keys(updates).length > 0, {
+		message: "must contain at least one field",
+	});
+
+const optimizeOptions = {
+	provider: nonEmptyString().optional(),
+	model: nonEmptyString().optional(),
+	referenceCount: positiveInteger(5).optional(),
+	targetLength: positiveInteger(5000)
+		.min(100, "must be at least 100")
+		.optional(),
+	tone: toneSchema().optional(),
+	audience: nonEmptyString()
+		.max(200, "must be at most 200 characters")
+		.optional(),
+};
+
+const modelRequiresProvider = (options: OptimizeArticleRequest) =>
+	!options.model || Boolean(options.provider);
+
+const optimizeArticleBody: z.ZodType<OptimizeArticleRequest> = z
+	.strictObject(optimizeOptions)
+	.refine(modelRequiresProvider, {
+		path: ["model"],
+		message: "requires a provider",
+	});
+
+// EventSource cannot send a body, so the stream takes its options as query
+// parameters (other parameters, like access_token, are ignored)
+const optimizeStreamQuery: z.ZodType<OptimizeStreamQuery> = z
+	.object({
+		...optimizeOptions,
+		idempotencyKey: nonEmptyString()
+			.max(255, "must be at most 255 characters")
+			.optional(),
+	})
+	.refine(modelRequiresProvider, {
+		path: ["model"],
+		message: "requires a provider",
+	});
+
+const updateReviewStatusBody: z.ZodType<UpdateReviewStatusRequest> = z
+	.strictObject({
+		status: z.enum(REVIEW_STATUSES, {
+			error: `must be one of: ${REVIEW_STATUSES.join(", ")}`,
+		}),
+		reason: z
+			.string()
+			.trim()
+			.max(2000, "must be at most 2000 characters")
+			.optional(),
+	})
+	.refine((update) => update.status !== "rejected" || Boolean(update.reason), {
+		path: ["reason"],
+		message: "is required when rejecting",
+	});
+
+const addCommentBody: z.ZodType<AddCommentRequest> = z.strictObject({
+	body: nonEmptyString().max(5000, "must be at most 5000 characters"),
+});
+
+// ---------------------------------------------------------------------------
+// Responses (checked in development with VALIDATE_RESPONSES=true)
+
+const apiResponse = <T extends z.ZodType>(data: T) =>
+	z.object({
+		success: z.literal(true),
+		message: z.string().optional(),
+		data,
+	});
+
+const paginationSchema = z.object({
+	currentPage: z.number(),
+	totalPages: z.number(),
+	totalItems: z.number(),
+	itemsPerPage: z.number(),
+});
+
+const articleSchema = z.looseObject({
+	_id: z.string(),
+	title: z.string(),
+	url: z.string(),
+	isOriginal: z.boolean(),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+});
+
+const reviewStatusSchema = z.enum(REVIEW_STATUSES);
+
+const commentSchema = z.looseObject({
+	_id: z.string(),
+	body: z.string(),
+	createdAt: z.string(),
+});
+
+const facetBucketsSchema = z.array(
+	z.object({ value: z.string(), count: z.number() })
+);
+
+const importStatusSchema = z.enum(["created", "valid", "conflict", "error"]);
+
+const wordStatsSchema = z.object({
+	added: z.number(),
+	removed: z.number(),
+	unchanged: z.number(),
+	similarity: z.number(),
+});
+
+// ---------------------------------------------------------------------------
+// Routes in routes/article.routes.ts
+
+export const articleRouteSchemas = {
+	scrape: {
+		body: scrapeArticlesBody,
+		response: apiResponse(
+			z.object({
+				articles: z.array(articleSchema),
+				updated: z.array(articleSchema),
+				unchanged: z.number(),
+				errors: z
+					.array(z.object({ url: z.string(), message: z.string() }))
+					.optional(),
+			})
+		),
+	},
+	list: {
+		query: listArticlesQuery,
+		response: apiResponse(
+			z.object({
+				articles: z.array(articleSchema),
+				pagination: paginationSchema,
+				facets: z.object({
+					authors: facetBucketsSchema,
+					months: facetBucketsSchema,
+					type: z.object({ original: z.number(), optimized: z.number() }),
+				}),
+			})
+		),
+	},
+	listStale: {
+		query: listStaleQuery,
+		response: apiResponse(
+			z.object({
+				stale: z.array(
+					z.object({
+						original: z.looseObject({ _id: z.string(), title: z.string() }),
+						latestVersion: z.looseObject({
+							_id: z.string(),
+							title: z.string(),
+						}),
+					})
+				),
+				pagination: paginationSchema,
+			})
+		),
+	},
+	getById: {
+		params: articleIdParams,
+		response: apiResponse(
+			z.object({
+				article: articleSchema,
+				updatedVersions: z.array(z.looseObject({ _id: z.string() })).optional(),
+			})
+		),
+	},
+	create: {
+		body: createArticleBody,
+		response: apiResponse(articleSchema),
+	},
+	update: {
+		params: articleIdParams,
+		body: updateArticleBody,
+		response: apiResponse(articleSchema),
+	},
+	remove: {
+		params: articleIdParams,
+		response: z.object({ success: z.literal(true), message: z.string() }),
+	},
+	versions: {
+		params: articleIdParams,
+		response: apiResponse(
+			z.object({
+				original: z.looseObject({ _id: z.string(), title: z.string() }),
+				versions: z.array(articleSchema),
+			})
+		),
+	},
+	diff: {
+		params: articleIdParams.extend({
+			a: versionReference,
+			b: versionReference,
+		}),
+		response: apiResponse(
+			z.object({
+				from: z.object({
+					version: z.number(),
+					articleId: z.string(),
+					title: z.string(),
+				}),
+				to: z.object({
+					version: z.number(),
+					articleId: z.string(),
+					title: z.string(),
+				}),
+				words: z.object({
+					changes: z.array(
+						z.object({
+							type: z.enum(["added", "removed", "unchanged"]),
+							value: z.string(),
+							count: z.number(),
+						})
+					),
+					stats: wordStatsSchema,
+					truncated: z.boolean(),
+				}),
+				sections: z.array(
+					z.looseObject({
+						heading: z.string(),
+						level: z.number(),
+						status: z.enum(["added", "removed", "modified", "unchanged"]),
+						similarity: z.number(),
+					})
+				),
+			})
+		),
+	},
+	optimize: {
+		params: articleIdParams,
+		body: optimizeArticleBody,
+		response: apiResponse(articleSchema),
+	},
+	originality: {
+		params: articleIdParams,
+		response: apiResponse(
+			z.object({
+				articleId: z.string(),
+				wordCount: z.number(),
+				similarity: z.number(),
+				references: z.array(
+					z.object({
+						url: z.string(),
+						title: z.string().optional(),
+						similarity: z.number(),
+						matchedWords: z.number(),
+						spans: z.array(z.object({ text: z.string(), words: z.number() })),
+					})
+				),
+				missingReferences: z.array(z.string()),
+			})
+		),
+	},
+	optimizeStream: {
+		params: articleIdParams,
+		query: optimizeStreamQuery,
+	},
+	publish: {
+		params: articleIdParams.extend({ version: versionReference }),
+		response: apiResponse(articleSchema),
+	},
+	export: {
+		params: articleIdParams,
+		query: exportArticleQuery,
+	},
+	exportBundle: {
+		query: exportArticlesQuery,
+	},
+	import: {
+		query: importArticlesQuery,
+		response: apiResponse(
+			z.object({
+				dryRun: z.boolean(),
+				summary: z.record(importStatusSchema, z.number()),
+				rows: z.array(
+					z.object({
+						file: z.string(),
+						row: z.number(),
+						status: importStatusSchema,
+						url: z.string().optional(),
+						title: z.string().optional(),
+						articleId: z.string().optional(),
+						message: z.string().optional(),
+					})
+				),
+			})
+		),
+	},
+	review: {
+		params: articleIdParams,
+		response: apiResponse(
+			z.object({
+				articleId: z.string(),
+				status: reviewStatusSchema,
+				rejectionReason: z.string().optional(),
+				history: z.array(
+					z.looseObject({
+						from: reviewStatusSchema,
+						to: reviewStatusSchema,
+						at: z.string(),
+					})
+				),
+				comments: z.array(commentSchema),
+				transitions: z.array(
+					z.object({
+						to: reviewStatusSchema,
+						role: z.enum(["viewer", "editor", "admin"]),
+					})
+				),
+			})
+		),
+	},
+	updateStatus: {
+		params: articleIdParams,
+		body: updateReviewStatusBody,
+		response: apiResponse(articleSchema),
+	},
+	addComment: {
+		params: articleIdParams,
+		body: addCommentBody,
+		response: apiResponse(commentSchema),
+	},
+} satisfies Record<string, RouteSchema>;
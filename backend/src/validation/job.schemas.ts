@@ -0,0 +1,146 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { RouteSchema } from "../middleware/validate.middleware";
+import {
+	EnqueueJobRequest,
+	ListJobsQuery,
+	RetryJobRequest,
+} from "../types/job.api";
+
+const JOB_TYPES = ["scrape", "optimize"] as const;
+
+const JOB_STATUSES = [
+	"queued",
+	"running",
+	"completed",
+	"failed",
+	"cancelled",
+] as const;
+
+const objectId = (label: string) =>
+	z
+		.string({
+			error: (issue) =>
+				issue.input === undefined ? "is required" : "must be a string",
+		})
+		.refine(
+			(value) => mongoose.isValidObjectId(value),
+			`must be a valid ${label}`
+		);
+
+const positiveInteger = (max: number) =>
+	z.coerce
+		.number({ error: "must be a number" })
+		.int("must be an integer")
+		.min(1, "must be at least 1")
+		.max(max, `must be at most ${max}`);
+
+const jobIdParams = z.object({ id: objectId("job ID") });
+
+const listJobsQuery: z.ZodType<ListJobsQuery> = z.object({
+	page: positiveInteger(10000).default(1),
+	limit: positiveInteger(100).default(20),
+	status: z
+		.enum(JOB_STATUSES, {
+			error: `must be one of: ${JOB_STATUSES.join(", ")}`,
+		})
+		.optional(),
+	type: z
+		.enum(JOB_TYPES, { error: `must be one of: ${JOB_TYPES.join(", ")}` })
+		.optional(),
+});
+
+// Params are checked by each job type's handler when the job is enqueued
+const enqueueJobBody: z.ZodType<EnqueueJobRequest> = z.strictObject({
+	type: z.enum(JOB_TYPES, {
+		error: `must be one of: ${JOB_TYPES.join(", ")}`,
+	}),
+	params: z.record(z.string(), z.unknown()).optional(),
+}) as z.ZodType<EnqueueJobRequest>;
+
+const retryJobBody: z.ZodType<RetryJobRequest> = z.strictObject({
+	items: z
+		.array(z.string().min(1, "must not be empty"))
+		.min(1, "must not be empty")
+		.optional(),
+});
+
+const apiResponse = <T extends z.ZodType>(data: T) =>
+	z.object({
+		success: z.literal(true),
+		message: z.string().optional(),
+		data,
+	});
+
+const jobSchema = z.looseObject({
+	_id: z.string(),
+	type: z.enum(JOB_TYPES),
+	status: z.enum(JOB_STATUSES),
+	progress: z.looseObject({
+		total: z.number(),
+		processed: z.number(),
+		succeeded: z.number(),
+		failed: z.number(),
+	}),
+	createdAt: z.string(),
+});
+
+const statusCountsSchema = z.record(z.string(), z.number());
+
+// ---------------------------------------------------------------------------
+// Routes in routes/job.routes.ts
+
+export const jobRouteSchemas = {
+	list: {
+		query: listJobsQuery,
+		response: apiResponse(
+			z.object({
+				jobs: z.array(jobSchema),
+				pagination: z.object({
+					currentPage: z.number(),
+					totalPages: z.number(),
+					totalItems: z.number(),
+					itemsPerPage: z.number(),
+				}),
+			})
+		),
+	},
+	summary: {
+		response: apiResponse(
+			z.object({
+				articles: z.object({
+					originals: z.number(),
+					optimized: z.number(),
+					optimizedOriginals: z.number(),
+					neverOptimized: z.number(),
+					stale: z.number(),
+				}),
+				jobs: z.object({
+					scrape: statusCountsSchema,
+					optimize: statusCountsSchema,
+				}),
+				latest: z.object({
+					scrape: jobSchema.optional(),
+					optimize: jobSchema.optional(),
+				}),
+			})
+		),
+	},
+	getById: {
+		params: jobIdParams,
+		response: apiResponse(jobSchema),
+	},
+	enqueue: {
+		body: enqueueJobBody,
+		response: apiResponse(jobSchema),
+	},
+	cancel: {
+		params: jobIdParams,
+		response: apiResponse(jobSchema),
+	},
+	retry: {
+		params: jobIdParams,
+		body: retryJobBody,
+		response: apiResponse(jobSchema),
+	},
+} satisfies Record<string, RouteSchema>;
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { RouteSchema } from "../middleware/validate.middleware";
+import { PROMPT_TEMPLATE_KEYS } from "../models/PromptTemplate";
+import { CreatePromptTemplateRequest } from "../types/prompt.api";
+
+const keyParams = z.object({
+	key: z.enum(PROMPT_TEMPLATE_KEYS, {
+		error: `must be one of: ${PROMPT_TEMPLATE_KEYS.join(", ")}`,
+	}),
+});
+
+const version = () =>
+	z.coerce.number({ error: "must be a number" }).int("must be an integer");
+
+const versionParams = keyParams.extend({
+	version: version().min(1, "must be at least 1"),
+});
+
+// Activating version 0 switches back to the built-in template
+const activateParams = keyParams.extend({
+	version: version().min(0, "must not be negative"),
+});
+
+const createTemplateBody: z.ZodType<CreatePromptTemplateRequest> =
+	z.strictObject({
+		body: z
+			.string({
+				error: (issue) =>
+					issue.input === undefined ? "is required" : "must be a string",
+			})
+			.trim()
+			.min(1, "must not be empty")
+			.max(20000, "must be at most 20000 characters"),
+		description: z.string().trim().max(500).optional(),
+		activate: z.boolean({ error: "must be a boolean" }).optional(),
+	});
+
+const apiResponse = <T extends z.ZodType>(data: T) =>
+	z.object({
+		success: z.literal(true),
+		message: z.string().optional(),
+		data,
+	});
+
+const templateSchema = z.looseObject({
+	_id: z.string(),
+	key: z.enum(PROMPT_TEMPLATE_KEYS),
+	version: z.number(),
+	body: z.string(),
+	isActive: z.boolean(),
+});
+
+// ---------------------------------------------------------------------------
+// Routes in routes/prompt.routes.ts
+
+export const promptRouteSchemas = {
+	list: {
+		response: apiResponse(
+			z.array(
+				z.looseObject({
+					key: z.enum(PROMPT_TEMPLATE_KEYS),
+					activeVersion: z.number(),
+					latestVersion: z.number(),
+				})
+			)
+		),
+	},
+	versions: {
+		params: keyParams,
+		response: apiResponse(
+			z.object({
+				key: z.enum(PROMPT_TEMPLATE_KEYS),
+				variables: z.array(z.string()),
+				builtIn: z.object({
+					version: z.literal(0),
+					description: z.string(),
+					body: z.string(),
+				}),
+				versions: z.array(templateSchema),
+			})
+		),
+	},
+	getVersion: {
+		params: versionParams,
+		response: apiResponse(templateSchema),
+	},
+	create: {
+		params: keyParams,
+		body: createTemplateBody,
+		response: apiResponse(templateSchema),
+	},
+	activate: {
+		params: activateParams,
+		response: apiResponse(templateSchema.nullable()),
+	},
+	remove: {
+		params: versionParams,
+		response: z.object({ success: z.literal(true), message: z.string() }),
+	},
+} satisfies Record<string, RouteSchema>;
@@ -0,0 +1,90 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { RouteSchema } from "../middleware/validate.middleware";
+import { ListReferenceSourcesQuery } from "../types/reference.api";
+
+const objectId = (label: string) =>
+	z
+		.string({
+			error: (issue) =>
+				issue.input === undefined ? "is required" : "must be a string",
+		})
+		.refine(
+			(value) => mongoose.isValidObjectId(value),
+			`must be a valid ${label}`
+		);
+
+const positiveInteger = (max: number) =>
+	z.coerce
+		.number({ error: "must be a number" })
+		.int("must be an integer")
+		.min(1, "must be at least 1")
+		.max(max, `must be at most ${max}`);
+
+const referenceIdParams = z.object({
+	id: objectId("reference ID"),
+});
+
+const listReferencesQuery: z.ZodType<ListReferenceSourcesQuery> = z.object({
+	page: positiveInteger(10000).default(1),
+	limit: positiveInteger(100).default(20),
+	domain: z.string().trim().min(1, "must not be empty").optional(),
+	status: z
+		.enum(["fetched", "failed"], { error: 'must be "fetched" or "failed"' })
+		.optional(),
+	url: z.string().trim().min(1, "must not be empty").optional(),
+	articleId: objectId("article ID").optional(),
+});
+
+const apiResponse = <T extends z.ZodType>(data: T) =>
+	z.object({
+		success: z.literal(true),
+		message: z.string().optional(),
+		data,
+	});
+
+const referenceSchema = z.looseObject({
+	_id: z.string(),
+	url: z.string(),
+	domain: z.string(),
+	title: z.string(),
+	status: z.enum(["fetched", "failed"]),
+	fetchedAt: z.string(),
+	query: z.string(),
+	rank: z.number(),
+});
+
+// ---------------------------------------------------------------------------
+// Routes in routes/reference.routes.ts
+
+export const referenceRouteSchemas = {
+	list: {
+		query: listReferencesQuery,
+		response: apiResponse(
+			z.object({
+				references: z.array(referenceSchema),
+				pagination: z.object({
+					currentPage: z.number(),
+					totalPages: z.number(),
+					totalItems: z.number(),
+					itemsPerPage: z.number(),
+				}),
+			})
+		),
+	},
+	getById: {
+		params: referenceIdParams,
+		response: apiResponse(
+			z.object({
+				reference: referenceSchema.extend({ content: z.string().optional() }),
+				articles: z.array(
+					z.looseObject({
+						_id: z.string(),
+						title: z.string(),
+						version: z.number().optional(),
+					})
+				),
+			})
+		),
+	},
+} satisfies Record<string, RouteSchema>;
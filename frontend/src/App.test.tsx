@@ -1,9 +1,57 @@
-import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
+import { listArticles } from './api/articles';
+
+jest.mock('react-markdown', () => ({ children }: { children: string }) => (
+  <div>{children}</div>
+));
+
+jest.mock('./api/articles', () => ({
+  listArticles: jest.fn(),
+  getArticle: jest.fn(),
+}));
+
+jest.mock('./api/auth', () => ({
+  login: jest.fn(),
+  getCurrentUser: jest.fn(),
+}));
+
+jest.mock('./api/client', () => ({
+  getToken: () => null,
+  setToken: jest.fn(),
+  getErrorMessage: (error: Error) => error.message,
+}));
+
+test('renders the article list', async () => {
+  (listArticles as jest.Mock).mockResolvedValue({
+    articles: [
+      {
+        _id: '1',
+        title: 'Chatbots for small businesses',
+        content: '',
+        url: 'https://example.com/chatbots',
+        scrapedAt: '2024-01-01T00:00:00.000Z',
+        isOriginal: true,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    ],
+    pagination: {
+      currentPage: 1,
+      totalPages: 1,
+      totalItems: 1,
+      itemsPerPage: 10,
+    },
+  });
 
-test('renders learn react link', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+
+  expect(
+    await screen.findByText('Chatbots for small businesses')
+  ).toBeInTheDocument();
+  expect(listArticles).toHaveBeenCalledWith(
+    expect.objectContaining({ page: 1, limit: 10, sortBy: 'createdAt' }),
+    expect.anything()
+  );
+  expect(screen.getByText('Sign in')).toBeInTheDocument();
 });
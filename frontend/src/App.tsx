@@ -1,25 +1,55 @@
-import React from 'react';
-import logo from './logo.svg';
-import './App.css';
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
+import Layout from './components/Layout';
+import RequireRole from './components/RequireRole';
+import { AuthProvider } from './hooks/useAuth';
+import ArticleDetailPage from './pages/ArticleDetailPage';
+import ArticleListPage from './pages/ArticleListPage';
+import ComparePage from './pages/ComparePage';
+import DashboardPage from './pages/DashboardPage';
+import EditVersionPage from './pages/EditVersionPage';
+import JobDetailPage from './pages/JobDetailPage';
+import LoginPage from './pages/LoginPage';
 
 function App() {
   return (
-    <div className="App">
-      <header className="App-header">
-        <img src={logo} className="App-logo" alt="logo" />
-        <p>
-          Edit <code>src/App.tsx</code> and save to reload.
-        </p>
-        <a
-          className="App-link"
-          href="https://reactjs.org"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          Learn React
-        </a>
-      </header>
-    </div>
+    <AuthProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route element={<Layout />}>
+            <Route index element={<Navigate to="/articles" replace />} />
+            <Route path="login" element={<LoginPage />} />
+            <Route path="articles" element={<ArticleListPage />} />
+            <Route path="articles/:id" element={<ArticleDetailPage />} />
+            <Route path="articles/:id/compare" element={<ComparePage />} />
+            <Route
+              path="articles/:id/edit"
+              element={
+                <RequireRole role="editor">
+                  <EditVersionPage />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="dashboard"
+              element={
+                <RequireRole role="viewer">
+                  <DashboardPage />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="dashboard/jobs/:id"
+              element={
+                <RequireRole role="viewer">
+                  <JobDetailPage />
+                </RequireRole>
+              }
+            />
+            <Route path="*" element={<Navigate to="/articles" replace />} />
+          </Route>
+        </Routes>
+      </BrowserRouter>
+    </AuthProvider>
   );
 }
 
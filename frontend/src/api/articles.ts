@@ -0,0 +1,50 @@
+import { API_URL, getData, sendData } from './client';
+import {
+  ArticleComment,
+  ArticleDTO,
+  ArticleDetailResponse,
+  ListArticlesParams,
+  ListArticlesResponse,
+  ReviewResponse,
+  ReviewStatus,
+  UpdateArticleRequest,
+} from '../types/article';
+
+export const listArticles = (
+  params: ListArticlesParams,
+  signal?: AbortSignal
+): Promise<ListArticlesResponse> =>
+  getData<ListArticlesResponse>('/articles', params, signal);
+
+export const getArticle = (
+  id: string,
+  signal?: AbortSignal
+): Promise<ArticleDetailResponse> =>
+  getData<ArticleDetailResponse>(`/articles/${id}`, undefined, signal);
+
+export const updateArticle = (
+  id: string,
+  updates: UpdateArticleRequest
+): Promise<ArticleDTO> => sendData<ArticleDTO>('put', `/articles/${id}`, updates);
+
+export const getReview = (
+  id: string,
+  signal?: AbortSignal
+): Promise<ReviewResponse> =>
+  getData<ReviewResponse>(`/articles/${id}/review`, undefined, signal);
+
+export const updateReviewStatus = (
+  id: string,
+  status: ReviewStatus,
+  reason?: string
+): Promise<ArticleDTO> =>
+  sendData<ArticleDTO>('post', `/articles/${id}/status`, { status, reason });
+
+export const addComment = (id: string, body: string): Promise<ArticleComment> =>
+  sendData<ArticleComment>('post', `/articles/${id}/comments`, { body });
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+/** Download link for an article as Markdown, HTML or JSON */
+export const articleExportUrl = (id: string, format: ExportFormat): string =>
+  `${API_URL}/articles/${id}/export?format=${format}`;
@@ -0,0 +1,8 @@
+import { getData, sendData } from './client';
+import { LoginResponse, User } from '../types/auth';
+
+export const login = (email: string, password: string): Promise<LoginResponse> =>
+  sendData<LoginResponse>('post', '/auth/login', { email, password });
+
+export const getCurrentUser = (): Promise<{ user: User }> =>
+  getData<{ user: User }>('/auth/me');
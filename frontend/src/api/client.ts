@@ -0,0 +1,78 @@
+import axios from 'axios';
+import { ApiResponse } from '../types/article';
+
+const TOKEN_KEY = 'authToken';
+
+export const API_URL =
+  process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+const client = axios.create({
+  baseURL: API_URL,
+  timeout: 15000,
+});
+
+client.interceptors.request.use((config) => {
+  const token = getToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export const getToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const setToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
+
+/**
+ * Message to show for a failed request: the API's error message when it
+ * sent one
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError<ApiResponse<unknown>>(error)) {
+    return (
+      error.response?.data?.error ||
+      error.response?.data?.message ||
+      error.message
+    );
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const unwrap = <T>(response: ApiResponse<T>): T => {
+  if (!response.success || response.data === undefined) {
+    throw new Error(response.message || 'Unexpected response');
+  }
+  return response.data;
+};
+
+/**
+ * GET an API route and unwrap its `data`
+ */
+export const getData = async <T>(
+  url: string,
+  params?: object,
+  signal?: AbortSignal
+): Promise<T> => {
+  const response = await client.get<ApiResponse<T>>(url, { params, signal });
+  return unwrap(response.data);
+};
+
+/**
+ * Send a body to an API route and unwrap its `data`
+ */
+export const sendData = async <T>(
+  method: 'post' | 'put',
+  url: string,
+  body: object
+): Promise<T> => {
+  const response = await client[method]<ApiResponse<T>>(url, body);
+  return unwrap(response.data);
+};
+
+export default client;
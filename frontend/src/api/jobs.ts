@@ -0,0 +1,36 @@
+import { getData, sendData } from './client';
+import {
+  EnqueueJobRequest,
+  JobDTO,
+  JobsSummaryResponse,
+  ListJobsParams,
+  ListJobsResponse,
+  SourceDTO,
+} from '../types/job';
+
+export const listJobs = (
+  params: ListJobsParams,
+  signal?: AbortSignal
+): Promise<ListJobsResponse> =>
+  getData<ListJobsResponse>('/jobs', params, signal);
+
+export const getJobsSummary = (
+  signal?: AbortSignal
+): Promise<JobsSummaryResponse> =>
+  getData<JobsSummaryResponse>('/jobs/summary', undefined, signal);
+
+export const getJob = (id: string, signal?: AbortSignal): Promise<JobDTO> =>
+  getData<JobDTO>(`/jobs/${id}`, undefined, signal);
+
+export const enqueueJob = (request: EnqueueJobRequest): Promise<JobDTO> =>
+  sendData<JobDTO>('post', '/jobs', request);
+
+export const cancelJob = (id: string): Promise<JobDTO> =>
+  sendData<JobDTO>('post', `/jobs/${id}/cancel`, {});
+
+/** Queue the given failed items of a job again (default: all of them) */
+export const retryJob = (id: string, items?: string[]): Promise<JobDTO> =>
+  sendData<JobDTO>('post', `/jobs/${id}/retry`, items ? { items } : {});
+
+export const listSources = (signal?: AbortSignal): Promise<SourceDTO[]> =>
+  getData<SourceDTO[]>('/sources', undefined, signal);
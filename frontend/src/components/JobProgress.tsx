@@ -0,0 +1,27 @@
+import { JobDTO } from '../types/job';
+
+/**
+ * Progress bar of a job, split into succeeded and failed items
+ */
+const JobProgress = ({ progress }: { progress: JobDTO['progress'] }) => {
+  const { total, processed, succeeded, failed } = progress;
+  const percent = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  return (
+    <div className="min-w-[10rem]">
+      <div className="flex h-2 overflow-hidden rounded-full bg-gray-200">
+        <div
+          className="bg-green-500"
+          style={{ width: `${percent(succeeded)}%` }}
+        />
+        <div className="bg-red-500" style={{ width: `${percent(failed)}%` }} />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {processed}/{total || '?'} processed
+        {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+      </p>
+    </div>
+  );
+};
+
+export default JobProgress;
@@ -0,0 +1,19 @@
+import { JobStatus } from '../types/job';
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-primary-50 text-primary-700',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-yellow-100 text-yellow-800',
+};
+
+const JobStatusBadge = ({ status }: { status: JobStatus }) => (
+  <span
+    className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_CLASSES[status]}`}
+  >
+    {status}
+  </span>
+);
+
+export default JobStatusBadge;
@@ -0,0 +1,64 @@
+import { Link, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+
+const Layout = () => {
+  const { user, logout } = useAuth();
+  const location = useLocation();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex max-w-6xl items-center px-4 py-4">
+          <Link
+            to="/articles"
+            className="text-lg font-semibold text-primary-700"
+          >
+            Article Library
+          </Link>
+          <nav className="ml-6 mr-auto flex gap-4 text-sm">
+            <Link to="/articles" className="text-gray-600 hover:text-primary-700">
+              Articles
+            </Link>
+            {user && (
+              <Link
+                to="/dashboard"
+                className="text-gray-600 hover:text-primary-700"
+              >
+                Operations
+              </Link>
+            )}
+          </nav>
+          {user ? (
+            <div className="flex items-center gap-3 text-sm text-gray-600">
+              <span>
+                {user.name} ({user.role})
+              </span>
+              <button
+                type="button"
+                className="text-primary-600 hover:underline"
+                onClick={logout}
+              >
+                Sign out
+              </button>
+            </div>
+          ) : (
+            location.pathname !== '/login' && (
+              <Link
+                to="/login"
+                state={{ from: location.pathname + location.search }}
+                className="text-sm text-primary-600 hover:underline"
+              >
+                Sign in
+              </Link>
+            )
+          )}
+        </div>
+      </header>
+      <main className="mx-auto max-w-6xl px-4 py-6">
+        <Outlet />
+      </main>
+    </div>
+  );
+};
+
+export default Layout;
@@ -0,0 +1,52 @@
+import ReactMarkdown from 'react-markdown';
+
+interface MarkdownProps {
+  children: string;
+}
+
+/**
+ * Article body; links open in a new tab so the reader keeps their place
+ */
+const Markdown = ({ children }: MarkdownProps) => (
+  <div className="markdown space-y-3 leading-relaxed text-gray-800">
+    <ReactMarkdown
+      components={{
+        a: ({ node, children, ...props }) => (
+          <a
+            {...props}
+            className="text-primary-600 underline hover:text-primary-700"
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {children}
+          </a>
+        ),
+        h1: ({ node, children, ...props }) => (
+          <h1 {...props} className="text-2xl font-semibold">
+            {children}
+          </h1>
+        ),
+        h2: ({ node, children, ...props }) => (
+          <h2 {...props} className="pt-2 text-xl font-semibold">
+            {children}
+          </h2>
+        ),
+        h3: ({ node, children, ...props }) => (
+          <h3 {...props} className="text-lg font-semibold">
+            {children}
+          </h3>
+        ),
+        ul: ({ node, ...props }) => (
+          <ul {...props} className="list-disc space-y-1 pl-6" />
+        ),
+        ol: ({ node, ...props }) => (
+          <ol {...props} className="list-decimal space-y-1 pl-6" />
+        ),
+      }}
+    >
+      {children}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
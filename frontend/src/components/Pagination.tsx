@@ -0,0 +1,51 @@
+import { Pagination as PaginationInfo } from '../types/article';
+
+interface PaginationProps {
+  pagination: PaginationInfo;
+  onPageChange(page: number): void;
+}
+
+const Pagination = ({ pagination, onPageChange }: PaginationProps) => {
+  const { currentPage, totalPages, totalItems, itemsPerPage } = pagination;
+
+  if (totalItems === 0) return null;
+
+  const first = (currentPage - 1) * itemsPerPage + 1;
+  const last = Math.min(currentPage * itemsPerPage, totalItems);
+  const buttonClass =
+    'rounded-md border border-gray-300 px-3 py-1 text-sm disabled:cursor-not-allowed disabled:opacity-50 hover:bg-gray-50';
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="flex items-center justify-between pt-4 text-sm text-gray-600"
+    >
+      <span>
+        {first}–{last} of {totalItems}
+      </span>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className={buttonClass}
+          disabled={currentPage <= 1}
+          onClick={() => onPageChange(currentPage - 1)}
+        >
+          Previous
+        </button>
+        <span>
+          Page {currentPage} of {totalPages}
+        </span>
+        <button
+          type="button"
+          className={buttonClass}
+          disabled={currentPage >= totalPages}
+          onClick={() => onPageChange(currentPage + 1)}
+        >
+          Next
+        </button>
+      </div>
+    </nav>
+  );
+};
+
+export default Pagination;
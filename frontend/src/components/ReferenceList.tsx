@@ -0,0 +1,33 @@
+import { ArticleReference } from '../types/article';
+
+interface ReferenceListProps {
+  references?: ArticleReference[];
+}
+
+const ReferenceList = ({ references }: ReferenceListProps) => {
+  if (!references || references.length === 0) {
+    return <p className="text-sm text-gray-500">No references.</p>;
+  }
+
+  return (
+    <ol className="list-decimal space-y-1 pl-6 text-sm">
+      {references.map((reference) => (
+        <li key={reference.url}>
+          <a
+            href={reference.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-600 underline hover:text-primary-700"
+          >
+            {reference.title}
+          </a>
+          {reference.query && (
+            <span className="text-gray-500"> — found for “{reference.query}”</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ReferenceList;
@@ -0,0 +1,43 @@
+import { ReactElement } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { UserRole } from '../types/article';
+import Status from './Status';
+
+interface RequireRoleProps {
+  role: UserRole;
+  children: ReactElement;
+}
+
+/**
+ * Send signed-out users to the login page, and tell signed-in users
+ * without the role that they cannot open the page
+ */
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { user, checking, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (checking) {
+    return <Status loading />;
+  }
+
+  if (!user) {
+    return (
+      <Navigate
+        to="/login"
+        state={{ from: location.pathname + location.search }}
+        replace
+      />
+    );
+  }
+
+  if (!hasRole(role)) {
+    return (
+      <Status loading={false} error={`This page requires the ${role} role.`} />
+    );
+  }
+
+  return children;
+};
+
+export default RequireRole;
@@ -0,0 +1,217 @@
+import { FormEvent, useCallback, useState } from 'react';
+import {
+  addComment,
+  getReview,
+  updateReviewStatus,
+} from '../api/articles';
+import { getErrorMessage } from '../api/client';
+import { useApi } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { ReviewStatus } from '../types/article';
+import { formatDate } from '../utils/format';
+import ReviewStatusBadge, { REVIEW_STATUS_LABELS } from './ReviewStatusBadge';
+import Status from './Status';
+
+const ACTION_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Back to draft',
+  in_review: 'Submit for review',
+  approved: 'Approve',
+  published: 'Publish',
+  rejected: 'Reject',
+};
+
+interface ReviewPanelProps {
+  articleId: string;
+  /** Called after the status changed, e.g. to reload the version */
+  onStatusChange?(status: ReviewStatus): void;
+}
+
+/**
+ * Review state of an optimized version, the moves the user may make from
+ * it, and its comment thread
+ */
+const ReviewPanel = ({ articleId, onStatusChange }: ReviewPanelProps) => {
+  const { hasRole } = useAuth();
+  const load = useCallback(
+    (signal: AbortSignal) => getReview(articleId, signal),
+    [articleId]
+  );
+  const { data, error, loading, reload } = useApi(load);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string>();
+
+  if (!data) {
+    return <Status loading={loading} error={error} />;
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setActionError(undefined);
+    try {
+      await action();
+      reload();
+      return true;
+    } catch (failure) {
+      setActionError(getErrorMessage(failure));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const move = async (status: ReviewStatus, rejectionReason?: string) => {
+    const moved = await run(() =>
+      updateReviewStatus(articleId, status, rejectionReason)
+    );
+    if (moved) {
+      setRejecting(false);
+      setReason('');
+      onStatusChange?.(status);
+    }
+  };
+
+  const onReject = (event: FormEvent) => {
+    event.preventDefault();
+    if (reason.trim()) move('rejected', reason.trim());
+  };
+
+  const onComment = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!comment.trim()) return;
+    if (await run(() => addComment(articleId, comment.trim()))) {
+      setComment('');
+    }
+  };
+
+  const transitions = data.transitions.filter(({ role }) => hasRole(role));
+  const buttonClass =
+    'rounded-md px-3 py-1.5 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-50';
+
+  return (
+    <aside className="space-y-5 rounded-md border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Review</h2>
+        <ReviewStatusBadge status={data.status} />
+      </div>
+
+      {data.status === 'rejected' && data.rejectionReason && (
+        <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+          <span className="font-medium">Rejected:</span> {data.rejectionReason}
+        </p>
+      )}
+
+      {actionError && <Status loading={false} error={actionError} />}
+
+      {transitions.length > 0 && !rejecting && (
+        <div className="flex flex-wrap gap-2">
+          {transitions.map(({ to }) => (
+            <button
+              key={to}
+              type="button"
+              disabled={busy}
+              className={`${buttonClass} ${
+                to === 'rejected'
+                  ? 'border border-red-300 text-red-700 hover:bg-red-50'
+                  : to === 'draft'
+                  ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                  : 'bg-primary-600 text-white hover:bg-primary-700'
+              }`}
+              onClick={() => (to === 'rejected' ? setRejecting(true) : move(to))}
+            >
+              {ACTION_LABELS[to]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rejecting && (
+        <form onSubmit={onReject} className="space-y-2">
+          <label className="block text-sm font-medium" htmlFor="reject-reason">
+            Reason for rejecting
+          </label>
+          <textarea
+            id="reject-reason"
+            className="w-full rounded-md border border-gray-300 p-2 text-sm"
+            rows={3}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            required
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy || !reason.trim()}
+              className={`${buttonClass} bg-red-600 text-white hover:bg-red-700`}
+            >
+              Reject
+            </button>
+            <button
+              type="button"
+              className={`${buttonClass} border border-gray-300 hover:bg-gray-50`}
+              onClick={() => setRejecting(false)}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {data.history.length > 0 && (
+        <section>
+          <h3 className="mb-1 text-sm font-semibold text-gray-700">History</h3>
+          <ol className="space-y-1 text-xs text-gray-600">
+            {data.history.map((entry) => (
+              <li key={`${entry.at}-${entry.to}`}>
+                {formatDate(entry.at)} · {REVIEW_STATUS_LABELS[entry.from]} →{' '}
+                {REVIEW_STATUS_LABELS[entry.to]}
+                {entry.by && ` by ${entry.by.name || entry.by.email}`}
+                {entry.reason && ` — “${entry.reason}”`}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <section>
+        <h3 className="mb-2 text-sm font-semibold text-gray-700">
+          Comments ({data.comments.length})
+        </h3>
+        <ul className="space-y-3">
+          {data.comments.map((entry) => (
+            <li key={entry._id} className="text-sm">
+              <p className="text-xs text-gray-500">
+                {entry.author?.name || entry.author?.email || 'Unknown'} ·{' '}
+                {formatDate(entry.createdAt)}
+              </p>
+              <p className="whitespace-pre-wrap">{entry.body}</p>
+            </li>
+          ))}
+        </ul>
+        {hasRole('editor') && (
+          <form onSubmit={onComment} className="mt-3 space-y-2">
+            <textarea
+              aria-label="New comment"
+              className="w-full rounded-md border border-gray-300 p-2 text-sm"
+              rows={2}
+              placeholder="Leave a comment"
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={busy || !comment.trim()}
+              className={`${buttonClass} border border-gray-300 hover:bg-gray-50`}
+            >
+              Comment
+            </button>
+          </form>
+        )}
+      </section>
+    </aside>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,27 @@
+import { ReviewStatus } from '../types/article';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  published: 'Published',
+  rejected: 'Rejected',
+};
+
+const STATUS_CLASSES: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-primary-50 text-primary-700',
+  published: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+const ReviewStatusBadge = ({ status }: { status: ReviewStatus }) => (
+  <span
+    className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[status]}`}
+  >
+    {REVIEW_STATUS_LABELS[status]}
+  </span>
+);
+
+export default ReviewStatusBadge;
@@ -0,0 +1,139 @@
+import { FormEvent, useState } from 'react';
+import { enqueueJob, listSources } from '../api/jobs';
+import { getErrorMessage } from '../api/client';
+import { useApi } from '../hooks/useApi';
+import { EnqueueJobRequest, JobDTO } from '../types/job';
+import Status from './Status';
+
+interface StartRunFormsProps {
+  onStarted(job: JobDTO): void;
+}
+
+const inputClass =
+  'w-24 rounded-md border border-gray-300 px-2 py-1 text-sm disabled:bg-gray-100';
+const buttonClass =
+  'rounded-md bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Forms that queue a scrape or optimize run
+ */
+const StartRunForms = ({ onStarted }: StartRunFormsProps) => {
+  const sources = useApi(listSources);
+  const [sourceId, setSourceId] = useState('');
+  const [scrapeLimit, setScrapeLimit] = useState('');
+  const [optimizeLimit, setOptimizeLimit] = useState('5');
+  const [onlyUnoptimized, setOnlyUnoptimized] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const start = async (request: EnqueueJobRequest) => {
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      onStarted(await enqueueJob(request));
+    } catch (failure) {
+      setError(getErrorMessage(failure));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const onScrape = (event: FormEvent) => {
+    event.preventDefault();
+    start({
+      type: 'scrape',
+      params: {
+        sourceId: sourceId || undefined,
+        limit: scrapeLimit ? Number(scrapeLimit) : undefined,
+      },
+    });
+  };
+
+  const onOptimize = (event: FormEvent) => {
+    event.preventDefault();
+    start({
+      type: 'optimize',
+      params: { limit: Number(optimizeLimit), onlyUnoptimized },
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <Status loading={false} error={error} />}
+      <div className="grid gap-4 md:grid-cols-2">
+        <form
+          onSubmit={onScrape}
+          className="space-y-3 rounded-md border border-gray-200 bg-white p-4"
+        >
+          <h2 className="font-semibold">Scrape articles</h2>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col text-xs text-gray-600">
+              Source
+              <select
+                className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+                value={sourceId}
+                onChange={(event) => setSourceId(event.target.value)}
+              >
+                <option value="">Default</option>
+                {sources.data?.map((source) => (
+                  <option key={source._id} value={source._id}>
+                    {source.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col text-xs text-gray-600">
+              Limit
+              <input
+                type="number"
+                min={1}
+                max={500}
+                placeholder="Source default"
+                className={inputClass}
+                value={scrapeLimit}
+                onChange={(event) => setScrapeLimit(event.target.value)}
+              />
+            </label>
+            <button type="submit" disabled={submitting} className={buttonClass}>
+              Start scrape
+            </button>
+          </div>
+        </form>
+
+        <form
+          onSubmit={onOptimize}
+          className="space-y-3 rounded-md border border-gray-200 bg-white p-4"
+        >
+          <h2 className="font-semibold">Optimize articles</h2>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col text-xs text-gray-600">
+              Limit
+              <input
+                type="number"
+                min={1}
+                max={50}
+                required
+                className={inputClass}
+                value={optimizeLimit}
+                onChange={(event) => setOptimizeLimit(event.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-2 pb-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onlyUnoptimized}
+                onChange={(event) => setOnlyUnoptimized(event.target.checked)}
+              />
+              Only never-optimized
+            </label>
+            <button type="submit" disabled={submitting} className={buttonClass}>
+              Start optimization
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StartRunForms;
@@ -0,0 +1,29 @@
+interface StatusProps {
+  loading: boolean;
+  error?: string;
+}
+
+/**
+ * Loading indicator or error banner for a page's data; renders nothing
+ * once the data is in
+ */
+const Status = ({ loading, error }: StatusProps) => {
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700"
+      >
+        {error}
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <p className="py-8 text-center text-sm text-gray-500">Loading…</p>;
+  }
+
+  return null;
+};
+
+export default Status;
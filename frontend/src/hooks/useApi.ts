@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getErrorMessage } from '../api/client';
+
+interface ApiState<T> {
+  data?: T;
+  error?: string;
+  loading: boolean;
+}
+
+/**
+ * Load data whenever load changes, or when reload() is called. Pass a
+ * module-level function or one wrapped in useCallback, or it runs on every
+ * render. The previous request is aborted, so a slow response never
+ * overwrites a newer one.
+ */
+export const useApi = <T>(
+  load: (signal: AbortSignal) => Promise<T>
+): ApiState<T> & { reload(): void } => {
+  const [state, setState] = useState<ApiState<T>>({ loading: true });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState((previous) => ({ data: previous.data, loading: true }));
+
+    load(controller.signal)
+      .then((data) => setState({ data, loading: false }))
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          setState({ error: getErrorMessage(error), loading: false });
+        }
+      });
+
+    return () => controller.abort();
+  }, [load, attempt]);
+
+  const reload = useCallback(() => setAttempt((count) => count + 1), []);
+
+  return { ...state, reload };
+};
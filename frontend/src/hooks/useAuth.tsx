@@ -0,0 +1,73 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { getCurrentUser, login as loginRequest } from '../api/auth';
+import { getToken, setToken } from '../api/client';
+import { UserRole } from '../types/article';
+import { User } from '../types/auth';
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, editor: 1, admin: 2 };
+
+interface AuthState {
+  user?: User;
+  /** True until a stored session has been checked */
+  checking: boolean;
+  login(email: string, password: string): Promise<void>;
+  logout(): void;
+  /** Whether the signed-in user's role includes the given one */
+  hasRole(role: UserRole): boolean;
+}
+
+const AuthContext = createContext<AuthState | undefined>(undefined);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<User>();
+  const [checking, setChecking] = useState(Boolean(getToken()));
+
+  useEffect(() => {
+    if (!getToken()) return;
+
+    getCurrentUser()
+      .then((data) => setUser(data.user))
+      // An expired or revoked session just signs the user out
+      .catch(() => setToken(null))
+      .finally(() => setChecking(false));
+  }, []);
+
+  const login = useCallback(async (email: string, password: string) => {
+    const { token, user: signedIn } = await loginRequest(email, password);
+    setToken(token);
+    setUser(signedIn);
+  }, []);
+
+  const logout = useCallback(() => {
+    setToken(null);
+    setUser(undefined);
+  }, []);
+
+  const hasRole = useCallback(
+    (role: UserRole) => Boolean(user && ROLE_RANK[user.role] >= ROLE_RANK[role]),
+    [user]
+  );
+
+  const value = useMemo(
+    () => ({ user, checking, login, logout, hasRole }),
+    [user, checking, login, logout, hasRole]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthState => {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return auth;
+};
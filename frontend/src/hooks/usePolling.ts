@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+
+/**
+ * Call refresh every interval while active, e.g. to follow running jobs
+ */
+export const usePolling = (
+  refresh: () => void,
+  active: boolean,
+  interval = 3000
+): void => {
+  useEffect(() => {
+    if (!active) return;
+
+    const timer = setInterval(refresh, interval);
+    return () => clearInterval(timer);
+  }, [refresh, active, interval]);
+};
@@ -0,0 +1,147 @@
+import { useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { articleExportUrl, ExportFormat, getArticle } from '../api/articles';
+import Markdown from '../components/Markdown';
+import ReferenceList from '../components/ReferenceList';
+import ReviewStatusBadge from '../components/ReviewStatusBadge';
+import Status from '../components/Status';
+import { useApi } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { formatDate, originalOf, reviewStatusOf } from '../utils/format';
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
+
+const ArticleDetailPage = () => {
+  const { id = '' } = useParams();
+  const { hasRole } = useAuth();
+  const load = useCallback(
+    (signal: AbortSignal) => getArticle(id, signal),
+    [id]
+  );
+  const { data, error, loading } = useApi(load);
+
+  if (!data || data.article._id !== id) {
+    return <Status loading={loading} error={error} />;
+  }
+
+  const { article, updatedVersions = [] } = data;
+  const original = originalOf(article);
+
+  return (
+    <article className="space-y-6">
+      <Link to="/articles" className="text-sm text-primary-600 hover:underline">
+        ← All articles
+      </Link>
+
+      <header>
+        <h1 className="text-3xl font-semibold">{article.title}</h1>
+        <p className="mt-2 text-sm text-gray-500">
+          {article.author && `${article.author} · `}
+          {formatDate(article.publishedDate || article.createdAt)}
+          {article.metadata?.readingTime !== undefined &&
+            ` · ${article.metadata.readingTime} min read`}
+          {' · '}
+          <a
+            href={article.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-600 hover:underline"
+          >
+            Source
+          </a>
+          {' · Download '}
+          {EXPORT_FORMATS.map(({ format, label }, index) => (
+            <span key={format}>
+              {index > 0 && ', '}
+              <a
+                href={articleExportUrl(article._id, format)}
+                className="text-primary-600 hover:underline"
+              >
+                {label}
+              </a>
+            </span>
+          ))}
+        </p>
+        {original && (
+          <p className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+            <ReviewStatusBadge status={reviewStatusOf(article)} />
+            <span>
+              Optimized version {article.version ?? 1} of{' '}
+              <Link
+                to={`/articles/${original._id}`}
+                className="text-primary-600 hover:underline"
+              >
+                {original.title || 'the original article'}
+              </Link>
+            </span>
+            {hasRole('editor') && (
+              <Link
+                to={`/articles/${article._id}/edit`}
+                className="rounded-md border border-primary-500 px-2 py-0.5 text-primary-700 hover:bg-primary-50"
+              >
+                Edit & review
+              </Link>
+            )}
+          </p>
+        )}
+      </header>
+
+      {article.isOriginal && (
+        <section className="rounded-md border border-gray-200 bg-white p-4">
+          <h2 className="mb-2 font-semibold">Optimized versions</h2>
+          {updatedVersions.length === 0 ? (
+            <p className="text-sm text-gray-500">Not optimized yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {updatedVersions.map((version) => (
+                <li
+                  key={version._id}
+                  className="flex flex-wrap items-center gap-x-3 gap-y-1"
+                >
+                  <Link
+                    to={`/articles/${version._id}`}
+                    className="font-medium text-primary-700 hover:underline"
+                  >
+                    Version {version.version ?? 1}
+                  </Link>
+                  <ReviewStatusBadge status={reviewStatusOf(version)} />
+                  <span className="text-gray-500">
+                    {formatDate(version.createdAt)}
+                    {version.generation?.model &&
+                      ` · ${version.generation.model}`}
+                    {version.isStale && ' · stale'}
+                  </span>
+                  <Link
+                    to={`/articles/${article._id}/compare?version=${
+                      version.version ?? 1
+                    }`}
+                    className="text-primary-600 hover:underline"
+                  >
+                    Compare with original
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      <section className="rounded-md border border-gray-200 bg-white p-6">
+        <Markdown>{article.updatedContent || article.content}</Markdown>
+      </section>
+
+      {!article.isOriginal && (
+        <section>
+          <h2 className="mb-2 font-semibold">References</h2>
+          <ReferenceList references={article.references} />
+        </section>
+      )}
+    </article>
+  );
+};
+
+export default ArticleDetailPage;
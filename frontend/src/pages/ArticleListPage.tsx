@@ -0,0 +1,191 @@
+import { ChangeEvent, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { listArticles } from '../api/articles';
+import Pagination from '../components/Pagination';
+import Status from '../components/Status';
+import { useApi } from '../hooks/useApi';
+import { ArticleSortField, ListArticlesParams } from '../types/article';
+import { formatDate, originalOf } from '../utils/format';
+
+const SORT_OPTIONS: Array<{ value: ArticleSortField; label: string }> = [
+  { value: 'createdAt', label: 'Added' },
+  { value: 'updatedAt', label: 'Last updated' },
+  { value: 'publishedDate', label: 'Published' },
+  { value: 'title', label: 'Title' },
+  { value: 'wordCount', label: 'Word count' },
+  { value: 'readingTime', label: 'Reading time' },
+  { value: 'qualityScore', label: 'Quality score' },
+];
+
+const PAGE_SIZES = [10, 20, 50];
+
+const TYPE_OPTIONS = [
+  { value: '', label: 'All articles' },
+  { value: 'true', label: 'Originals' },
+  { value: 'false', label: 'Optimized versions' },
+];
+
+/**
+ * List parameters from the URL, so filters survive reloads and can be shared
+ */
+const paramsFrom = (searchParams: URLSearchParams): ListArticlesParams => {
+  const page = Number(searchParams.get('page'));
+  const limit = Number(searchParams.get('limit'));
+  const isOriginal = searchParams.get('isOriginal');
+  const sortBy = searchParams.get('sortBy') as ArticleSortField | null;
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    limit: PAGE_SIZES.includes(limit) ? limit : PAGE_SIZES[0],
+    isOriginal:
+      isOriginal === 'true' || isOriginal === 'false' ? isOriginal : undefined,
+    sortBy: SORT_OPTIONS.some(({ value }) => value === sortBy)
+      ? sortBy!
+      : 'createdAt',
+    order: searchParams.get('order') === 'asc' ? 'asc' : 'desc',
+  };
+};
+
+const ArticleListPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = paramsFrom(searchParams);
+  const load = useCallback(
+    (signal: AbortSignal) => listArticles(paramsFrom(searchParams), signal),
+    [searchParams]
+  );
+  const { data, error, loading } = useApi(load);
+
+  const update = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) =>
+      value ? next.set(key, value) : next.delete(key)
+    );
+    setSearchParams(next);
+  };
+
+  // Any filter change starts again from the first page
+  const onFilterChange =
+    (key: string) => (event: ChangeEvent<HTMLSelectElement>) =>
+      update({ [key]: event.target.value, page: '' });
+
+  const selectClass =
+    'rounded-md border border-gray-300 bg-white px-2 py-1 text-sm';
+
+  return (
+    <section>
+      <div className="mb-4 flex flex-wrap items-end gap-3">
+        <h1 className="mr-auto text-2xl font-semibold">Articles</h1>
+        <label className="flex flex-col text-xs text-gray-600">
+          Show
+          <select
+            className={selectClass}
+            value={params.isOriginal || ''}
+            onChange={onFilterChange('isOriginal')}
+          >
+            {TYPE_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600">
+          Sort by
+          <select
+            className={selectClass}
+            value={params.sortBy}
+            onChange={onFilterChange('sortBy')}
+          >
+            {SORT_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600">
+          Order
+          <select
+            className={selectClass}
+            value={params.order}
+            onChange={onFilterChange('order')}
+          >
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600">
+          Per page
+          <select
+            className={selectClass}
+            value={params.limit}
+            onChange={onFilterChange('limit')}
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <Status loading={loading && !data} error={error} />
+
+      {data && (
+        <>
+          {data.articles.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">
+              No articles found.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 rounded-md border border-gray-200 bg-white">
+              {data.articles.map((article) => {
+                const original = originalOf(article);
+
+                return (
+                  <li key={article._id} className="px-4 py-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <Link
+                          to={`/articles/${article._id}`}
+                          className="font-medium text-primary-700 hover:underline"
+                        >
+                          {article.title}
+                        </Link>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {article.author && `${article.author} · `}
+                          {formatDate(article.publishedDate || article.createdAt)}
+                          {article.metadata?.wordCount !== undefined &&
+                            ` · ${article.metadata.wordCount} words`}
+                          {original?.title && ` · version of “${original.title}”`}
+                        </p>
+                      </div>
+                      <span
+                        className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${
+                          article.isOriginal
+                            ? 'bg-gray-100 text-gray-700'
+                            : 'bg-primary-50 text-primary-700'
+                        }`}
+                      >
+                        {article.isOriginal
+                          ? 'Original'
+                          : `Optimized v${article.version ?? 1}`}
+                      </span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <Pagination
+            pagination={data.pagination}
+            onPageChange={(page) => update({ page: String(page) })}
+          />
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ArticleListPage;
@@ -0,0 +1,99 @@
+import { useCallback } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { getArticle } from '../api/articles';
+import Markdown from '../components/Markdown';
+import ReferenceList from '../components/ReferenceList';
+import Status from '../components/Status';
+import { useApi } from '../hooks/useApi';
+import { formatDate } from '../utils/format';
+
+/**
+ * The original article next to one of its optimized versions, picked with
+ * ?version=N (the latest when omitted)
+ */
+const ComparePage = () => {
+  const { id = '' } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const load = useCallback(
+    (signal: AbortSignal) => getArticle(id, signal),
+    [id]
+  );
+  const { data, error, loading } = useApi(load);
+
+  if (!data || data.article._id !== id) {
+    return <Status loading={loading} error={error} />;
+  }
+
+  const { article, updatedVersions = [] } = data;
+
+  if (!article.isOriginal || updatedVersions.length === 0) {
+    return (
+      <Status
+        loading={false}
+        error={
+          article.isOriginal
+            ? 'This article has no optimized versions to compare.'
+            : 'Only original articles can be compared with their versions.'
+        }
+      />
+    );
+  }
+
+  const requested = Number(searchParams.get('version'));
+  const selected =
+    updatedVersions.find((version) => (version.version ?? 1) === requested) ||
+    updatedVersions[updatedVersions.length - 1];
+
+  return (
+    <section className="space-y-4">
+      <Link
+        to={`/articles/${article._id}`}
+        className="text-sm text-primary-600 hover:underline"
+      >
+        ← {article.title}
+      </Link>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="mr-auto text-2xl font-semibold">Compare versions</h1>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Optimized version
+          <select
+            className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+            value={selected.version ?? 1}
+            onChange={(event) =>
+              setSearchParams({ version: event.target.value })
+            }
+          >
+            {updatedVersions.map((version) => (
+              <option key={version._id} value={version.version ?? 1}>
+                Version {version.version ?? 1} ·{' '}
+                {formatDate(version.createdAt)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="rounded-md border border-gray-200 bg-white p-6">
+          <h2 className="mb-4 text-sm font-semibold uppercase tracking-wide text-gray-500">
+            Original
+          </h2>
+          <Markdown>{article.content}</Markdown>
+        </div>
+        <div className="rounded-md border border-primary-500 bg-white p-6">
+          <h2 className="mb-4 text-sm font-semibold uppercase tracking-wide text-primary-700">
+            Version {selected.version ?? 1}
+          </h2>
+          <Markdown>{selected.updatedContent || ''}</Markdown>
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h3 className="mb-2 font-semibold">References</h3>
+            <ReferenceList references={selected.references} />
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ComparePage;
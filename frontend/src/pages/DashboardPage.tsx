@@ -0,0 +1,189 @@
+import { useCallback, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { getJobsSummary, listJobs } from '../api/jobs';
+import JobProgress from '../components/JobProgress';
+import JobStatusBadge from '../components/JobStatusBadge';
+import Pagination from '../components/Pagination';
+import StartRunForms from '../components/StartRunForms';
+import Status from '../components/Status';
+import { useApi } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { usePolling } from '../hooks/usePolling';
+import { JobStatus, JobType } from '../types/job';
+import { formatDateTime } from '../utils/format';
+
+const PAGE_SIZE = 20;
+
+const JOB_STATUSES: JobStatus[] = [
+  'queued',
+  'running',
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+const SummaryCard = ({ label, value }: { label: string; value?: number }) => (
+  <div className="rounded-md border border-gray-200 bg-white p-4">
+    <p className="text-xs uppercase tracking-wide text-gray-500">{label}</p>
+    <p className="mt-1 text-2xl font-semibold">{value ?? '—'}</p>
+  </div>
+);
+
+/**
+ * Scrape and optimization runs: article counts, forms to start runs and the
+ * run history, refreshed while runs are active
+ */
+const DashboardPage = () => {
+  const { hasRole } = useAuth();
+  const navigate = useNavigate();
+  const [page, setPage] = useState(1);
+  const [type, setType] = useState<JobType | ''>('');
+  const [status, setStatus] = useState<JobStatus | ''>('');
+
+  const summary = useApi(getJobsSummary);
+  const loadJobs = useCallback(
+    (signal: AbortSignal) =>
+      listJobs(
+        {
+          page,
+          limit: PAGE_SIZE,
+          type: type || undefined,
+          status: status || undefined,
+        },
+        signal
+      ),
+    [page, type, status]
+  );
+  const jobs = useApi(loadJobs);
+
+  const { reload: reloadSummary } = summary;
+  const { reload: reloadJobs } = jobs;
+  const refresh = useCallback(() => {
+    reloadSummary();
+    reloadJobs();
+  }, [reloadSummary, reloadJobs]);
+
+  const active = Boolean(
+    jobs.data?.jobs.some(
+      (job) => job.status === 'queued' || job.status === 'running'
+    )
+  );
+  usePolling(refresh, active);
+
+  const counts = summary.data?.articles;
+  const selectClass =
+    'rounded-md border border-gray-300 bg-white px-2 py-1 text-sm';
+
+  return (
+    <section className="space-y-6">
+      <h1 className="text-2xl font-semibold">Operations</h1>
+
+      <Status loading={false} error={summary.error} />
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+        <SummaryCard label="Originals" value={counts?.originals} />
+        <SummaryCard label="Optimized versions" value={counts?.optimized} />
+        <SummaryCard
+          label="Optimized originals"
+          value={counts?.optimizedOriginals}
+        />
+        <SummaryCard label="Never optimized" value={counts?.neverOptimized} />
+        <SummaryCard label="Stale" value={counts?.stale} />
+      </div>
+
+      {hasRole('editor') && (
+        <StartRunForms onStarted={(job) => navigate(`/dashboard/jobs/${job._id}`)} />
+      )}
+
+      <div>
+        <div className="mb-3 flex flex-wrap items-end gap-3">
+          <h2 className="mr-auto text-lg font-semibold">Run history</h2>
+          <select
+            aria-label="Type"
+            className={selectClass}
+            value={type}
+            onChange={(event) => {
+              setType(event.target.value as JobType | '');
+              setPage(1);
+            }}
+          >
+            <option value="">All types</option>
+            <option value="scrape">Scrape</option>
+            <option value="optimize">Optimize</option>
+          </select>
+          <select
+            aria-label="Status"
+            className={selectClass}
+            value={status}
+            onChange={(event) => {
+              setStatus(event.target.value as JobStatus | '');
+              setPage(1);
+            }}
+          >
+            <option value="">All statuses</option>
+            {JOB_STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Status loading={jobs.loading && !jobs.data} error={jobs.error} />
+
+        {jobs.data && (
+          <>
+            {jobs.data.jobs.length === 0 ? (
+              <p className="py-8 text-center text-sm text-gray-500">
+                No runs yet.
+              </p>
+            ) : (
+              <table className="w-full overflow-hidden rounded-md border border-gray-200 bg-white text-left text-sm">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2">Run</th>
+                    <th className="px-3 py-2">Status</th>
+                    <th className="px-3 py-2">Progress</th>
+                    <th className="px-3 py-2">Started</th>
+                    <th className="px-3 py-2">Finished</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {jobs.data.jobs.map((job) => (
+                    <tr key={job._id}>
+                      <td className="px-3 py-2">
+                        <Link
+                          to={`/dashboard/jobs/${job._id}`}
+                          className="font-medium capitalize text-primary-700 hover:underline"
+                        >
+                          {job.type}
+                        </Link>
+                        {job.retryOf && (
+                          <span className="ml-1 text-xs text-gray-500">retry</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <JobStatusBadge status={job.status} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <JobProgress progress={job.progress} />
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {formatDateTime(job.startedAt || job.createdAt)}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {formatDateTime(job.finishedAt)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <Pagination pagination={jobs.data.pagination} onPageChange={setPage} />
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DashboardPage;
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { getArticle, updateArticle } from '../api/articles';
+import { getErrorMessage } from '../api/client';
+import Markdown from '../components/Markdown';
+import ReviewPanel from '../components/ReviewPanel';
+import Status from '../components/Status';
+import { useApi } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { ReviewStatus } from '../types/article';
+import { reviewStatusOf } from '../utils/format';
+
+// The API refuses edits to these until the version is back in draft
+const LOCKED_STATUSES: ReviewStatus[] = ['approved', 'published'];
+
+/**
+ * Markdown editor with live preview for an optimized version, next to its
+ * review panel
+ */
+const EditVersionPage = () => {
+  const { id = '' } = useParams();
+  const { hasRole } = useAuth();
+  const load = useCallback(
+    (signal: AbortSignal) => getArticle(id, signal),
+    [id]
+  );
+  const { data, error, loading, reload } = useApi(load);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string>();
+  const [savedAt, setSavedAt] = useState<Date>();
+
+  const article = data?.article;
+
+  // Start over from the stored version whenever it is (re)loaded
+  useEffect(() => {
+    if (!article) return;
+    setTitle(article.title);
+    setContent(article.updatedContent || '');
+  }, [article]);
+
+  if (!article || article._id !== id) {
+    return <Status loading={loading} error={error} />;
+  }
+
+  if (article.isOriginal) {
+    return (
+      <Status
+        loading={false}
+        error="Only optimized versions can be edited and reviewed."
+      />
+    );
+  }
+
+  const status = reviewStatusOf(article);
+  const locked = LOCKED_STATUSES.includes(status) || !hasRole('editor');
+  const dirty =
+    title !== article.title || content !== (article.updatedContent || '');
+
+  const onSave = async () => {
+    setSaving(true);
+    setSaveError(undefined);
+    try {
+      await updateArticle(article._id, { title, updatedContent: content });
+      setSavedAt(new Date());
+      reload();
+    } catch (failure) {
+      setSaveError(getErrorMessage(failure));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <Link
+        to={`/articles/${article._id}`}
+        className="text-sm text-primary-600 hover:underline"
+      >
+        ← Back to version {article.version ?? 1}
+      </Link>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_20rem]">
+        <div className="space-y-3">
+          <input
+            aria-label="Title"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-xl font-semibold disabled:bg-gray-100"
+            value={title}
+            disabled={locked}
+            onChange={(event) => setTitle(event.target.value)}
+          />
+
+          {LOCKED_STATUSES.includes(status) && (
+            <p className="rounded-md bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+              This version is {status}. Move it back to draft to edit it.
+            </p>
+          )}
+          {saveError && <Status loading={false} error={saveError} />}
+
+          <div className="grid gap-4 xl:grid-cols-2">
+            <textarea
+              aria-label="Markdown"
+              className="min-h-[32rem] w-full rounded-md border border-gray-300 p-3 font-mono text-sm disabled:bg-gray-100"
+              value={content}
+              disabled={locked}
+              onChange={(event) => setContent(event.target.value)}
+            />
+            <div className="min-h-[32rem] overflow-auto rounded-md border border-gray-200 bg-white p-4">
+              <Markdown>{content}</Markdown>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              disabled={locked || !dirty || saving || !title.trim()}
+              className="rounded-md bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={onSave}
+            >
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+            {dirty && <span className="text-sm text-gray-500">Unsaved changes</span>}
+            {!dirty && savedAt && (
+              <span className="text-sm text-gray-500">
+                Saved at {savedAt.toLocaleTimeString()}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <ReviewPanel articleId={article._id} onStatusChange={reload} />
+      </div>
+    </section>
+  );
+};
+
+export default EditVersionPage;
@@ -0,0 +1,224 @@
+import { useCallback, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { cancelJob, getJob, retryJob } from '../api/jobs';
+import { getErrorMessage } from '../api/client';
+import JobProgress from '../components/JobProgress';
+import JobStatusBadge from '../components/JobStatusBadge';
+import Status from '../components/Status';
+import { useApi } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { usePolling } from '../hooks/usePolling';
+import { JobDTO, JobItemResult } from '../types/job';
+import { formatDateTime } from '../utils/format';
+
+const describeParams = (job: JobDTO): string => {
+  const { params } = job;
+  if (params.urls) return `${params.urls.length} URL(s)`;
+  if (params.articleIds) return `${params.articleIds.length} article(s)`;
+
+  const parts = [
+    params.limit !== undefined && `limit ${params.limit}`,
+    params.sourceId && `source ${params.sourceId}`,
+    params.onlyUnoptimized && 'only never-optimized',
+  ];
+  return parts.filter(Boolean).join(', ') || 'defaults';
+};
+
+/**
+ * Per-item progress and failures of one run, with retries for failed items
+ */
+const JobDetailPage = () => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const load = useCallback((signal: AbortSignal) => getJob(id, signal), [id]);
+  const { data: job, error, loading, reload } = useApi(load);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string>();
+
+  const active = job?.status === 'queued' || job?.status === 'running';
+  usePolling(reload, active);
+
+  if (!job || job._id !== id) {
+    return <Status loading={loading} error={error} />;
+  }
+
+  const finished = !active;
+  const canEdit = hasRole('editor');
+  const results: JobItemResult[] =
+    job.results ||
+    job.itemErrors.map((entry) => ({
+      item: entry.item,
+      status: 'failed',
+      message: entry.message,
+      finishedAt: entry.occurredAt,
+    }));
+  const failed = results.filter((result) => result.status === 'failed');
+
+  const run = async (action: () => Promise<JobDTO>, follow: boolean) => {
+    setBusy(true);
+    setActionError(undefined);
+    try {
+      const next = await action();
+      if (follow) {
+        navigate(`/dashboard/jobs/${next._id}`);
+      } else {
+        reload();
+      }
+    } catch (failure) {
+      setActionError(getErrorMessage(failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const itemLink = (result: JobItemResult) => {
+    if (result.articleId) {
+      return (
+        <Link
+          to={`/articles/${result.articleId}`}
+          className="text-primary-700 hover:underline"
+        >
+          {result.label || result.item}
+        </Link>
+      );
+    }
+    return result.label || result.item;
+  };
+
+  const buttonClass =
+    'rounded-md px-3 py-1.5 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-50';
+
+  return (
+    <section className="space-y-5">
+      <Link to="/dashboard" className="text-sm text-primary-600 hover:underline">
+        ← Operations
+      </Link>
+
+      <header className="flex flex-wrap items-center gap-3">
+        <h1 className="text-2xl font-semibold capitalize">{job.type} run</h1>
+        <JobStatusBadge status={job.status} />
+        {job.cancelRequested && active && (
+          <span className="text-sm text-gray-500">Cancelling…</span>
+        )}
+        <div className="ml-auto flex gap-2">
+          {canEdit && active && !job.cancelRequested && (
+            <button
+              type="button"
+              disabled={busy}
+              className={`${buttonClass} border border-gray-300 hover:bg-gray-50`}
+              onClick={() => run(() => cancelJob(job._id), false)}
+            >
+              Cancel
+            </button>
+          )}
+          {canEdit && finished && failed.length > 0 && (
+            <button
+              type="button"
+              disabled={busy}
+              className={`${buttonClass} bg-primary-600 text-white hover:bg-primary-700`}
+              onClick={() => run(() => retryJob(job._id), true)}
+            >
+              Retry {failed.length} failed
+            </button>
+          )}
+        </div>
+      </header>
+
+      {actionError && <Status loading={false} error={actionError} />}
+
+      <dl className="grid grid-cols-2 gap-3 rounded-md border border-gray-200 bg-white p-4 text-sm md:grid-cols-4">
+        <div>
+          <dt className="text-xs text-gray-500">Parameters</dt>
+          <dd>{describeParams(job)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Started</dt>
+          <dd>{formatDateTime(job.startedAt)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Finished</dt>
+          <dd>{formatDateTime(job.finishedAt)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Progress</dt>
+          <dd>
+            <JobProgress progress={job.progress} />
+          </dd>
+        </div>
+        {job.retryOf && (
+          <div className="col-span-2">
+            <dt className="text-xs text-gray-500">Retries failed items of</dt>
+            <dd>
+              <Link
+                to={`/dashboard/jobs/${job.retryOf}`}
+                className="text-primary-700 hover:underline"
+              >
+                {job.retryOf}
+              </Link>
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      {job.error && <Status loading={false} error={job.error} />}
+
+      {job.progress.current && (
+        <p className="rounded-md bg-primary-50 px-3 py-2 text-sm text-primary-700">
+          Working on {job.progress.current.label || job.progress.current.item}…
+        </p>
+      )}
+
+      <div>
+        <h2 className="mb-2 text-lg font-semibold">Items</h2>
+        {results.length === 0 ? (
+          <p className="text-sm text-gray-500">No items processed yet.</p>
+        ) : (
+          <table className="w-full overflow-hidden rounded-md border border-gray-200 bg-white text-left text-sm">
+            <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2">Result</th>
+                <th className="px-3 py-2">Finished</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {results.map((result) => (
+                <tr key={result.item}>
+                  <td className="max-w-md break-words px-3 py-2">
+                    {itemLink(result)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {result.status === 'failed' ? (
+                      <span className="text-red-700">{result.message}</span>
+                    ) : (
+                      <span className="text-green-700">Succeeded</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {formatDateTime(result.finishedAt)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {canEdit && finished && result.status === 'failed' && (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        className="text-primary-600 hover:underline disabled:opacity-50"
+                        onClick={() => run(() => retryJob(job._id, [result.item]), true)}
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default JobDetailPage;
@@ -0,0 +1,76 @@
+import { FormEvent, useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { getErrorMessage } from '../api/client';
+import Status from '../components/Status';
+import { useAuth } from '../hooks/useAuth';
+
+const LoginPage = () => {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
+
+  // Back to the page that asked for a login
+  const from = (location.state as { from?: string } | null)?.from || '/articles';
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      await login(email, password);
+      navigate(from, { replace: true });
+    } catch (failure) {
+      setError(getErrorMessage(failure));
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2';
+
+  return (
+    <form
+      onSubmit={onSubmit}
+      className="mx-auto max-w-sm space-y-4 rounded-md border border-gray-200 bg-white p-6"
+    >
+      <h1 className="text-xl font-semibold">Sign in</h1>
+      {error && <Status loading={false} error={error} />}
+      <label className="block text-sm">
+        Email
+        <input
+          type="email"
+          className={inputClass}
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          required
+        />
+      </label>
+      <label className="block text-sm">
+        Password
+        <input
+          type="password"
+          className={inputClass}
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          required
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-md bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+      >
+        {submitting ? 'Signing in…' : 'Sign in'}
+      </button>
+    </form>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,151 @@
+/**
+ * Response shapes of the /api/articles routes, mirroring
+ * backend/src/types/article.api.ts. Dates are ISO strings, as they arrive
+ * over JSON.
+ */
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+export interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  itemsPerPage: number;
+}
+
+export interface ArticleReference {
+  title: string;
+  url: string;
+  sourceId?: string;
+  query?: string;
+  rank?: number;
+  score?: number;
+}
+
+export type ReviewStatus =
+  | 'draft'
+  | 'in_review'
+  | 'approved'
+  | 'published'
+  | 'rejected';
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface ReviewActor {
+  userId?: string;
+  email?: string;
+  name?: string;
+}
+
+export interface ReviewHistoryEntry {
+  from: ReviewStatus;
+  to: ReviewStatus;
+  reason?: string;
+  by?: ReviewActor;
+  at: string;
+}
+
+export interface ArticleComment {
+  _id: string;
+  body: string;
+  author?: ReviewActor;
+  createdAt: string;
+}
+
+export type QualityStatus = 'passed' | 'flagged' | 'rejected';
+
+export interface ArticleDTO {
+  _id: string;
+  title: string;
+  content: string;
+  excerpt?: string;
+  author?: string;
+  publishedDate?: string;
+  url: string;
+  scrapedAt: string;
+  isOriginal: boolean;
+  originalArticleId?: string | { _id: string; title: string; url: string };
+  updatedContent?: string;
+  references?: ArticleReference[];
+  metadata?: {
+    wordCount?: number;
+    readingTime?: number;
+  };
+  version?: number;
+  generation?: {
+    provider?: string;
+    model?: string;
+    generatedAt?: string;
+    options?: {
+      referenceCount?: number;
+      targetLength?: number;
+      tone?: string;
+      audience?: string;
+    };
+  };
+  isPublished?: boolean;
+  isStale?: boolean;
+  quality?: {
+    score: number;
+    status: QualityStatus;
+    issues: string[];
+  };
+  /** Details are served by getReview */
+  review?: {
+    status: ReviewStatus;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ArticleSortField =
+  | 'createdAt'
+  | 'updatedAt'
+  | 'publishedDate'
+  | 'title'
+  | 'wordCount'
+  | 'readingTime'
+  | 'qualityScore';
+
+/** GET /api/articles */
+export interface ListArticlesParams {
+  page: number;
+  limit: number;
+  isOriginal?: 'true' | 'false';
+  sortBy?: ArticleSortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface ListArticlesResponse {
+  articles: ArticleDTO[];
+  pagination: Pagination;
+}
+
+/** GET /api/articles/:id */
+export interface ArticleDetailResponse {
+  article: ArticleDTO;
+  /** Optimized versions, oldest first (only for originals) */
+  updatedVersions?: ArticleDTO[];
+}
+
+/** PUT /api/articles/:id */
+export interface UpdateArticleRequest {
+  title?: string;
+  updatedContent?: string;
+}
+
+/** GET /api/articles/:id/review */
+export interface ReviewResponse {
+  articleId: string;
+  status: ReviewStatus;
+  rejectionReason?: string;
+  history: ReviewHistoryEntry[];
+  comments: ArticleComment[];
+  /** States the version can move to next, with the role each needs */
+  transitions: Array<{ to: ReviewStatus; role: UserRole }>;
+}
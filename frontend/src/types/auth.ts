@@ -0,0 +1,14 @@
+import { UserRole } from './article';
+
+export interface User {
+  _id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+/** POST /api/auth/login */
+export interface LoginResponse {
+  token: string;
+  user: User;
+}
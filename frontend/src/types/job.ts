@@ -0,0 +1,101 @@
+/**
+ * Response shapes of the /api/jobs routes, mirroring
+ * backend/src/types/job.api.ts
+ */
+
+import { Pagination } from './article';
+
+export type JobType = 'scrape' | 'optimize';
+
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface ScrapeJobParams {
+  sourceId?: string;
+  limit?: number;
+  urls?: string[];
+}
+
+export interface OptimizeJobParams {
+  articleIds?: string[];
+  limit?: number;
+  onlyUnoptimized?: boolean;
+}
+
+export interface JobItemResult {
+  /** Article URL (scrape) or original article ID (optimize) */
+  item: string;
+  label?: string;
+  status: 'succeeded' | 'failed';
+  message?: string;
+  articleId?: string;
+  finishedAt: string;
+}
+
+export interface JobDTO {
+  _id: string;
+  type: JobType;
+  status: JobStatus;
+  params: ScrapeJobParams & OptimizeJobParams;
+  progress: {
+    total: number;
+    processed: number;
+    succeeded: number;
+    failed: number;
+    current?: { item: string; label?: string; startedAt: string };
+  };
+  /** Only included by GET /api/jobs/:id */
+  results?: JobItemResult[];
+  itemErrors: Array<{ item: string; message: string; occurredAt: string }>;
+  error?: string;
+  attempts: number;
+  retryOf?: string;
+  cancelRequested: boolean;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+}
+
+/** GET /api/jobs */
+export interface ListJobsParams {
+  page: number;
+  limit: number;
+  status?: JobStatus;
+  type?: JobType;
+}
+
+export interface ListJobsResponse {
+  jobs: JobDTO[];
+  pagination: Pagination;
+}
+
+/** POST /api/jobs */
+export type EnqueueJobRequest =
+  | { type: 'scrape'; params?: ScrapeJobParams }
+  | { type: 'optimize'; params?: OptimizeJobParams };
+
+/** GET /api/jobs/summary */
+export interface JobsSummaryResponse {
+  articles: {
+    originals: number;
+    optimized: number;
+    optimizedOriginals: number;
+    neverOptimized: number;
+    stale: number;
+  };
+  jobs: Record<JobType, Partial<Record<JobStatus, number>>>;
+  latest: Partial<Record<JobType, JobDTO>>;
+}
+
+/** GET /api/sources */
+export interface SourceDTO {
+  _id: string;
+  name: string;
+  listingUrl: string;
+  crawlLimit: number;
+  isActive: boolean;
+}
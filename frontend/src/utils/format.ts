@@ -0,0 +1,39 @@
+import { ReviewStatus } from '../types/article';
+
+export const formatDate = (value?: string): string =>
+  value
+    ? new Date(value).toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      })
+    : '—';
+
+export const formatDateTime = (value?: string): string =>
+  value
+    ? new Date(value).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+/** Title and ID of the original an optimized version was generated from */
+export const originalOf = (
+  article: { originalArticleId?: string | { _id: string; title: string } }
+): { _id: string; title?: string } | undefined => {
+  const original = article.originalArticleId;
+  if (!original) return undefined;
+  return typeof original === 'string' ? { _id: original } : original;
+};
+
+/**
+ * Review state of a version; versions from before the review workflow count
+ * as published or draft
+ */
+export const reviewStatusOf = (article: {
+  review?: { status: ReviewStatus };
+  isPublished?: boolean;
+}): ReviewStatus =>
+  article.review?.status || (article.isPublished ? 'published' : 'draft');